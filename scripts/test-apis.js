@@ -5,6 +5,8 @@ import { GitHubIntegration } from '../dist/integrations/github.js';
 import { JiraIntegration } from '../dist/integrations/jira.js';
 import { SlackIntegration } from '../dist/integrations/slack.js';
 import { OpenAIAgent } from '../dist/agents/openai.js';
+import { createLLMProvider } from '../dist/agents/providers/index.js';
+import { config } from '../dist/config/index.js';
 
 dotenv.config();
 
@@ -57,13 +59,10 @@ async function testAPIs() {
     console.log('❌ Slack API error:', error.message);
   }
 
-  // Test OpenAI
+  // Test the configured LLM provider
   try {
-    console.log('\nTesting OpenAI API...');
-    const ai = new OpenAIAgent({
-      apiKey: process.env.OPENAI_API_KEY,
-      model: process.env.OPENAI_MODEL || 'gpt-4-turbo-preview'
-    });
+    console.log(`\nTesting LLM provider (${config.llm.provider})...`);
+    const ai = new OpenAIAgent(createLLMProvider(config));
     
     const result = await ai.analyzeContext({
       type: 'pr_analysis',
@@ -71,9 +70,9 @@ async function testAPIs() {
       instructions: 'Provide a brief analysis of this test PR.'
     });
     
-    console.log('✅ OpenAI API working - Confidence:', result.confidence);
+    console.log('✅ LLM provider working - Confidence:', result.confidence);
   } catch (error) {
-    console.log('❌ OpenAI API error:', error.message);
+    console.log('❌ LLM provider error:', error.message);
   }
 
   console.log('\n🏁 API Testing Complete!');
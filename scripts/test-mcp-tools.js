@@ -6,6 +6,8 @@ import { GitHubIntegration } from '../dist/integrations/github.js';
 import { JiraIntegration } from '../dist/integrations/jira.js';
 import { SlackIntegration } from '../dist/integrations/slack.js';
 import { OpenAIAgent } from '../dist/agents/openai.js';
+import { createLLMProvider } from '../dist/agents/providers/index.js';
+import { config } from '../dist/config/index.js';
 
 dotenv.config();
 
@@ -28,10 +30,7 @@ async function testMCPTools() {
       appToken: process.env.SLACK_APP_TOKEN,
       signingSecret: process.env.SLACK_SIGNING_SECRET
     }),
-    ai: new OpenAIAgent({
-      apiKey: process.env.OPENAI_API_KEY,
-      model: process.env.OPENAI_MODEL || 'gpt-4-turbo-preview'
-    })
+    ai: new OpenAIAgent(createLLMProvider(config))
   });
 
   // Test 1: Analyze PR (with public repo)
@@ -0,0 +1,63 @@
+import Anthropic from '@anthropic-ai/sdk';
+import type { MessageParam, Tool } from '@anthropic-ai/sdk/resources/messages';
+import { toJsonSchema } from './json-schema.js';
+import { LLMCompletion, LLMCompletionRequest, LLMProvider } from './types.js';
+
+export interface AnthropicProviderConfig {
+  apiKey: string;
+  model: string;
+}
+
+/**
+ * Anthropic Messages API backend. Structured output is obtained by forcing a
+ * single tool call whose input schema is the response schema, then returning
+ * the tool input as the JSON document.
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+  readonly model: string;
+  private client: Anthropic;
+
+  constructor(config: AnthropicProviderConfig) {
+    this.model = config.model;
+    // Retries are handled by the shared resilience policy
+    this.client = new Anthropic({ apiKey: config.apiKey, maxRetries: 0 });
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+    const messages: MessageParam[] = request.messages
+      .filter(message => message.role !== 'system')
+      .map(message => ({ role: message.role as MessageParam['role'], content: message.content }));
+
+    const tool: Tool = {
+      name: request.name,
+      description: `Record the ${request.name.replace(/_/g, ' ')} result`,
+      input_schema: toJsonSchema(request.schema, request.name) as Tool['input_schema'],
+    };
+
+    const response = await this.client.messages.create({
+      model: this.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(system ? { system } : {}),
+      messages,
+      tools: [tool],
+      tool_choice: { type: 'tool', name: tool.name },
+    }, { signal: request.signal });
+
+    const toolUse = response.content.find(block => block.type === 'tool_use');
+    if (!toolUse || toolUse.type !== 'tool_use') {
+      throw new Error(`No ${request.name} tool call in Anthropic response (stop reason: ${response.stop_reason})`);
+    }
+
+    return {
+      content: JSON.stringify(toolUse.input),
+      model: response.model,
+      usage: { inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens },
+    };
+  }
+}
@@ -0,0 +1,83 @@
+import { z } from 'zod';
+import { LLMCompletion, LLMCompletionRequest, LLMProvider } from './types.js';
+
+export type FakeResponse =
+  | string
+  | Record<string, unknown>
+  | ((request: LLMCompletionRequest) => string | Record<string, unknown>);
+
+export interface FakeLLMProviderConfig {
+  model?: string;
+  // Fixed responses keyed by request name; strings are returned verbatim
+  responses?: Record<string, FakeResponse>;
+}
+
+/**
+ * Deterministic offline provider for tests and local runs without credentials.
+ * Responses are taken from the queue first, then the fixed responses, and
+ * otherwise generated from the request schema (first enum value, zero, empty
+ * string or empty list), so every call returns the same schema-valid document.
+ */
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = 'fake' as const;
+  readonly model: string;
+  readonly requests: LLMCompletionRequest[] = [];
+  private responses: Record<string, FakeResponse>;
+  private queue = new Map<string, FakeResponse[]>();
+
+  constructor(config: FakeLLMProviderConfig = {}) {
+    this.model = config.model || 'fake-model';
+    this.responses = config.responses || {};
+  }
+
+  /**
+   * Queues one-shot responses for a request name, consumed before the fixed response.
+   */
+  enqueue(name: string, ...responses: FakeResponse[]): void {
+    this.queue.set(name, [...(this.queue.get(name) || []), ...responses]);
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    this.requests.push({ ...request, messages: request.messages.map(message => ({ ...message })) });
+
+    const response = this.queue.get(request.name)?.shift()
+      ?? this.responses[request.name]
+      ?? sampleFromSchema(request.schema);
+    const value = typeof response === 'function' ? response(request) : response;
+
+    return {
+      content: typeof value === 'string' ? value : JSON.stringify(value),
+      model: this.model,
+      usage: { inputTokens: 0, outputTokens: 0 },
+    };
+  }
+}
+
+function sampleFromSchema(schema: z.ZodTypeAny): unknown {
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    return Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, sampleFromSchema(value)]));
+  }
+  if (schema instanceof z.ZodEnum) {
+    return schema.options[0];
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return schema.value;
+  }
+  if (schema instanceof z.ZodNumber) {
+    return 0;
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return false;
+  }
+  if (schema instanceof z.ZodArray) {
+    return [];
+  }
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return sampleFromSchema(schema.unwrap());
+  }
+  if (schema instanceof z.ZodDefault) {
+    return schema._def.defaultValue();
+  }
+  return '';
+}
@@ -0,0 +1,47 @@
+import { Config } from '../../types/index.js';
+import { AnthropicProvider } from './anthropic.js';
+import { FakeLLMProvider } from './fake.js';
+import { AzureOpenAIProvider, OpenAICompatibleProvider, OpenAIProvider } from './openai.js';
+import { SamplingLLMProvider } from './sampling.js';
+import { LLMProvider } from './types.js';
+
+export * from './types.js';
+export { AnthropicProvider } from './anthropic.js';
+export { FakeLLMProvider } from './fake.js';
+export { AzureOpenAIProvider, OpenAICompatibleProvider, OpenAIProvider } from './openai.js';
+export { SamplingLLMProvider, createSamplingClient, runWithSamplingClient } from './sampling.js';
+export type { SamplingClient } from './sampling.js';
+
+/**
+ * Builds the configured backend, wrapped in MCP sampling when enabled so the
+ * backend only serves clients that cannot sample.
+ */
+export function createLLMProvider(config: Pick<Config, 'llm' | 'openai'>): LLMProvider {
+  const provider = createBackend(config);
+
+  if (config.llm.sampling) {
+    return new SamplingLLMProvider(provider);
+  }
+  if (!provider) {
+    throw new Error('LLM_PROVIDER=none requires MCP sampling to be enabled');
+  }
+  return provider;
+}
+
+function createBackend(config: Pick<Config, 'llm' | 'openai'>): LLMProvider | undefined {
+  switch (config.llm.provider) {
+    case 'azure-openai':
+      return new AzureOpenAIProvider(config.llm.azureOpenai);
+    case 'anthropic':
+      return new AnthropicProvider(config.llm.anthropic);
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(config.llm.openaiCompatible);
+    case 'fake':
+      return new FakeLLMProvider();
+    case 'none':
+      return undefined;
+    case 'openai':
+    default:
+      return new OpenAIProvider(config.openai);
+  }
+}
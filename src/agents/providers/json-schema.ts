@@ -0,0 +1,11 @@
+import { zodResponseFormat } from 'openai/helpers/zod';
+import { z } from 'zod';
+
+/**
+ * Converts a response schema into an inline JSON schema for backends that take
+ * a raw JSON schema. Reuses the OpenAI converter so every backend sees the same
+ * strict, all-required shape.
+ */
+export function toJsonSchema(schema: z.ZodTypeAny, name: string): Record<string, unknown> {
+  return zodResponseFormat(schema, name).json_schema.schema || {};
+}
@@ -0,0 +1,113 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import { zodResponseFormat } from 'openai/helpers/zod';
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { toJsonSchema } from './json-schema.js';
+import { LLMCompletion, LLMCompletionRequest, LLMProvider, LLMProviderName } from './types.js';
+
+export interface OpenAIProviderConfig {
+  apiKey: string;
+  model: string;
+}
+
+export interface AzureOpenAIProviderConfig {
+  endpoint: string;
+  apiKey: string;
+  deployment: string;
+  apiVersion: string;
+}
+
+export interface OpenAICompatibleProviderConfig {
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+  // Older local servers only understand json_object; the schema is then sent in the prompt
+  responseFormat: 'json_schema' | 'json_object';
+}
+
+/**
+ * Shared implementation for backends that speak the OpenAI chat completions
+ * API. Retries are disabled on the client because the agent runs every call
+ * through the shared resilience policy.
+ */
+abstract class ChatCompletionsProvider implements LLMProvider {
+  abstract readonly name: LLMProviderName;
+
+  constructor(
+    protected readonly client: OpenAI,
+    readonly model: string,
+    private readonly responseFormat: 'json_schema' | 'json_object' = 'json_schema'
+  ) {}
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const messages: ChatCompletionMessageParam[] = request.messages.map(message => ({ ...message }));
+
+    if (this.responseFormat === 'json_object') {
+      messages.unshift({
+        role: 'system',
+        content: `Respond with a single JSON object that matches this JSON schema:\n${JSON.stringify(toJsonSchema(request.schema, request.name))}`,
+      });
+    }
+
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      response_format: this.responseFormat === 'json_schema'
+        ? zodResponseFormat(request.schema, request.name)
+        : { type: 'json_object' },
+    }, { signal: request.signal });
+
+    const message = response.choices[0]?.message;
+    if (message?.refusal) {
+      throw new Error(`Model refused the request: ${message.refusal}`);
+    }
+    if (!message?.content) {
+      throw new Error(`No response content from ${this.name}`);
+    }
+
+    return {
+      content: message.content,
+      model: response.model || this.model,
+      usage: response.usage
+        ? { inputTokens: response.usage.prompt_tokens, outputTokens: response.usage.completion_tokens }
+        : undefined,
+    };
+  }
+}
+
+export class OpenAIProvider extends ChatCompletionsProvider {
+  readonly name = 'openai' as const;
+
+  constructor(config: OpenAIProviderConfig) {
+    super(new OpenAI({ apiKey: config.apiKey, maxRetries: 0 }), config.model);
+  }
+}
+
+export class AzureOpenAIProvider extends ChatCompletionsProvider {
+  readonly name = 'azure-openai' as const;
+
+  constructor(config: AzureOpenAIProviderConfig) {
+    // Azure routes by deployment, so the deployment name doubles as the model
+    super(new AzureOpenAI({
+      endpoint: config.endpoint,
+      apiKey: config.apiKey,
+      deployment: config.deployment,
+      apiVersion: config.apiVersion,
+      maxRetries: 0,
+    }), config.deployment);
+  }
+}
+
+export class OpenAICompatibleProvider extends ChatCompletionsProvider {
+  readonly name = 'openai-compatible' as const;
+
+  constructor(config: OpenAICompatibleProviderConfig) {
+    // Ollama and llama.cpp ignore the key, but the client refuses to start without one
+    super(new OpenAI({
+      apiKey: config.apiKey || 'not-required',
+      baseURL: config.baseUrl,
+      maxRetries: 0,
+    }), config.model, config.responseFormat);
+  }
+}
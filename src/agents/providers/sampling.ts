@@ -0,0 +1,128 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { CreateMessageRequest, CreateMessageResult, RequestId } from '@modelcontextprotocol/sdk/types.js';
+import logger from '../../utils/logger.js';
+import { ServiceError } from '../../types/index.js';
+import { toJsonSchema } from './json-schema.js';
+import { LLMCompletion, LLMCompletionRequest, LLMProvider } from './types.js';
+
+/**
+ * The connected MCP client a tool call came from, as seen by the provider.
+ */
+export interface SamplingClient {
+  supportsSampling(): boolean;
+  createMessage(params: CreateMessageRequest['params'], signal?: AbortSignal): Promise<CreateMessageResult>;
+}
+
+// Clients may ask their user to approve each request, so this is longer than a provider call
+const SAMPLING_TIMEOUT_MS = 180000;
+
+const samplingContext = new AsyncLocalStorage<SamplingClient>();
+
+/**
+ * Runs fn with the given client as the sampling target for any analysis it triggers.
+ */
+export function runWithSamplingClient<T>(client: SamplingClient, fn: () => Promise<T>): Promise<T> {
+  return samplingContext.run(client, fn);
+}
+
+/**
+ * Binds a client to an MCP server connection. Passing the id of the tool call
+ * that triggered sampling lets the streamable HTTP transport deliver the
+ * request on that call's response stream.
+ */
+export function createSamplingClient(server: Server, relatedRequestId?: RequestId): SamplingClient {
+  return {
+    supportsSampling: () => Boolean(server.getClientCapabilities()?.sampling),
+    createMessage: (params, signal) => server.createMessage(params, { relatedRequestId, signal, timeout: SAMPLING_TIMEOUT_MS }),
+  };
+}
+
+/**
+ * Delegates completions to the calling client's model via sampling/createMessage
+ * when the client advertises the sampling capability, and to the configured
+ * provider otherwise. Without a fallback the server needs no LLM credentials,
+ * but analyses then only work for sampling-capable clients. A client that
+ * declines a request is not overridden by the fallback.
+ */
+export class SamplingLLMProvider implements LLMProvider {
+  readonly name = 'mcp-sampling' as const;
+  private fallback?: LLMProvider;
+
+  constructor(fallback?: LLMProvider) {
+    this.fallback = fallback;
+  }
+
+  // Which model answers is only known per completion, so no model profile applies
+  get model(): string {
+    return 'client';
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const client = samplingContext.getStore();
+
+    if (!client?.supportsSampling()) {
+      return this.completeWithFallback(request, 'client does not support sampling');
+    }
+
+    let result: CreateMessageResult;
+    try {
+      result = await client.createMessage(this.buildParams(request), request.signal);
+    } catch (error) {
+      logger.warn('MCP sampling request failed', { name: request.name, error: error instanceof Error ? error.message : error });
+      throw new ServiceError(`Client did not complete sampling for ${request.name}: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'llm',
+        retryable: false,
+      });
+    }
+
+    if (result.content.type !== 'text' || !result.content.text) {
+      throw new ServiceError(`Client returned ${result.content.type} content for ${request.name}, expected text`, {
+        service: 'llm',
+        retryable: false,
+      });
+    }
+
+    return {
+      content: stripCodeFence(result.content.text),
+      model: result.model,
+    };
+  }
+
+  private async completeWithFallback(request: LLMCompletionRequest, reason: string): Promise<LLMCompletion> {
+    if (!this.fallback) {
+      throw new ServiceError(`No LLM available for ${request.name}: ${reason} and no provider is configured`, {
+        service: 'llm',
+        retryable: false,
+      });
+    }
+    return this.fallback.complete(request);
+  }
+
+  private buildParams(request: LLMCompletionRequest): CreateMessageRequest['params'] {
+    // Sampling has no structured output mode, so the schema goes in the system prompt
+    const systemPrompt = [
+      ...request.messages.filter(message => message.role === 'system').map(message => message.content),
+      `Respond with only a JSON object, without code fences, that matches this JSON schema:\n${JSON.stringify(toJsonSchema(request.schema, request.name))}`,
+    ].join('\n\n');
+
+    return {
+      messages: request.messages
+        .filter(message => message.role !== 'system')
+        .map(message => ({
+          role: message.role as 'user' | 'assistant',
+          content: { type: 'text' as const, text: message.content },
+        })),
+      systemPrompt,
+      includeContext: 'none',
+      temperature: request.temperature,
+      maxTokens: request.maxTokens,
+      modelPreferences: { intelligencePriority: 0.8, speedPriority: 0.2 },
+    };
+  }
+}
+
+function stripCodeFence(text: string): string {
+  const match = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return match?.[1] ?? text.trim();
+}
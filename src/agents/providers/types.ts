@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+export type LLMProviderName = 'openai' | 'azure-openai' | 'anthropic' | 'openai-compatible' | 'fake' | 'mcp-sampling';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  // Identifies the response schema to the backend (tool or schema name)
+  name: string;
+  messages: LLMMessage[];
+  schema: z.ZodTypeAny;
+  temperature: number;
+  maxTokens: number;
+  // Aborted when the resilience policy gives up on the attempt
+  signal?: AbortSignal;
+}
+
+export interface LLMCompletion {
+  // Raw JSON text; validation against the schema is left to the caller
+  content: string;
+  model: string;
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+  };
+}
+
+/**
+ * A chat model backend that can return a JSON document for a given zod schema.
+ * Providers only translate the request into their API's structured output
+ * mechanism; retries, validation and repair are handled by the agent.
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+}
@@ -0,0 +1,93 @@
+import { z } from 'zod';
+import { AnalysisType } from '../types/index.js';
+
+/**
+ * Structured output contracts for each analysis type. The schemas are sent to
+ * the model as a strict JSON schema response format and the response is
+ * validated against them again on return. Strict mode requires every property
+ * to be present, so "no value" is expressed as an empty string or empty array
+ * instead of an optional field.
+ */
+
+export const prAnalysisDataSchema = z.object({
+  riskLevel: z.enum(['low', 'medium', 'high']),
+  estimatedReviewTime: z.number().describe('Estimated review time in hours'),
+  reviewerRationale: z.string().describe('Why the ranked reviewer candidates suit this change; empty when none were provided'),
+  topics: z.array(z.string()),
+});
+
+export const issueTriageDataSchema = z.object({
+  priority: z.enum(['low', 'medium', 'high', 'critical']),
+  category: z.string(),
+  estimatedEffort: z.number().describe('Story points: 1, 2, 3, 5, 8 or 13'),
+  suggestedAssignee: z.string().describe('Empty string when there is no clear owner'),
+  dependencies: z.array(z.string()).describe('Issue keys or references this issue depends on'),
+  tags: z.array(z.string()),
+});
+
+export const releaseReadinessDataSchema = z.object({
+  readinessScore: z.number().describe('Overall readiness from 0 to 100'),
+  blockers: z.array(z.object({
+    type: z.string(),
+    description: z.string(),
+    severity: z.enum(['low', 'medium', 'high']),
+  })),
+  riskLevel: z.enum(['low', 'medium', 'high']),
+  recommendedActions: z.array(z.string()),
+});
+
+export const teamInsightsDataSchema = z.object({
+  bottlenecks: z.array(z.object({
+    type: z.enum(['review', 'testing', 'deployment', 'planning']),
+    description: z.string(),
+    impact: z.number().describe('Impact from 1 (minor) to 5 (severe)'),
+  })),
+  predictions: z.array(z.object({
+    metric: z.string(),
+    prediction: z.string(),
+    confidence: z.number().describe('Confidence from 0 to 100'),
+  })),
+});
+
+export const codeReviewDataSchema = z.object({
+  findings: z.array(z.object({
+    path: z.string().describe('File path exactly as given in the pull request'),
+    line: z.number().describe('New-file line number shown in the numbered patch; 0 when the finding is not about one line'),
+    severity: z.enum(['info', 'minor', 'major', 'critical']),
+    title: z.string(),
+    body: z.string().describe('What is wrong and how to fix it, in Markdown'),
+  })),
+});
+
+export const ANALYSIS_DATA_SCHEMAS = {
+  pr_analysis: prAnalysisDataSchema,
+  code_review: codeReviewDataSchema,
+  issue_triage: issueTriageDataSchema,
+  release_readiness: releaseReadinessDataSchema,
+  team_insights: teamInsightsDataSchema,
+} satisfies Record<AnalysisType, z.ZodTypeAny>;
+
+export function getAnalysisResponseSchema<T extends AnalysisType>(type: T) {
+  return z.object({
+    analysis: z.string(),
+    confidence: z.number().describe('Confidence from 0 to 100'),
+    recommendations: z.array(z.string()),
+    structured_data: ANALYSIS_DATA_SCHEMAS[type],
+  });
+}
+
+export type PRAnalysisData = z.infer<typeof prAnalysisDataSchema>;
+export type CodeReviewData = z.infer<typeof codeReviewDataSchema>;
+export type IssueTriageData = z.infer<typeof issueTriageDataSchema>;
+export type ReleaseReadinessData = z.infer<typeof releaseReadinessDataSchema>;
+export type TeamInsightsData = z.infer<typeof teamInsightsDataSchema>;
+
+/**
+ * Flattens zod issues into a short, model-readable list for the repair prompt.
+ */
+export function describeSchemaIssues(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 10)
+    .map(issue => `- ${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('\n');
+}
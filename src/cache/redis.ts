@@ -0,0 +1,86 @@
+import { createClient } from 'redis';
+import logger from '../utils/logger.js';
+import { InMemoryResponseCache, ResponseCache } from './store.js';
+
+export interface RedisCacheConfig {
+  url: string;
+}
+
+type RedisClient = Pick<ReturnType<typeof createClient>, 'connect' | 'get' | 'set' | 'quit' | 'on' | 'isReady'>;
+
+const CONNECT_TIMEOUT_MS = 5000;
+// Attempts before giving up on Redis at startup; once connected, reconnecting never stops
+const MAX_STARTUP_ATTEMPTS = 3;
+const MAX_RECONNECT_DELAY_MS = 5000;
+
+/**
+ * Shares cached responses between replicas and restarts. Whenever Redis
+ * cannot be reached, at startup or later, entries go to an in-memory cache
+ * instead, so a Redis outage costs cache hits but never fails an analysis.
+ */
+export class RedisResponseCache implements ResponseCache {
+  private client: RedisClient;
+  private fallback = new InMemoryResponseCache();
+  private connected = false;
+
+  constructor(config: RedisCacheConfig, client?: RedisClient) {
+    this.client = client || createClient({
+      url: config.url,
+      // Commands fail at once while disconnected instead of queueing behind the reconnect
+      disableOfflineQueue: true,
+      socket: {
+        connectTimeout: CONNECT_TIMEOUT_MS,
+        reconnectStrategy: retries => (!this.connected && retries >= MAX_STARTUP_ATTEMPTS
+          ? false
+          : Math.min(100 * 2 ** retries, MAX_RECONNECT_DELAY_MS)),
+      },
+    });
+    // Without a listener, connection errors would crash the process
+    this.client.on('error', error => {
+      logger.debug('Redis cache connection error', { error: error instanceof Error ? error.message : String(error) });
+    });
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      await this.client.connect();
+      this.connected = true;
+      logger.info('LLM response cache connected to Redis');
+    } catch (error) {
+      logger.warn('Redis unavailable, caching LLM responses in memory', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  async get(key: string): Promise<string | null> {
+    if (!this.client.isReady) {
+      return this.fallback.get(key);
+    }
+    try {
+      return await this.client.get(key);
+    } catch (error) {
+      logger.warn('Redis cache read failed, using memory', { error: error instanceof Error ? error.message : 'Unknown error' });
+      return this.fallback.get(key);
+    }
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    if (!this.client.isReady) {
+      return this.fallback.set(key, value, ttlSeconds);
+    }
+    try {
+      await this.client.set(key, value, { EX: ttlSeconds });
+    } catch (error) {
+      logger.warn('Redis cache write failed, using memory', { error: error instanceof Error ? error.message : 'Unknown error' });
+      await this.fallback.set(key, value, ttlSeconds);
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.connected) {
+      await this.client.quit().catch(() => undefined);
+    }
+    await this.fallback.close();
+  }
+}
@@ -0,0 +1,84 @@
+import { createHash } from 'node:crypto';
+
+/**
+ * Stores LLM responses so re-running an analysis on unchanged input does not
+ * pay for another completion. Values are serialized results; keys are built
+ * by the caller and include a hash of the prompt content.
+ */
+export interface ResponseCache {
+  initialize(): Promise<void>;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+  close(): Promise<void>;
+}
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+/**
+ * sha256 of the value with object keys sorted, undefined fields dropped and
+ * line endings unified, so the same content always hashes the same however
+ * it was assembled.
+ */
+export function contentHash(value: unknown): string {
+  return createHash('sha256').update(JSON.stringify(normalize(value))).digest('hex');
+}
+
+function normalize(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\r\n?/g, '\n');
+  }
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(Object.entries(value)
+      .filter(([, child]) => child !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, child]) => [key, normalize(child)]));
+  }
+  return value;
+}
+
+/**
+ * Per-process cache, used on its own or when Redis is unavailable. The least
+ * recently used entry is evicted once `maxEntries` is reached.
+ */
+export class InMemoryResponseCache implements ResponseCache {
+  private entries: Map<string, { value: string; expiresAt: number }> = new Map();
+  private maxEntries: number;
+
+  constructor(maxEntries = DEFAULT_MAX_ENTRIES) {
+    this.maxEntries = maxEntries;
+  }
+
+  async initialize(): Promise<void> {
+    // Nothing to prepare for the in-memory cache
+  }
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return null;
+    }
+    // Re-inserted so iteration order stays least recently used first
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.entries.clear();
+  }
+}
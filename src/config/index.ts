@@ -1,21 +1,234 @@
 import dotenv from 'dotenv';
-import { Config } from '../types/index.js';
+import { AnalysisType, Config, JiraFieldKey, PersonIdentity, PullRequestActionPolicy, RedactionPattern, TeamDefinition } from '../types/index.js';
 
 dotenv.config();
 
+/**
+ * Host header values the HTTP transport accepts, from the comma-separated
+ * MCP_ALLOWED_HOSTS. Defaults to localhost on the configured port.
+ */
+function parseAllowedHosts(value: string | undefined, port: string): string[] {
+  const hosts = (value || '').split(',').map(host => host.trim()).filter(Boolean);
+  return hosts.length > 0 ? hosts : [`localhost:${port}`, `127.0.0.1:${port}`];
+}
+
+const LLM_PROVIDERS: Config['llm']['provider'][] = ['openai', 'azure-openai', 'anthropic', 'openai-compatible', 'fake', 'none'];
+
+function parseLLMProvider(value: string | undefined): Config['llm']['provider'] {
+  return LLM_PROVIDERS.find(provider => provider === value) || 'openai';
+}
+
+/**
+ * Reads team definitions from the TEAMS JSON array. Returns null for
+ * malformed input, which validateConfig reports.
+ */
+function parseTeams(value: string | undefined): TeamDefinition[] | null {
+  if (!value) {
+    return [];
+  }
+  try {
+    const teams = JSON.parse(value);
+    if (!Array.isArray(teams) || !teams.every(isTeamDefinition)) {
+      return null;
+    }
+    return teams.map(team => ({ ...team, repositories: team.repositories || [] }));
+  } catch {
+    return null;
+  }
+}
+
+function isTeamDefinition(value: any): boolean {
+  return typeof value?.name === 'string'
+    && (value.repositories === undefined || (Array.isArray(value.repositories) && value.repositories.every((repo: unknown) => typeof repo === 'string' && repo.includes('/'))))
+    && (value.jiraBoardId === undefined || Number.isInteger(value.jiraBoardId));
+}
+
+const IDENTITY_KEYS = ['name', 'email', 'github', 'jira', 'slack'];
+
+/**
+ * Reads manual identity links from the IDENTITIES JSON array. Each entry
+ * needs at least one account id. Returns null for malformed input, which
+ * validateConfig reports.
+ */
+function parseIdentities(value: string | undefined): PersonIdentity[] | null {
+  if (!value) {
+    return [];
+  }
+  try {
+    const identities = JSON.parse(value);
+    if (!Array.isArray(identities) || !identities.every(isPersonIdentity)) {
+      return null;
+    }
+    return identities;
+  } catch {
+    return null;
+  }
+}
+
+function isPersonIdentity(value: any): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    && Object.entries(value).every(([key, field]) => IDENTITY_KEYS.includes(key) && typeof field === 'string' && field.trim() !== '')
+    && ['github', 'jira', 'slack'].some(key => key in value);
+}
+
+/**
+ * Reads extra redaction patterns from the REDACTION_PATTERNS JSON array.
+ * Returns null for malformed input or patterns that do not compile, which
+ * validateConfig reports.
+ */
+function parseRedactionPatterns(value: string | undefined): RedactionPattern[] | null {
+  if (!value) {
+    return [];
+  }
+  try {
+    const patterns = JSON.parse(value);
+    return Array.isArray(patterns) && patterns.every(isRedactionPattern) ? patterns : null;
+  } catch {
+    return null;
+  }
+}
+
+function isRedactionPattern(value: any): boolean {
+  if (typeof value?.name !== 'string' || !/^[A-Za-z][\w-]*$/.test(value.name) || typeof value.pattern !== 'string' || !value.pattern) {
+    return false;
+  }
+  if (value.flags !== undefined && (typeof value.flags !== 'string' || !/^[gimsu]*$/.test(value.flags))) {
+    return false;
+  }
+  try {
+    new RegExp(value.pattern, value.flags);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Pull requests and issues rarely change without their content (and so the cache key) changing;
+// release and team data move daily
+const DEFAULT_LLM_CACHE_TTLS: Record<AnalysisType, number> = {
+  pr_analysis: 7 * 24 * 3600,
+  code_review: 7 * 24 * 3600,
+  issue_triage: 24 * 3600,
+  release_readiness: 3600,
+  team_insights: 6 * 3600,
+};
+
+/**
+ * Reads per-type cache lifetimes in seconds from the LLM_CACHE_TTLS JSON
+ * object, e.g. {"issue_triage": 3600}. Returns null for unknown types or
+ * values that are not positive numbers, which validateConfig reports.
+ */
+function parseCacheTtls(value: string | undefined): Partial<Record<AnalysisType, number>> | null {
+  if (!value) {
+    return {};
+  }
+  try {
+    const ttls = JSON.parse(value);
+    const valid = typeof ttls === 'object' && ttls !== null && !Array.isArray(ttls)
+      && Object.entries(ttls).every(([type, ttl]) => type in DEFAULT_LLM_CACHE_TTLS && typeof ttl === 'number' && Number.isInteger(ttl) && ttl > 0);
+    return valid ? ttls : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads per-repository pull request action policies from the PR_ACTIONS
+ * JSON array. Returns null for malformed input, which validateConfig reports.
+ */
+function parsePullRequestActions(value: string | undefined): PullRequestActionPolicy[] | null {
+  if (!value) {
+    return [];
+  }
+  try {
+    const policies = JSON.parse(value);
+    return Array.isArray(policies) && policies.every(isPullRequestActionPolicy) ? policies : null;
+  } catch {
+    return null;
+  }
+}
+
+function isPullRequestActionPolicy(value: any): boolean {
+  return typeof value?.repository === 'string'
+    && /^(?:\*|[\w.-]+\/(?:\*|[\w.-]+))$/.test(value.repository)
+    && ['requestReviewers', 'labels', 'comment', 'review'].every(key => value[key] === undefined || typeof value[key] === 'boolean')
+    && (value.maxReviewers === undefined || (Number.isInteger(value.maxReviewers) && value.maxReviewers > 0));
+}
+
+const JIRA_FIELD_KEYS: JiraFieldKey[] = ['sprint', 'storyPoints', 'epicLink', 'team', 'startDate'];
+
+/**
+ * Reads Jira field id overrides from the JIRA_FIELDS JSON object. Returns
+ * null for malformed input, which validateConfig reports.
+ */
+function parseJiraFields(value: string | undefined): Partial<Record<JiraFieldKey, string>> | null {
+  if (!value) {
+    return {};
+  }
+  try {
+    const fields = JSON.parse(value);
+    if (typeof fields !== 'object' || fields === null || Array.isArray(fields)) {
+      return null;
+    }
+    const valid = Object.entries(fields).every(([key, id]) => (
+      JIRA_FIELD_KEYS.some(fieldKey => fieldKey === key) && typeof id === 'string' && id.trim() !== ''
+    ));
+    return valid ? fields : null;
+  } catch {
+    return null;
+  }
+}
+
 export const config: Config = {
+  llm: {
+    provider: parseLLMProvider(process.env.LLM_PROVIDER),
+    sampling: process.env.MCP_SAMPLING === 'true',
+    contextTokens: parseInt(process.env.LLM_CONTEXT_TOKENS || '0', 10) || 0,
+    azureOpenai: {
+      endpoint: process.env.AZURE_OPENAI_ENDPOINT || '',
+      apiKey: process.env.AZURE_OPENAI_API_KEY || '',
+      deployment: process.env.AZURE_OPENAI_DEPLOYMENT || '',
+      apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-10-21',
+    },
+    anthropic: {
+      apiKey: process.env.ANTHROPIC_API_KEY || '',
+      model: process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-5',
+    },
+    openaiCompatible: {
+      baseUrl: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+      model: process.env.LOCAL_LLM_MODEL || 'llama3.1',
+      apiKey: process.env.LOCAL_LLM_API_KEY || '',
+      responseFormat: process.env.LOCAL_LLM_RESPONSE_FORMAT === 'json_object' ? 'json_object' : 'json_schema',
+    },
+    redaction: {
+      enabled: process.env.REDACTION_ENABLED !== 'false',
+      redactNames: process.env.REDACT_NAMES !== 'false',
+      entropyThreshold: parseFloat(process.env.REDACTION_ENTROPY_THRESHOLD || '4.2') || 0,
+      patterns: parseRedactionPatterns(process.env.REDACTION_PATTERNS) || [],
+    },
+    cache: {
+      enabled: process.env.LLM_CACHE_ENABLED !== 'false',
+      backend: process.env.LLM_CACHE_BACKEND === 'memory' ? 'memory' : 'redis',
+      ttlSeconds: { ...DEFAULT_LLM_CACHE_TTLS, ...parseCacheTtls(process.env.LLM_CACHE_TTLS) },
+    },
+  },
   openai: {
     apiKey: process.env.OPENAI_API_KEY || '',
-    model: process.env.OPENAI_MODEL || 'gpt-4-turbo-preview',
+    model: process.env.OPENAI_MODEL || 'gpt-4o',
   },
   github: {
     token: process.env.GITHUB_TOKEN || '',
     organization: process.env.GITHUB_ORGANIZATION,
+    productionEnvironment: process.env.GITHUB_DEPLOYMENT_ENVIRONMENT || 'production',
   },
   jira: {
     url: process.env.JIRA_URL || '',
+    deployment: process.env.JIRA_DEPLOYMENT === 'server' || process.env.JIRA_DEPLOYMENT === 'datacenter' ? 'server' : 'cloud',
     username: process.env.JIRA_USERNAME || '',
     apiToken: process.env.JIRA_API_TOKEN || '',
+    personalAccessToken: process.env.JIRA_PERSONAL_ACCESS_TOKEN || '',
+    maxConcurrency: parseInt(process.env.JIRA_MAX_CONCURRENCY || '5', 10),
+    fields: parseJiraFields(process.env.JIRA_FIELDS) || {},
   },
   slack: {
     botToken: process.env.SLACK_BOT_TOKEN || '',
@@ -25,14 +238,31 @@ export const config: Config = {
   database: {
     url: process.env.DATABASE_URL || 'postgresql://localhost:5432/idwo',
   },
+  workflowState: {
+    backend: process.env.WORKFLOW_STATE_BACKEND === 'postgres' ? 'postgres' : 'memory',
+  },
   redis: {
     url: process.env.REDIS_URL || 'redis://localhost:6379',
   },
   server: {
     port: parseInt(process.env.PORT || '3000', 10),
+    host: process.env.HOST || '0.0.0.0',
+    transport: process.env.MCP_TRANSPORT === 'http' ? 'http' : 'stdio',
+    allowedHosts: parseAllowedHosts(process.env.MCP_ALLOWED_HOSTS, process.env.PORT || '3000'),
+    maxSessions: parseInt(process.env.MCP_MAX_SESSIONS || '100', 10),
+    sessionIdleTimeoutMs: parseInt(process.env.MCP_SESSION_IDLE_TIMEOUT_MS || '1800000', 10),
     nodeEnv: process.env.NODE_ENV || 'development',
     logLevel: process.env.LOG_LEVEL || 'info',
   },
+  webhooks: {
+    enabled: process.env.WEBHOOKS_ENABLED === 'true',
+    port: parseInt(process.env.WEBHOOK_PORT || '3001', 10),
+    githubSecret: process.env.GITHUB_WEBHOOK_SECRET || '',
+    jiraSecret: process.env.JIRA_WEBHOOK_SECRET || '',
+  },
+  teams: parseTeams(process.env.TEAMS) || [],
+  identities: parseIdentities(process.env.IDENTITIES) || [],
+  pullRequestActions: parsePullRequestActions(process.env.PR_ACTIONS) || [],
   security: {
     jwtSecret: process.env.JWT_SECRET || '',
     encryptionKey: process.env.ENCRYPTION_KEY || '',
@@ -42,22 +272,70 @@ export const config: Config = {
     maxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
   },
   circuitBreaker: {
-    timeout: parseInt(process.env.CIRCUIT_BREAKER_TIMEOUT || '5000', 10),
+    timeout: parseInt(process.env.CIRCUIT_BREAKER_TIMEOUT || '30000', 10),
     threshold: parseInt(process.env.CIRCUIT_BREAKER_THRESHOLD || '5', 10),
     resetTimeout: parseInt(process.env.CIRCUIT_BREAKER_RESET_TIMEOUT || '30000', 10),
   },
+  retry: {
+    maxRetries: parseInt(process.env.RETRY_MAX_RETRIES || '3', 10),
+    baseDelayMs: parseInt(process.env.RETRY_BASE_DELAY_MS || '200', 10),
+    maxDelayMs: parseInt(process.env.RETRY_MAX_DELAY_MS || '5000', 10),
+  },
+};
+
+const LLM_PROVIDER_ENV: Record<Config['llm']['provider'], string[]> = {
+  openai: ['OPENAI_API_KEY'],
+  'azure-openai': ['AZURE_OPENAI_ENDPOINT', 'AZURE_OPENAI_API_KEY', 'AZURE_OPENAI_DEPLOYMENT'],
+  anthropic: ['ANTHROPIC_API_KEY'],
+  'openai-compatible': [],
+  fake: [],
+  none: [],
 };
 
 export function validateConfig(): void {
   const required = [
-    'OPENAI_API_KEY',
+    ...LLM_PROVIDER_ENV[config.llm.provider],
     'GITHUB_TOKEN',
     'JIRA_URL',
-    'JIRA_USERNAME', 
-    'JIRA_API_TOKEN',
+    // A Personal Access Token replaces the username and API token on Server/Data Center
+    ...(config.jira.personalAccessToken ? [] : ['JIRA_USERNAME', 'JIRA_API_TOKEN']),
     'SLACK_BOT_TOKEN',
+    // Remote MCP clients authenticate with JWTs signed with this secret
+    ...(config.server.transport === 'http' ? ['JWT_SECRET'] : []),
   ];
 
+  if (config.llm.provider === 'none' && !config.llm.sampling) {
+    throw new Error('LLM_PROVIDER=none requires MCP_SAMPLING=true');
+  }
+
+  if (parseTeams(process.env.TEAMS) === null) {
+    throw new Error('TEAMS must be a JSON array of team definitions with a name and "owner/repo" repositories');
+  }
+
+  if (parseIdentities(process.env.IDENTITIES) === null) {
+    throw new Error('IDENTITIES must be a JSON array of people with at least one of github, jira or slack');
+  }
+
+  if (parsePullRequestActions(process.env.PR_ACTIONS) === null) {
+    throw new Error('PR_ACTIONS must be a JSON array of policies with a "owner/repo", "owner/*" or "*" repository');
+  }
+
+  if (parseRedactionPatterns(process.env.REDACTION_PATTERNS) === null) {
+    throw new Error('REDACTION_PATTERNS must be a JSON array of { "name", "pattern", "flags"? } entries with valid regular expressions');
+  }
+
+  if (parseCacheTtls(process.env.LLM_CACHE_TTLS) === null) {
+    throw new Error(`LLM_CACHE_TTLS must be a JSON object mapping ${Object.keys(DEFAULT_LLM_CACHE_TTLS).join(', ')} to whole seconds`);
+  }
+
+  if (config.jira.personalAccessToken && config.jira.deployment === 'cloud') {
+    throw new Error('JIRA_PERSONAL_ACCESS_TOKEN needs JIRA_DEPLOYMENT=server; Jira Cloud uses JIRA_USERNAME and JIRA_API_TOKEN');
+  }
+
+  if (parseJiraFields(process.env.JIRA_FIELDS) === null) {
+    throw new Error(`JIRA_FIELDS must be a JSON object mapping ${JIRA_FIELD_KEYS.join(', ')} to Jira field ids`);
+  }
+
   const missing = required.filter(key => !process.env[key]);
   
   if (missing.length > 0) {
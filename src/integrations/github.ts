@@ -1,6 +1,8 @@
 import { Octokit } from '@octokit/rest';
 import logger from '../utils/logger.js';
 import { ServiceError } from '../types/index.js';
+import { ExecuteOptions, ResiliencePolicy, createPassthroughPolicy, currentAbortSignal } from '../utils/resilience.js';
+import { CODEOWNERS_PATHS } from '../utils/codeowners.js';
 
 export interface GitHubConfig {
   token: string;
@@ -17,6 +19,9 @@ export interface PRDetails {
   changedFiles: number;
   additions: number;
   deletions: number;
+  labels: string[];
+  // Commit the diff was taken from; review comments are anchored to it
+  headSha: string;
   files: Array<{
     filename: string;
     status: string;
@@ -34,6 +39,7 @@ export interface PRDetails {
     user: string;
     state: string;
     submittedAt: string;
+    body: string;
   }>;
 }
 
@@ -65,29 +71,130 @@ export interface ReleaseInfo {
   author: string;
 }
 
+export interface CheckRunInfo {
+  name: string;
+  status: string;
+  conclusion: string | null;
+  completedAt?: string;
+}
+
+export interface WorkflowRunInfo {
+  id: number;
+  name: string;
+  status: string;
+  conclusion: string | null;
+  headSha: string;
+  createdAt: string;
+}
+
+export interface ArtifactInfo {
+  id: number;
+  name: string;
+  sizeInBytes: number;
+  expired: boolean;
+}
+
+export type DeploymentState = 'success' | 'failure' | 'error' | 'inactive' | 'in_progress' | 'queued' | 'pending' | 'unknown';
+
+export interface DeploymentInfo {
+  id: number;
+  environment: string;
+  ref: string;
+  sha: string;
+  creator: string;
+  createdAt: string;
+  state: DeploymentState;
+  // When the deployment reached success, failure or error
+  finishedAt?: string;
+}
+
+export interface PullRequestActivity {
+  repository: string;
+  number: number;
+  author: string;
+  createdAt: string;
+  mergedAt?: string;
+  closedAt?: string;
+  firstReviewAt?: string;
+  additions: number;
+  deletions: number;
+  changedFiles: number;
+}
+
+export interface ReviewComment {
+  id: number;
+  author: string;
+  path: string;
+  // Null once the line is no longer part of the diff
+  line: number | null;
+  body: string;
+}
+
+export interface NewReviewComment {
+  path: string;
+  line: number;
+  side: 'LEFT' | 'RIGHT';
+  body: string;
+}
+
+export interface GitHubUser {
+  login: string;
+  name?: string;
+  // Only the public profile email is visible to other users
+  email?: string;
+}
+
+export interface PullRequestReviewRecord {
+  number: number;
+  author: string;
+  mergedAt: string;
+  files: string[];
+  // Everyone other than the author who submitted a review
+  reviewers: string[];
+}
+
+// Deployments whose statuses are fetched in parallel
+const DEPLOYMENT_STATUS_BATCH = 10;
+// Pull requests whose details and reviews are fetched in parallel
+const PULL_REQUEST_DETAIL_BATCH = 10;
+// The pull request files API stops at 3000 files, 100 per page
+const MAX_PR_FILE_PAGES = 30;
+// Artifact archives can run to hundreds of megabytes
+const ARTIFACT_DOWNLOAD_TIMEOUT_MS = 5 * 60 * 1000;
+
 export class GitHubIntegration {
   private octokit: Octokit;
   private config: GitHubConfig;
+  private resilience: ResiliencePolicy;
+  // The token's account never changes, so it is looked up once
+  private authenticatedLogin?: Promise<string>;
 
-  constructor(config: GitHubConfig) {
+  constructor(config: GitHubConfig, resilience: ResiliencePolicy = createPassthroughPolicy()) {
     this.config = config;
+    this.resilience = resilience;
     this.octokit = new Octokit({
       auth: config.token,
       userAgent: 'IDWO-MCP-Server/1.0.0',
     });
+    // Requests made inside a resilience attempt are cancelled when it times out
+    this.octokit.hook.before('request', options => {
+      const signal = currentAbortSignal();
+      if (signal) {
+        options.request = { ...options.request, signal };
+      }
+    });
   }
 
   async getPRDetails(owner: string, repo: string, pullNumber: number): Promise<PRDetails> {
     try {
-      const [prResponse, filesResponse, commitsResponse, reviewsResponse] = await Promise.all([
-        this.octokit.pulls.get({ owner, repo, pull_number: pullNumber }),
-        this.octokit.pulls.listFiles({ owner, repo, pull_number: pullNumber }),
-        this.octokit.pulls.listCommits({ owner, repo, pull_number: pullNumber }),
-        this.octokit.pulls.listReviews({ owner, repo, pull_number: pullNumber }),
+      const [prResponse, files, commitsResponse, reviewsResponse] = await Promise.all([
+        this.call('getPRDetails', () => this.octokit.pulls.get({ owner, repo, pull_number: pullNumber })),
+        this.listPullRequestFiles(owner, repo, pullNumber),
+        this.call('listCommits', () => this.octokit.pulls.listCommits({ owner, repo, pull_number: pullNumber, per_page: 100 })),
+        this.call('listReviews', () => this.octokit.pulls.listReviews({ owner, repo, pull_number: pullNumber, per_page: 100 })),
       ]);
 
       const pr = prResponse.data;
-      const files = filesResponse.data;
       const commits = commitsResponse.data;
       const reviews = reviewsResponse.data;
 
@@ -101,6 +208,8 @@ export class GitHubIntegration {
         changedFiles: pr.changed_files || 0,
         additions: pr.additions || 0,
         deletions: pr.deletions || 0,
+        labels: pr.labels.map(label => label.name),
+        headSha: pr.head.sha,
         files: files.map(file => ({
           filename: file.filename,
           status: file.status,
@@ -118,6 +227,7 @@ export class GitHubIntegration {
           user: review.user?.login || 'unknown',
           state: review.state,
           submittedAt: review.submitted_at || '',
+          body: review.body || '',
         })),
       };
     } catch (error) {
@@ -133,8 +243,8 @@ export class GitHubIntegration {
   async getIssueDetails(owner: string, repo: string, issueNumber: number): Promise<IssueDetails> {
     try {
       const [issueResponse, commentsResponse] = await Promise.all([
-        this.octokit.issues.get({ owner, repo, issue_number: issueNumber }),
-        this.octokit.issues.listComments({ owner, repo, issue_number: issueNumber }),
+        this.call('getIssueDetails', () => this.octokit.issues.get({ owner, repo, issue_number: issueNumber })),
+        this.call('listIssueComments', () => this.octokit.issues.listComments({ owner, repo, issue_number: issueNumber })),
       ]);
 
       const issue = issueResponse.data;
@@ -173,11 +283,12 @@ export class GitHubIntegration {
     prerelease?: boolean;
   }): Promise<ReleaseInfo> {
     try {
-      const response = await this.octokit.repos.createRelease({
+      // Creating a release is not idempotent, so never retry it blindly
+      const response = await this.call('createRelease', () => this.octokit.repos.createRelease({
         owner,
         repo,
         ...release,
-      });
+      }), { retries: 0 });
 
       const releaseData = response.data;
 
@@ -211,11 +322,11 @@ export class GitHubIntegration {
       const sinceDate = since ? new Date(since) : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
 
       const [commitsResponse, pullsResponse, issuesResponse, contributorsResponse, languagesResponse] = await Promise.all([
-        this.octokit.repos.listCommits({ owner, repo, since: sinceDate.toISOString(), per_page: 100 }),
-        this.octokit.pulls.list({ owner, repo, state: 'all', per_page: 100 }),
-        this.octokit.issues.list({ owner, repo, state: 'all', per_page: 100, since: sinceDate.toISOString() }),
-        this.octokit.repos.listContributors({ owner, repo, per_page: 100 }),
-        this.octokit.repos.listLanguages({ owner, repo }),
+        this.call('listRepositoryCommits', () => this.octokit.repos.listCommits({ owner, repo, since: sinceDate.toISOString(), per_page: 100 })),
+        this.call('listPullRequests', () => this.octokit.pulls.list({ owner, repo, state: 'all', per_page: 100 })),
+        this.call('listIssues', () => this.octokit.issues.list({ owner, repo, state: 'all', per_page: 100, since: sinceDate.toISOString() })),
+        this.call('listContributors', () => this.octokit.repos.listContributors({ owner, repo, per_page: 100 })),
+        this.call('listLanguages', () => this.octokit.repos.listLanguages({ owner, repo })),
       ]);
 
       return {
@@ -236,16 +347,16 @@ export class GitHubIntegration {
 
   async updatePRStatus(owner: string, repo: string, pullNumber: number, state: 'pending' | 'success' | 'error' | 'failure', description?: string): Promise<void> {
     try {
-      const pr = await this.octokit.pulls.get({ owner, repo, pull_number: pullNumber });
+      const pr = await this.call('getPullRequest', () => this.octokit.pulls.get({ owner, repo, pull_number: pullNumber }));
       
-      await this.octokit.repos.createCommitStatus({
+      await this.call('createCommitStatus', () => this.octokit.repos.createCommitStatus({
         owner,
         repo,
         sha: pr.data.head.sha,
         state,
         description: description || `IDWO status update: ${state}`,
         context: 'IDWO/workflow',
-      });
+      }));
 
       logger.info('Updated PR status', { owner, repo, pullNumber, state, description });
     } catch (error) {
@@ -257,15 +368,207 @@ export class GitHubIntegration {
     }
   }
 
+  /**
+   * Requests reviews from users. GitHub ignores users who are already
+   * requested and rejects the pull request's author.
+   */
+  async requestReviewers(owner: string, repo: string, pullNumber: number, reviewers: string[]): Promise<void> {
+    try {
+      await this.call('requestReviewers', () => this.octokit.pulls.requestReviewers({
+        owner,
+        repo,
+        pull_number: pullNumber,
+        reviewers,
+      }));
+
+      logger.info('Requested PR reviewers', { owner, repo, pullNumber, reviewers });
+    } catch (error) {
+      logger.error('Failed to request PR reviewers', { owner, repo, pullNumber, reviewers, error });
+      throw new ServiceError(`Failed to request PR reviewers: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'github',
+        statusCode: error instanceof Error && 'status' in error ? (error as any).status : undefined,
+        retryable: true,
+      });
+    }
+  }
+
+  /**
+   * Adds labels to an issue or pull request, creating labels the repository
+   * does not have yet.
+   */
+  async addLabels(owner: string, repo: string, issueNumber: number, labels: string[]): Promise<void> {
+    try {
+      await this.call('addLabels', () => this.octokit.issues.addLabels({ owner, repo, issue_number: issueNumber, labels }));
+    } catch (error) {
+      logger.error('Failed to add labels', { owner, repo, issueNumber, labels, error });
+      throw new ServiceError(`Failed to add labels: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'github',
+        retryable: true,
+      });
+    }
+  }
+
+  async removeLabel(owner: string, repo: string, issueNumber: number, label: string): Promise<void> {
+    try {
+      await this.call('removeLabel', () => this.octokit.issues.removeLabel({ owner, repo, issue_number: issueNumber, name: label }));
+    } catch (error) {
+      // Already gone
+      if (error instanceof Error && 'status' in error && (error as any).status === 404) {
+        return;
+      }
+      logger.error('Failed to remove label', { owner, repo, issueNumber, label, error });
+      throw new ServiceError(`Failed to remove label: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'github',
+        retryable: true,
+      });
+    }
+  }
+
+  /**
+   * Login of the account IDWO acts as. Comments and reviews carrying IDWO's
+   * markers only count when this account wrote them, since anyone can post
+   * the same markers.
+   */
+  async getAuthenticatedLogin(): Promise<string> {
+    if (!this.authenticatedLogin) {
+      this.authenticatedLogin = this.call('getAuthenticated', () => this.octokit.users.getAuthenticated())
+        .then(response => response.data.login)
+        .catch(error => {
+          // Not cached, so the next call tries again
+          this.authenticatedLogin = undefined;
+          logger.error('Failed to get authenticated GitHub user', { error });
+          throw new ServiceError(`Failed to get authenticated GitHub user: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+            service: 'github',
+            retryable: true,
+          });
+        });
+    }
+    return this.authenticatedLogin;
+  }
+
+  /**
+   * Edits the issue or pull request comment containing `marker` in place, or
+   * creates it when there is none, so re-runs keep a single comment.
+   */
+  async upsertComment(owner: string, repo: string, issueNumber: number, marker: string, body: string): Promise<{ id: number; url: string; created: boolean }> {
+    try {
+      const login = await this.getAuthenticatedLogin();
+      let existing: { id: number } | undefined;
+      for (let page = 1; !existing; page++) {
+        const response = await this.call('listComments', () => this.octokit.issues.listComments({
+          owner,
+          repo,
+          issue_number: issueNumber,
+          per_page: 100,
+          page,
+        }));
+        // A marker in someone else's comment must not hijack the sticky comment
+        existing = response.data.find(comment => comment.user?.login === login && comment.body?.includes(marker));
+        if (response.data.length < 100) {
+          break;
+        }
+      }
+
+      const text = `${marker}\n${body}`;
+      if (existing) {
+        const commentId = existing.id;
+        const response = await this.call('updateComment', () => this.octokit.issues.updateComment({ owner, repo, comment_id: commentId, body: text }));
+        return { id: response.data.id, url: response.data.html_url, created: false };
+      }
+
+      // Creating a comment is not idempotent, so never retry it blindly
+      const response = await this.call('createComment', () => this.octokit.issues.createComment({
+        owner,
+        repo,
+        issue_number: issueNumber,
+        body: text,
+      }), { retries: 0 });
+      return { id: response.data.id, url: response.data.html_url, created: true };
+    } catch (error) {
+      logger.error('Failed to write comment', { owner, repo, issueNumber, error });
+      throw new ServiceError(`Failed to write comment: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'github',
+        retryable: false,
+      });
+    }
+  }
+
+  async listReviewComments(owner: string, repo: string, pullNumber: number): Promise<ReviewComment[]> {
+    try {
+      const comments: ReviewComment[] = [];
+      for (let page = 1; ; page++) {
+        const response = await this.call('listReviewComments', () => this.octokit.pulls.listReviewComments({
+          owner,
+          repo,
+          pull_number: pullNumber,
+          per_page: 100,
+          page,
+        }));
+        comments.push(...response.data.map(comment => ({
+          id: comment.id,
+          author: comment.user?.login || 'unknown',
+          path: comment.path,
+          line: comment.line ?? null,
+          body: comment.body,
+        })));
+        if (response.data.length < 100) {
+          break;
+        }
+      }
+      return comments;
+    } catch (error) {
+      logger.error('Failed to list review comments', { owner, repo, pullNumber, error });
+      throw new ServiceError(`Failed to list review comments: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'github',
+        retryable: true,
+      });
+    }
+  }
+
+  /**
+   * Submits a pull request review with its inline comments in one call.
+   * GitHub rejects the whole review when any comment's line is not in the
+   * diff of `commitId`.
+   */
+  async createReview(owner: string, repo: string, pullNumber: number, review: {
+    commitId: string;
+    body: string;
+    event: 'COMMENT' | 'REQUEST_CHANGES' | 'APPROVE';
+    comments: NewReviewComment[];
+  }): Promise<{ id: number; url: string }> {
+    try {
+      // Submitting a review is not idempotent, so never retry it blindly
+      const response = await this.call('createReview', () => this.octokit.pulls.createReview({
+        owner,
+        repo,
+        pull_number: pullNumber,
+        commit_id: review.commitId,
+        body: review.body,
+        event: review.event,
+        comments: review.comments,
+      }), { retries: 0 });
+
+      logger.info('Submitted PR review', { owner, repo, pullNumber, event: review.event, comments: review.comments.length });
+      return { id: response.data.id, url: response.data.html_url };
+    } catch (error) {
+      logger.error('Failed to submit PR review', { owner, repo, pullNumber, error });
+      throw new ServiceError(`Failed to submit PR review: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'github',
+        statusCode: error instanceof Error && 'status' in error ? (error as any).status : undefined,
+        retryable: false,
+      });
+    }
+  }
+
   async searchRepositories(query: string, organization?: string): Promise<Array<{ name: string; fullName: string; description: string; stars: number }>> {
     try {
       const searchQuery = organization ? `${query} org:${organization}` : query;
       
-      const response = await this.octokit.search.repos({
+      const response = await this.call('searchRepositories', () => this.octokit.search.repos({
         q: searchQuery,
         sort: 'updated',
         per_page: 50,
-      });
+      }));
 
       return response.data.items.map(repo => ({
         name: repo.name,
@@ -284,11 +587,11 @@ export class GitHubIntegration {
 
   async getTeamMembers(organization: string, teamSlug: string): Promise<string[]> {
     try {
-      const response = await this.octokit.teams.listMembersInOrg({
+      const response = await this.call('getTeamMembers', () => this.octokit.teams.listMembersInOrg({
         org: organization,
         team_slug: teamSlug,
         per_page: 100,
-      });
+      }));
 
       return response.data.map(member => member.login);
     } catch (error) {
@@ -299,4 +602,541 @@ export class GitHubIntegration {
       });
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Fetches a user's public profile, or null when the login does not exist.
+   */
+  async getUser(login: string): Promise<GitHubUser | null> {
+    try {
+      const response = await this.call('getUser', () => this.octokit.users.getByUsername({ username: login }));
+      return {
+        login: response.data.login,
+        name: response.data.name || undefined,
+        email: response.data.email || undefined,
+      };
+    } catch (error) {
+      if (error instanceof Error && 'status' in error && (error as any).status === 404) {
+        return null;
+      }
+      logger.error('Failed to fetch GitHub user', { login, error });
+      throw new ServiceError(`Failed to fetch GitHub user: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'github',
+        retryable: true,
+      });
+    }
+  }
+
+  /**
+   * Finds the login whose public email matches, or null when no single user does.
+   */
+  async findUserByEmail(email: string): Promise<string | null> {
+    try {
+      const response = await this.call('findUserByEmail', () => this.octokit.search.users({
+        q: `${email} in:email`,
+        per_page: 2,
+      }));
+
+      return response.data.items.length === 1 ? response.data.items[0]?.login ?? null : null;
+    } catch (error) {
+      logger.error('Failed to search GitHub users', { error });
+      throw new ServiceError(`Failed to search GitHub users: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'github',
+        retryable: true,
+      });
+    }
+  }
+
+  /**
+   * Resolves a branch, tag or SHA to a commit SHA, or null when the ref does not exist.
+   */
+  async resolveCommitSha(owner: string, repo: string, ref: string): Promise<string | null> {
+    try {
+      const response = await this.call('resolveCommitSha', () => this.octokit.repos.getCommit({ owner, repo, ref }));
+      return response.data.sha;
+    } catch (error) {
+      if (error instanceof Error && 'status' in error && ((error as any).status === 404 || (error as any).status === 422)) {
+        return null;
+      }
+      logger.error('Failed to resolve commit', { owner, repo, ref, error });
+      throw new ServiceError(`Failed to resolve commit: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'github',
+        retryable: true,
+      });
+    }
+  }
+
+  async getDefaultBranch(owner: string, repo: string): Promise<string> {
+    try {
+      const response = await this.call('getRepository', () => this.octokit.repos.get({ owner, repo }));
+      return response.data.default_branch;
+    } catch (error) {
+      logger.error('Failed to fetch repository', { owner, repo, error });
+      throw new ServiceError(`Failed to fetch repository: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'github',
+        retryable: true,
+      });
+    }
+  }
+
+  async getCheckRuns(owner: string, repo: string, ref: string): Promise<CheckRunInfo[]> {
+    try {
+      const checkRuns = [];
+      for (let page = 1; ; page++) {
+        const response = await this.call('getCheckRuns', () => this.octokit.checks.listForRef({
+          owner,
+          repo,
+          ref,
+          filter: 'latest',
+          per_page: 100,
+          page,
+        }));
+        checkRuns.push(...response.data.check_runs);
+        if (response.data.check_runs.length < 100) {
+          break;
+        }
+      }
+
+      return checkRuns.map(run => ({
+        name: run.name,
+        status: run.status,
+        conclusion: run.conclusion,
+        completedAt: run.completed_at || undefined,
+      }));
+    } catch (error) {
+      logger.error('Failed to fetch check runs', { owner, repo, ref, error });
+      throw new ServiceError(`Failed to fetch check runs: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'github',
+        retryable: true,
+      });
+    }
+  }
+
+  async getWorkflowRuns(owner: string, repo: string, headSha: string): Promise<WorkflowRunInfo[]> {
+    try {
+      const response = await this.call('getWorkflowRuns', () => this.octokit.actions.listWorkflowRunsForRepo({
+        owner,
+        repo,
+        head_sha: headSha,
+        per_page: 50,
+      }));
+
+      return response.data.workflow_runs.map(run => ({
+        id: run.id,
+        name: run.name || `run-${run.id}`,
+        status: run.status || 'unknown',
+        conclusion: run.conclusion,
+        headSha: run.head_sha,
+        createdAt: run.created_at,
+      }));
+    } catch (error) {
+      logger.error('Failed to fetch workflow runs', { owner, repo, headSha, error });
+      throw new ServiceError(`Failed to fetch workflow runs: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'github',
+        retryable: true,
+      });
+    }
+  }
+
+  async getWorkflowRunArtifacts(owner: string, repo: string, runId: number): Promise<ArtifactInfo[]> {
+    try {
+      const response = await this.call('getWorkflowRunArtifacts', () => this.octokit.actions.listWorkflowRunArtifacts({
+        owner,
+        repo,
+        run_id: runId,
+        per_page: 100,
+      }));
+
+      return response.data.artifacts.map(artifact => ({
+        id: artifact.id,
+        name: artifact.name,
+        sizeInBytes: artifact.size_in_bytes,
+        expired: artifact.expired,
+      }));
+    } catch (error) {
+      logger.error('Failed to fetch workflow run artifacts', { owner, repo, runId, error });
+      throw new ServiceError(`Failed to fetch workflow run artifacts: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'github',
+        retryable: true,
+      });
+    }
+  }
+
+  /**
+   * Downloads an Actions artifact as the zip archive GitHub serves it in.
+   */
+  async downloadArtifact(owner: string, repo: string, artifactId: number): Promise<Uint8Array> {
+    try {
+      const response = await this.call('downloadArtifact', () => this.octokit.actions.downloadArtifact({
+        owner,
+        repo,
+        artifact_id: artifactId,
+        archive_format: 'zip',
+      }), { timeoutMs: ARTIFACT_DOWNLOAD_TIMEOUT_MS, retries: 0 });
+
+      return new Uint8Array(response.data as ArrayBuffer);
+    } catch (error) {
+      logger.error('Failed to download artifact', { owner, repo, artifactId, error });
+      throw new ServiceError(`Failed to download artifact: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'github',
+        retryable: true,
+      });
+    }
+  }
+
+  /**
+   * Lists deployments, newest first, with the state taken from their status
+   * history. A deployment that succeeded and was later marked `inactive` by a
+   * newer deployment still counts as a success.
+   */
+  async getDeployments(owner: string, repo: string, options: {
+    environment?: string;
+    since?: string;
+    limit?: number;
+  } = {}): Promise<DeploymentInfo[]> {
+    const limit = options.limit ?? 50;
+    const since = options.since ? new Date(options.since).getTime() : undefined;
+
+    try {
+      const deployments = [];
+      for (let page = 1; deployments.length < limit; page++) {
+        const response = await this.call('getDeployments', () => this.octokit.repos.listDeployments({
+          owner,
+          repo,
+          environment: options.environment,
+          per_page: Math.min(100, limit),
+          page,
+        }));
+
+        const recent = response.data.filter(deployment => since === undefined || new Date(deployment.created_at).getTime() >= since);
+        deployments.push(...recent);
+
+        // Deployments are listed newest first, so an older one ends the window
+        if (response.data.length < Math.min(100, limit) || recent.length < response.data.length) {
+          break;
+        }
+      }
+
+      const results: DeploymentInfo[] = [];
+      const selected = deployments.slice(0, limit);
+      for (let i = 0; i < selected.length; i += DEPLOYMENT_STATUS_BATCH) {
+        const batch = selected.slice(i, i + DEPLOYMENT_STATUS_BATCH);
+        results.push(...await Promise.all(batch.map(async deployment => {
+          const statuses = await this.call('getDeploymentStatuses', () => this.octokit.repos.listDeploymentStatuses({
+            owner,
+            repo,
+            deployment_id: deployment.id,
+            per_page: 100,
+          }));
+          const { state, finishedAt } = resolveDeploymentState(statuses.data);
+
+          return {
+            id: deployment.id,
+            environment: deployment.environment,
+            ref: deployment.ref,
+            sha: deployment.sha,
+            creator: deployment.creator?.login || 'unknown',
+            createdAt: deployment.created_at,
+            state,
+            finishedAt,
+          };
+        })));
+      }
+
+      return results;
+    } catch (error) {
+      logger.error('Failed to fetch deployments', { owner, repo, environment: options.environment, error });
+      throw new ServiceError(`Failed to fetch deployments: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'github',
+        retryable: true,
+      });
+    }
+  }
+
+  /**
+   * Commits reachable from `head` but not from `base`, with their author
+   * dates. GitHub returns at most 250 commits per comparison.
+   */
+  async getCommitsBetween(owner: string, repo: string, base: string, head: string): Promise<Array<{ sha: string; authoredAt: string }>> {
+    try {
+      const response = await this.call('compareCommits', () => this.octokit.repos.compareCommitsWithBasehead({
+        owner,
+        repo,
+        basehead: `${base}...${head}`,
+        per_page: 250,
+      }));
+
+      return response.data.commits.map(commit => ({
+        sha: commit.sha,
+        authoredAt: commit.commit.author?.date || commit.commit.committer?.date || '',
+      })).filter(commit => commit.authoredAt);
+    } catch (error) {
+      logger.error('Failed to compare commits', { owner, repo, base, head, error });
+      throw new ServiceError(`Failed to compare commits: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'github',
+        retryable: true,
+      });
+    }
+  }
+
+  /**
+   * Pull requests opened since `since`, optionally limited to a set of
+   * authors, with their size and the time of the first review by someone
+   * other than the author.
+   */
+  async getPullRequestActivity(owner: string, repo: string, options: {
+    since: string;
+    authors?: string[];
+    limit?: number;
+  }): Promise<PullRequestActivity[]> {
+    const limit = options.limit ?? 100;
+    const since = new Date(options.since).getTime();
+    const authors = options.authors ? new Set(options.authors.map(author => author.toLowerCase())) : undefined;
+
+    try {
+      const pulls = [];
+      for (let page = 1; pulls.length < limit; page++) {
+        const response = await this.call('listPullRequests', () => this.octokit.pulls.list({
+          owner,
+          repo,
+          state: 'all',
+          sort: 'created',
+          direction: 'desc',
+          per_page: 100,
+          page,
+        }));
+
+        const recent = response.data.filter(pull => new Date(pull.created_at).getTime() >= since);
+        pulls.push(...recent.filter(pull => !authors || authors.has((pull.user?.login || '').toLowerCase())));
+
+        // Sorted newest first, so an older pull request ends the window
+        if (response.data.length < 100 || recent.length < response.data.length) {
+          break;
+        }
+      }
+
+      const results: PullRequestActivity[] = [];
+      const selected = pulls.slice(0, limit);
+      for (let i = 0; i < selected.length; i += PULL_REQUEST_DETAIL_BATCH) {
+        const batch = selected.slice(i, i + PULL_REQUEST_DETAIL_BATCH);
+        results.push(...await Promise.all(batch.map(async pull => {
+          const [details, reviews] = await Promise.all([
+            this.call('getPullRequest', () => this.octokit.pulls.get({ owner, repo, pull_number: pull.number })),
+            this.call('listReviews', () => this.octokit.pulls.listReviews({ owner, repo, pull_number: pull.number, per_page: 100 })),
+          ]);
+          const author = pull.user?.login || 'unknown';
+          const firstReviewAt = reviews.data
+            .filter(review => review.user?.login !== author && review.submitted_at)
+            .map(review => review.submitted_at as string)
+            .sort()[0];
+
+          return {
+            repository: `${owner}/${repo}`,
+            number: pull.number,
+            author,
+            createdAt: pull.created_at,
+            mergedAt: pull.merged_at || undefined,
+            closedAt: pull.closed_at || undefined,
+            firstReviewAt,
+            additions: details.data.additions,
+            deletions: details.data.deletions,
+            changedFiles: details.data.changed_files,
+          };
+        })));
+      }
+
+      return results;
+    } catch (error) {
+      logger.error('Failed to fetch pull request activity', { owner, repo, since: options.since, error });
+      throw new ServiceError(`Failed to fetch pull request activity: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'github',
+        retryable: true,
+      });
+    }
+  }
+
+  /**
+   * Reads the CODEOWNERS file from the default branch, or null when the
+   * repository has none.
+   */
+  async getCodeOwners(owner: string, repo: string): Promise<string | null> {
+    try {
+      for (const path of CODEOWNERS_PATHS) {
+        const content = await this.getFileContent(owner, repo, path);
+        if (content !== null) {
+          return content;
+        }
+      }
+      return null;
+    } catch (error) {
+      logger.error('Failed to fetch CODEOWNERS', { owner, repo, error });
+      throw new ServiceError(`Failed to fetch CODEOWNERS: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'github',
+        retryable: true,
+      });
+    }
+  }
+
+  /**
+   * Commits since `since` that touched a file or directory, newest first,
+   * limited to commits whose author has a GitHub account.
+   */
+  async getCommitsForPath(owner: string, repo: string, path: string, since: string): Promise<Array<{ sha: string; author: string }>> {
+    try {
+      const response = await this.call('listCommitsForPath', () => this.octokit.repos.listCommits({
+        owner,
+        repo,
+        path,
+        since,
+        per_page: 100,
+      }));
+
+      return response.data
+        .filter(commit => commit.author?.login)
+        .map(commit => ({ sha: commit.sha, author: commit.author?.login || '' }));
+    } catch (error) {
+      logger.error('Failed to fetch commits for path', { owner, repo, path, error });
+      throw new ServiceError(`Failed to fetch commits for path: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'github',
+        retryable: true,
+      });
+    }
+  }
+
+  /**
+   * Pull requests merged since `since` among the `limit` most recently
+   * updated closed ones, with their changed files and reviewers.
+   */
+  async getReviewHistory(owner: string, repo: string, options: { since: string; limit?: number }): Promise<PullRequestReviewRecord[]> {
+    const since = new Date(options.since).getTime();
+
+    try {
+      const response = await this.call('listClosedPullRequests', () => this.octokit.pulls.list({
+        owner,
+        repo,
+        state: 'closed',
+        sort: 'updated',
+        direction: 'desc',
+        per_page: Math.min(options.limit ?? 30, 100),
+      }));
+      const merged = response.data.filter(pull => pull.merged_at && new Date(pull.merged_at).getTime() >= since);
+
+      const results: PullRequestReviewRecord[] = [];
+      for (let i = 0; i < merged.length; i += PULL_REQUEST_DETAIL_BATCH) {
+        const batch = merged.slice(i, i + PULL_REQUEST_DETAIL_BATCH);
+        results.push(...await Promise.all(batch.map(async pull => {
+          const [files, reviews] = await Promise.all([
+            this.call('listFiles', () => this.octokit.pulls.listFiles({ owner, repo, pull_number: pull.number, per_page: 100 })),
+            this.call('listReviews', () => this.octokit.pulls.listReviews({ owner, repo, pull_number: pull.number, per_page: 100 })),
+          ]);
+          const author = pull.user?.login || 'unknown';
+          const reviewers = reviews.data
+            .map(review => review.user?.login)
+            .filter((login): login is string => !!login && login !== author);
+
+          return {
+            number: pull.number,
+            author,
+            mergedAt: pull.merged_at || '',
+            files: files.data.map(file => file.filename),
+            reviewers: [...new Set(reviewers)],
+          };
+        })));
+      }
+      return results;
+    } catch (error) {
+      logger.error('Failed to fetch review history', { owner, repo, error });
+      throw new ServiceError(`Failed to fetch review history: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'github',
+        retryable: true,
+      });
+    }
+  }
+
+  /**
+   * Counts the open pull requests in a repository that are waiting on each
+   * requested reviewer.
+   */
+  async getOpenReviewRequests(owner: string, repo: string): Promise<Record<string, number>> {
+    try {
+      const response = await this.call('listOpenPullRequests', () => this.octokit.pulls.list({
+        owner,
+        repo,
+        state: 'open',
+        per_page: 100,
+      }));
+
+      const counts: Record<string, number> = {};
+      for (const pull of response.data) {
+        for (const reviewer of pull.requested_reviewers || []) {
+          counts[reviewer.login] = (counts[reviewer.login] || 0) + 1;
+        }
+      }
+      return counts;
+    } catch (error) {
+      logger.error('Failed to fetch open review requests', { owner, repo, error });
+      throw new ServiceError(`Failed to fetch open review requests: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'github',
+        retryable: true,
+      });
+    }
+  }
+
+  // Every changed file; GitHub returns 30 per page by default and at most 3000 in total
+  private async listPullRequestFiles(owner: string, repo: string, pullNumber: number) {
+    const files = [];
+    for (let page = 1; page <= MAX_PR_FILE_PAGES; page++) {
+      const response = await this.call('listFiles', () => this.octokit.pulls.listFiles({
+        owner,
+        repo,
+        pull_number: pullNumber,
+        per_page: 100,
+        page,
+      }));
+      files.push(...response.data);
+      if (response.data.length < 100) {
+        break;
+      }
+    }
+    return files;
+  }
+
+  // Text content of a file on the default branch, or null when it does not exist
+  private async getFileContent(owner: string, repo: string, path: string): Promise<string | null> {
+    try {
+      const response = await this.call('getContent', () => this.octokit.repos.getContent({ owner, repo, path }));
+      const data = response.data;
+      return !Array.isArray(data) && data.type === 'file' && 'content' in data
+        ? Buffer.from(data.content, 'base64').toString('utf8')
+        : null;
+    } catch (error) {
+      if (error instanceof Error && 'status' in error && (error as any).status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private call<T>(operation: string, fn: () => Promise<T>, options?: ExecuteOptions): Promise<T> {
+    return this.resilience.execute('github', operation, fn, options);
+  }
+}
+
+/**
+ * Reduces a deployment's statuses (listed newest first) to a single state.
+ * Terminal states win over later `inactive` markers.
+ */
+function resolveDeploymentState(statuses: Array<{ state: string; created_at: string }>): {
+  state: DeploymentState;
+  finishedAt?: string;
+} {
+  const terminal = statuses.find(status => ['success', 'failure', 'error'].includes(status.state));
+  if (terminal) {
+    return { state: terminal.state as DeploymentState, finishedAt: terminal.created_at };
+  }
+
+  const latest = statuses[0];
+  if (!latest) {
+    return { state: 'unknown' };
+  }
+  return { state: ['inactive', 'in_progress', 'queued', 'pending'].includes(latest.state) ? latest.state as DeploymentState : 'unknown' };
+}
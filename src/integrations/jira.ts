@@ -1,11 +1,24 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
 import logger from '../utils/logger.js';
-import { ServiceError } from '../types/index.js';
+import { JiraFieldKey, ServiceError } from '../types/index.js';
+import { ExecuteOptions, ResiliencePolicy, createPassthroughPolicy, currentAbortSignal, isRetryableError } from '../utils/resilience.js';
+import { AdfDocument, adfToMarkdown, markdownToAdf } from '../utils/adf.js';
+import { markdownToWikiMarkup } from '../utils/wiki-markup.js';
+import { ConcurrencyLimiter } from '../utils/concurrency.js';
+import { and, buildJql, changedTo, compare, eq, isEmpty, raw } from '../utils/jql.js';
 
 export interface JiraConfig {
   url: string;
+  // 'server' (Server and Data Center) uses REST API v2, wiki markup and usernames; defaults to 'cloud'
+  deployment?: 'cloud' | 'server';
   username: string;
   apiToken: string;
+  // Server/Data Center Personal Access Token; replaces basic auth when set
+  personalAccessToken?: string;
+  // Most requests in flight at once across the client (default 5)
+  maxConcurrency?: number;
+  // Field ids that take precedence over the ones discovered from /field
+  fields?: Partial<Record<JiraFieldKey, string>>;
 }
 
 export interface JiraIssue {
@@ -17,6 +30,8 @@ export interface JiraIssue {
   status: string;
   priority: string;
   assignee?: string;
+  // accountId on Cloud, username on Server/Data Center
+  assigneeId?: string;
   reporter: string;
   created: string;
   updated: string;
@@ -25,6 +40,9 @@ export interface JiraIssue {
   fixVersions: string[];
   sprint?: string;
   storyPoints?: number;
+  epicLink?: string;
+  team?: string;
+  startDate?: string;
   customFields: Record<string, any>;
   comments: Array<{
     author: string;
@@ -59,31 +77,151 @@ export interface JiraSprint {
   goal?: string;
 }
 
+export interface JiraIssueActivity {
+  key: string;
+  issueType: string;
+  priority: string;
+  assignee?: string;
+  storyPoints?: number;
+  created: string;
+  // First status change, i.e. when work started
+  startedAt?: string;
+  resolvedAt: string;
+}
+
+export interface JiraBoard {
+  id: number;
+  name: string;
+  type: 'scrum' | 'kanban' | 'simple';
+  projectKey?: string;
+}
+
+export interface JiraAgileIssue {
+  key: string;
+  summary: string;
+  issueType: string;
+  status: string;
+  done: boolean;
+  storyPoints?: number;
+}
+
+export interface SprintReport {
+  sprint: JiraSprint;
+  completedIssues: JiraAgileIssue[];
+  incompleteIssues: JiraAgileIssue[];
+  committedPoints: number;
+  completedPoints: number;
+}
+
+export interface SprintVelocity {
+  sprint: JiraSprint;
+  committedPoints: number;
+  completedPoints: number;
+}
+
+export interface JiraUser {
+  // accountId on Cloud, username on Server/Data Center
+  id: string;
+  displayName: string;
+  // Hidden on Cloud unless the user's profile visibility allows it
+  email?: string;
+  active: boolean;
+}
+
+export interface JiraField {
+  id: string;
+  name: string;
+  custom: boolean;
+  type?: string;
+  // Plugin type of custom fields, e.g. com.pyxis.greenhopper.jira:gh-sprint
+  customType?: string;
+}
+
+export interface JiraFieldMapping {
+  key: JiraFieldKey;
+  id?: string;
+  name?: string;
+  source: 'config' | 'discovered' | 'missing';
+}
+
+export interface JiraSearchOptions {
+  // Field ids to return; fields left out come back empty on the mapped issue
+  fields?: string[];
+  // Extra entities to include, e.g. 'changelog' or 'renderedFields'
+  expand?: string[];
+  // Stop after this many issues; every match is read when omitted
+  limit?: number;
+}
+
+type JiraFieldIds = Partial<Record<JiraFieldKey, string>>;
+
+const ISSUE_FIELDS = [
+  'summary', 'description', 'issuetype', 'status', 'priority', 'assignee', 'reporter', 'created', 'updated',
+  'labels', 'components', 'fixVersions', 'comment', 'worklog',
+];
+// How each logical field is recognised: by custom field type first, then by name in order of preference
+const FIELD_MATCHERS: Record<JiraFieldKey, { customTypes: string[]; names: string[] }> = {
+  sprint: { customTypes: ['com.pyxis.greenhopper.jira:gh-sprint'], names: ['sprint'] },
+  storyPoints: { customTypes: [], names: ['story points', 'story point estimate'] },
+  epicLink: { customTypes: ['com.pyxis.greenhopper.jira:gh-epic-link'], names: ['epic link'] },
+  team: {
+    customTypes: ['com.atlassian.jira.plugin.system.customfieldtypes:atlassian-team', 'com.atlassian.teams:rm-teams-custom-field-team'],
+    names: ['team'],
+  },
+  startDate: { customTypes: [], names: ['start date'] },
+};
+const FIELD_KEYS = Object.keys(FIELD_MATCHERS) as JiraFieldKey[];
+const FIELD_CACHE_TTL_MS = 60 * 60 * 1000;
+// Retry discovery sooner when /field could not be read
+const FIELD_FAILURE_TTL_MS = 5 * 60 * 1000;
+// Jira Cloud caps search pages at 100 issues when fields are requested
+const SEARCH_PAGE_SIZE = 100;
+// Jira rejects sprint moves and rank changes for more than 50 issues at once
+const AGILE_ISSUE_BATCH = 50;
+
 export class JiraIntegration {
   private client: AxiosInstance;
+  // Boards, sprints, backlog and ranking live under the Agile REST API
+  private agile: AxiosInstance;
   private config: JiraConfig;
+  private resilience: ResiliencePolicy;
+  private limiter: ConcurrencyLimiter;
+  private fieldCache?: { expiresAt: number; fields: Promise<{ all: JiraField[]; discovered: JiraFieldIds }> };
 
-  constructor(config: JiraConfig) {
+  constructor(config: JiraConfig, resilience: ResiliencePolicy = createPassthroughPolicy()) {
     this.config = config;
-    this.client = axios.create({
-      baseURL: `${config.url}/rest/api/3`,
-      auth: {
-        username: config.username,
-        password: config.apiToken,
-      },
+    this.resilience = resilience;
+    this.limiter = new ConcurrencyLimiter(config.maxConcurrency ?? 5);
+    const options = {
+      ...(config.personalAccessToken ? {} : {
+        auth: {
+          username: config.username,
+          password: config.apiToken,
+        },
+      }),
       headers: {
         'Accept': 'application/json',
         'Content-Type': 'application/json',
         'User-Agent': 'IDWO-MCP-Server/1.0.0',
+        ...(config.personalAccessToken ? { 'Authorization': `Bearer ${config.personalAccessToken}` } : {}),
       },
       timeout: 10000,
-    });
+    };
+    this.client = axios.create({ ...options, baseURL: `${config.url}/rest/api/${this.isServer ? 2 : 3}` });
+    this.agile = axios.create({ ...options, baseURL: `${config.url}/rest/agile/1.0` });
 
-    this.setupInterceptors();
+    this.setupInterceptors(this.client);
+    this.setupInterceptors(this.agile);
   }
 
-  private setupInterceptors(): void {
-    this.client.interceptors.response.use(
+  private setupInterceptors(client: AxiosInstance): void {
+    // Requests made inside a resilience attempt are cancelled when it times out
+    client.interceptors.request.use(requestConfig => {
+      requestConfig.signal ??= currentAbortSignal();
+      return requestConfig;
+    });
+
+    client.interceptors.response.use(
       (response) => response,
       (error: AxiosError) => {
         logger.error('JIRA API error', {
@@ -96,7 +234,7 @@ export class JiraIntegration {
         throw new ServiceError(`JIRA API error: ${error.message}`, {
           service: 'jira',
           statusCode: error.response?.status,
-          retryable: error.response?.status ? error.response.status >= 500 : true,
+          retryable: error.response?.status ? error.response.status >= 500 || error.response.status === 429 : isRetryableError(error),
         });
       }
     );
@@ -104,46 +242,15 @@ export class JiraIntegration {
 
   async getIssue(issueKey: string): Promise<JiraIssue> {
     try {
-      const response = await this.client.get(`/issue/${issueKey}`, {
+      const ids = await this.getFieldIds();
+      const response = await this.call('getIssue', () => this.client.get(`/issue/${issueKey}`, {
         params: {
           expand: 'changelog,worklog,comments',
-          fields: 'summary,description,issuetype,status,priority,assignee,reporter,created,updated,labels,components,fixVersions,customfield_10020,customfield_10021,comment,worklog',
+          fields: issueFields(ids).join(','),
         },
-      });
-
-      const issue = response.data;
-      const fields = issue.fields;
+      }));
 
-      return {
-        key: issue.key,
-        id: issue.id,
-        summary: fields.summary || '',
-        description: fields.description?.content?.[0]?.content?.[0]?.text || '',
-        issueType: fields.issuetype?.name || 'Unknown',
-        status: fields.status?.name || 'Unknown',
-        priority: fields.priority?.name || 'Medium',
-        assignee: fields.assignee?.displayName,
-        reporter: fields.reporter?.displayName || 'Unknown',
-        created: fields.created,
-        updated: fields.updated,
-        labels: fields.labels || [],
-        components: fields.components?.map((c: any) => c.name) || [],
-        fixVersions: fields.fixVersions?.map((v: any) => v.name) || [],
-        sprint: fields.customfield_10020?.[0]?.name,
-        storyPoints: fields.customfield_10021,
-        customFields: this.extractCustomFields(fields),
-        comments: fields.comment?.comments?.map((comment: any) => ({
-          author: comment.author?.displayName || 'Unknown',
-          body: comment.body?.content?.[0]?.content?.[0]?.text || '',
-          created: comment.created,
-        })) || [],
-        worklog: fields.worklog?.worklogs?.map((log: any) => ({
-          author: log.author?.displayName || 'Unknown',
-          timeSpent: log.timeSpent,
-          description: log.comment?.content?.[0]?.content?.[0]?.text || '',
-          started: log.started,
-        })) || [],
-      };
+      return this.mapIssue(response.data, ids);
     } catch (error) {
       logger.error('Failed to fetch JIRA issue', { issueKey, error });
       throw error instanceof ServiceError ? error : new ServiceError(`Failed to fetch JIRA issue: ${error instanceof Error ? error.message : 'Unknown error'}`, {
@@ -167,23 +274,16 @@ export class JiraIntegration {
         fields: {
           project: { key: projectKey },
           summary: issueData.summary,
-          description: {
-            type: 'doc',
-            version: 1,
-            content: [{
-              type: 'paragraph',
-              content: [{ type: 'text', text: issueData.description }],
-            }],
-          },
+          description: this.toRichText(issueData.description),
           issuetype: { name: issueData.issueType },
           priority: issueData.priority ? { name: issueData.priority } : undefined,
-          assignee: issueData.assignee ? { name: issueData.assignee } : undefined,
+          assignee: issueData.assignee ? this.userReference(issueData.assignee) : undefined,
           labels: issueData.labels || [],
           components: issueData.components?.map(name => ({ name })) || [],
         },
       };
 
-      const response = await this.client.post('/issue', payload);
+      const response = await this.call('createIssue', () => this.client.post('/issue', payload), { retries: 0 });
       const createdKey = response.data.key;
 
       return await this.getIssue(createdKey);
@@ -198,7 +298,7 @@ export class JiraIntegration {
 
   async updateIssueStatus(issueKey: string, transitionName: string): Promise<void> {
     try {
-      const transitionsResponse = await this.client.get(`/issue/${issueKey}/transitions`);
+      const transitionsResponse = await this.call('getTransitions', () => this.client.get(`/issue/${issueKey}/transitions`));
       const transition = transitionsResponse.data.transitions.find((t: any) => 
         t.name.toLowerCase() === transitionName.toLowerCase()
       );
@@ -207,9 +307,9 @@ export class JiraIntegration {
         throw new Error(`Transition '${transitionName}' not found for issue ${issueKey}`);
       }
 
-      await this.client.post(`/issue/${issueKey}/transitions`, {
+      await this.call('transitionIssue', () => this.client.post(`/issue/${issueKey}/transitions`, {
         transition: { id: transition.id },
-      });
+      }), { retries: 0 });
 
       logger.info('Updated JIRA issue status', { issueKey, transitionName });
     } catch (error) {
@@ -221,18 +321,12 @@ export class JiraIntegration {
     }
   }
 
-  async searchIssues(jql: string, maxResults = 50): Promise<JiraIssue[]> {
+  async searchIssues(jql: string, maxResults = 50, options: Omit<JiraSearchOptions, 'limit'> = {}): Promise<JiraIssue[]> {
     try {
-      const response = await this.client.post('/search', {
-        jql,
-        maxResults,
-        fields: ['key', 'summary', 'status', 'assignee', 'priority', 'created', 'updated'],
-      });
-
-      const issues = await Promise.all(
-        response.data.issues.map((issue: any) => this.getIssue(issue.key))
-      );
-
+      const issues: JiraIssue[] = [];
+      for await (const issue of this.iterateIssues(jql, { ...options, limit: maxResults })) {
+        issues.push(issue);
+      }
       return issues;
     } catch (error) {
       logger.error('Failed to search JIRA issues', { jql, error });
@@ -243,12 +337,66 @@ export class JiraIntegration {
     }
   }
 
+  /**
+   * Streams every issue matching `jql`, one search page at a time, so large
+   * result sets never have to be held in memory.
+   */
+  async *iterateIssues(jql: string, options: JiraSearchOptions = {}): AsyncGenerator<JiraIssue> {
+    const ids = await this.getFieldIds();
+    for await (const issue of this.paginateSearch('searchIssues', jql, { ...options, fields: options.fields ?? issueFields(ids) })) {
+      yield this.mapIssue(issue, ids);
+    }
+  }
+
+  /**
+   * Every field on the site, and the id each logical field (sprint, story
+   * points, ...) resolves to, from JIRA_FIELDS or discovery.
+   */
+  async getFieldMappings(options: { refresh?: boolean } = {}): Promise<{ mappings: JiraFieldMapping[]; fields: JiraField[] }> {
+    const { all, discovered } = await this.loadFields(options.refresh);
+    const overrides = this.config.fields || {};
+
+    return {
+      mappings: FIELD_KEYS.map(key => {
+        const id = overrides[key] || discovered[key];
+        return {
+          key,
+          id,
+          name: all.find(field => field.id === id)?.name,
+          source: overrides[key] ? 'config' : id ? 'discovered' : 'missing',
+        };
+      }),
+      fields: all,
+    };
+  }
+
+  /**
+   * Number of issues matching `jql`, without fetching them. Server/Data
+   * Center has no count endpoint, so an empty search page reports the total.
+   */
+  async countIssues(jql: string): Promise<number> {
+    try {
+      if (this.isServer) {
+        const response = await this.call('countIssues', () => this.client.post('/search', { jql, maxResults: 0, fields: ['key'] }));
+        return response.data.total ?? 0;
+      }
+      const response = await this.call('countIssues', () => this.client.post('/search/approximate-count', { jql }));
+      return response.data.count ?? 0;
+    } catch (error) {
+      logger.error('Failed to count JIRA issues', { jql, error });
+      throw error instanceof ServiceError ? error : new ServiceError(`Failed to count JIRA issues: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'jira',
+        retryable: true,
+      });
+    }
+  }
+
   async getProject(projectKey: string): Promise<JiraProject> {
     try {
       const [projectResponse, componentsResponse, versionsResponse] = await Promise.all([
-        this.client.get(`/project/${projectKey}`),
-        this.client.get(`/project/${projectKey}/components`),
-        this.client.get(`/project/${projectKey}/versions`),
+        this.call('getProject', () => this.client.get(`/project/${projectKey}`)),
+        this.call('getProjectComponents', () => this.client.get(`/project/${projectKey}/components`)),
+        this.call('getProjectVersions', () => this.client.get(`/project/${projectKey}/versions`)),
       ]);
 
       const project = projectResponse.data;
@@ -279,42 +427,281 @@ export class JiraIntegration {
     }
   }
 
+  /**
+   * Searches users by name or email address.
+   */
+  async findUsers(query: string, maxResults = 10): Promise<JiraUser[]> {
+    try {
+      const response = await this.call('findUsers', () => this.client.get('/user/search', {
+        params: this.isServer ? { username: query, maxResults } : { query, maxResults },
+      }));
+
+      return response.data.map(mapUser);
+    } catch (error) {
+      logger.error('Failed to search JIRA users', { error });
+      throw error instanceof ServiceError ? error : new ServiceError(`Failed to search JIRA users: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'jira',
+        retryable: true,
+      });
+    }
+  }
+
+  /**
+   * Fetches a user by accountId (Cloud) or username (Server/Data Center), or
+   * null when there is no such user.
+   */
+  async getUser(id: string): Promise<JiraUser | null> {
+    try {
+      const response = await this.call('getUser', () => this.client.get('/user', {
+        params: this.isServer ? { username: id } : { accountId: id },
+      }));
+
+      return mapUser(response.data);
+    } catch (error) {
+      if (error instanceof ServiceError && error.statusCode === 404) {
+        return null;
+      }
+      logger.error('Failed to fetch JIRA user', { id, error });
+      throw error instanceof ServiceError ? error : new ServiceError(`Failed to fetch JIRA user: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'jira',
+        retryable: true,
+      });
+    }
+  }
+
   async getActiveSprintsForBoard(boardId: number): Promise<JiraSprint[]> {
+    return this.getSprints(boardId, ['active']);
+  }
+
+  /**
+   * Boards that show issues from a project, scrum boards first.
+   */
+  async getBoardsForProject(projectKey: string): Promise<JiraBoard[]> {
     try {
-      const response = await this.client.get(`/board/${boardId}/sprint`, {
-        params: { state: 'active' },
+      const boards = await this.paginateAgile('getBoards', '/board', { projectKeyOrId: projectKey });
+
+      return boards
+        .map((board: any) => ({
+          id: board.id,
+          name: board.name,
+          type: board.type,
+          projectKey: board.location?.projectKey,
+        }))
+        .sort((a: JiraBoard, b: JiraBoard) => Number(b.type === 'scrum') - Number(a.type === 'scrum'));
+    } catch (error) {
+      logger.error('Failed to fetch JIRA boards', { projectKey, error });
+      throw error instanceof ServiceError ? error : new ServiceError(`Failed to fetch JIRA boards: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'jira',
+        retryable: true,
       });
+    }
+  }
 
-      return response.data.values.map((sprint: any) => ({
-        id: sprint.id,
-        name: sprint.name,
-        state: sprint.state,
-        startDate: sprint.startDate,
-        endDate: sprint.endDate,
-        completeDate: sprint.completeDate,
-        goal: sprint.goal,
+  /**
+   * Sprints of a board in the given states, in the order Jira lists them
+   * (closed, then active, then future sprints in planned order).
+   */
+  async getSprints(boardId: number, states: JiraSprint['state'][] = ['active', 'future']): Promise<JiraSprint[]> {
+    try {
+      const sprints = await this.paginateAgile('getSprints', `/board/${boardId}/sprint`, { state: states.join(',') });
+      return sprints.map((sprint: any) => this.mapSprint(sprint));
+    } catch (error) {
+      logger.error('Failed to fetch sprints', { boardId, states, error });
+      throw error instanceof ServiceError ? error : new ServiceError(`Failed to fetch sprints: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'jira',
+        retryable: true,
+      });
+    }
+  }
+
+  /**
+   * Backlog issues of a board in rank order.
+   */
+  async getBacklogIssues(boardId: number, maxResults = 100): Promise<JiraAgileIssue[]> {
+    try {
+      const ids = await this.getFieldIds();
+      const response = await this.call('getBacklogIssues', () => this.agile.get(`/board/${boardId}/backlog`, {
+        params: { fields: agileIssueFields(ids), maxResults },
       }));
+
+      return response.data.issues.map((issue: any) => this.mapAgileIssue(issue, ids));
     } catch (error) {
-      logger.error('Failed to fetch active sprints', { boardId, error });
-      throw error instanceof ServiceError ? error : new ServiceError(`Failed to fetch active sprints: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+      logger.error('Failed to fetch backlog issues', { boardId, error });
+      throw error instanceof ServiceError ? error : new ServiceError(`Failed to fetch backlog issues: ${error instanceof Error ? error.message : 'Unknown error'}`, {
         service: 'jira',
         retryable: true,
       });
     }
   }
 
-  async addCommentToIssue(issueKey: string, comment: string): Promise<void> {
+  async moveIssuesToSprint(sprintId: number, issueKeys: string[]): Promise<void> {
     try {
-      await this.client.post(`/issue/${issueKey}/comment`, {
-        body: {
-          type: 'doc',
-          version: 1,
-          content: [{
-            type: 'paragraph',
-            content: [{ type: 'text', text: comment }],
-          }],
-        },
+      for (let i = 0; i < issueKeys.length; i += AGILE_ISSUE_BATCH) {
+        const issues = issueKeys.slice(i, i + AGILE_ISSUE_BATCH);
+        await this.call('moveIssuesToSprint', () => this.agile.post(`/sprint/${sprintId}/issue`, { issues }), { retries: 0 });
+      }
+
+      logger.info('Moved issues to sprint', { sprintId, issueKeys });
+    } catch (error) {
+      logger.error('Failed to move issues to sprint', { sprintId, issueKeys, error });
+      throw error instanceof ServiceError ? error : new ServiceError(`Failed to move issues to sprint: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'jira',
+        retryable: false,
+      });
+    }
+  }
+
+  async moveIssuesToBacklog(issueKeys: string[]): Promise<void> {
+    try {
+      for (let i = 0; i < issueKeys.length; i += AGILE_ISSUE_BATCH) {
+        const issues = issueKeys.slice(i, i + AGILE_ISSUE_BATCH);
+        await this.call('moveIssuesToBacklog', () => this.agile.post('/backlog/issue', { issues }), { retries: 0 });
+      }
+
+      logger.info('Moved issues to backlog', { issueKeys });
+    } catch (error) {
+      logger.error('Failed to move issues to backlog', { issueKeys, error });
+      throw error instanceof ServiceError ? error : new ServiceError(`Failed to move issues to backlog: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'jira',
+        retryable: false,
+      });
+    }
+  }
+
+  /**
+   * Ranks issues, keeping their given order, directly before or after
+   * another issue.
+   */
+  async rankIssues(issueKeys: string[], position: { before: string } | { after: string }): Promise<void> {
+    try {
+      // Each batch is anchored to the end of the previous one so the order is preserved
+      let anchor = position;
+      for (let i = 0; i < issueKeys.length; i += AGILE_ISSUE_BATCH) {
+        const issues = issueKeys.slice(i, i + AGILE_ISSUE_BATCH);
+        const payload = 'before' in anchor
+          ? { issues, rankBeforeIssue: anchor.before }
+          : { issues, rankAfterIssue: anchor.after };
+        await this.call('rankIssues', () => this.agile.put('/issue/rank', payload), { retries: 0 });
+        const last = issues[issues.length - 1];
+        if (last) {
+          anchor = { after: last };
+        }
+      }
+
+      logger.info('Ranked issues', { issueKeys, position });
+    } catch (error) {
+      logger.error('Failed to rank issues', { issueKeys, position, error });
+      throw error instanceof ServiceError ? error : new ServiceError(`Failed to rank issues: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'jira',
+        retryable: false,
       });
+    }
+  }
+
+  /**
+   * Completed and incomplete work of a sprint. The public Agile API has no
+   * sprint report, so this reflects the sprint's issues as they are now:
+   * issues removed from the sprint after it started are not counted.
+   */
+  async getSprintReport(boardId: number, sprintId: number): Promise<SprintReport> {
+    try {
+      const ids = await this.getFieldIds();
+      const [sprintResponse, issues] = await Promise.all([
+        this.call('getSprint', () => this.agile.get(`/sprint/${sprintId}`)),
+        this.paginateAgile('getSprintIssues', `/board/${boardId}/sprint/${sprintId}/issue`, {
+          fields: agileIssueFields(ids),
+        }, 'issues'),
+      ]);
+
+      const mapped: JiraAgileIssue[] = issues.map((issue: any) => this.mapAgileIssue(issue, ids));
+      const completedIssues = mapped.filter(issue => issue.done);
+      const points = (list: JiraAgileIssue[]) => list.reduce((sum, issue) => sum + (issue.storyPoints || 0), 0);
+
+      return {
+        sprint: this.mapSprint(sprintResponse.data),
+        completedIssues,
+        incompleteIssues: mapped.filter(issue => !issue.done),
+        committedPoints: points(mapped),
+        completedPoints: points(completedIssues),
+      };
+    } catch (error) {
+      logger.error('Failed to fetch sprint report', { boardId, sprintId, error });
+      throw error instanceof ServiceError ? error : new ServiceError(`Failed to fetch sprint report: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'jira',
+        retryable: true,
+      });
+    }
+  }
+
+  /**
+   * Issues resolved since `since` that match `jql`, with the start of work
+   * taken from the changelog.
+   */
+  async getResolvedIssueActivity(jql: string, since: string, maxResults = 100): Promise<JiraIssueActivity[]> {
+    const sinceDay = since.slice(0, 10);
+
+    try {
+      const { storyPoints } = await this.getFieldIds();
+      const activity: JiraIssueActivity[] = [];
+      const query = buildJql(and(raw(jql), compare('resolved', '>=', sinceDay)), [{ field: 'resolved', direction: 'DESC' }]);
+      const issues = this.paginateSearch('getResolvedIssueActivity', query, {
+        fields: ['issuetype', 'priority', 'assignee', 'created', 'resolutiondate', ...(storyPoints ? [storyPoints] : [])],
+        expand: ['changelog'],
+        limit: maxResults,
+      });
+
+      for await (const issue of issues) {
+        if (!issue.fields.resolutiondate) {
+          continue;
+        }
+        const statusChanges = (issue.changelog?.histories || [])
+          .filter((history: any) => history.items?.some((item: any) => item.field === 'status'))
+          .map((history: any) => history.created as string)
+          .sort();
+
+        activity.push({
+          key: issue.key,
+          issueType: issue.fields.issuetype?.name || 'Unknown',
+          priority: issue.fields.priority?.name || 'Medium',
+          assignee: issue.fields.assignee?.displayName,
+          storyPoints: numberField(issue.fields, storyPoints),
+          created: issue.fields.created,
+          startedAt: statusChanges[0],
+          resolvedAt: issue.fields.resolutiondate,
+        });
+      }
+      return activity;
+    } catch (error) {
+      logger.error('Failed to fetch resolved JIRA issues', { jql, since, error });
+      throw error instanceof ServiceError ? error : new ServiceError(`Failed to fetch resolved JIRA issues: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'jira',
+        retryable: true,
+      });
+    }
+  }
+
+  /**
+   * Committed and completed story points for the board's sprints closed since
+   * `since`, oldest first, taken from their sprint reports.
+   */
+  async getSprintVelocity(boardId: number, since: string): Promise<SprintVelocity[]> {
+    const sinceTime = new Date(since).getTime();
+
+    const sprints = (await this.getSprints(boardId, ['closed']))
+      .filter(sprint => new Date(sprint.completeDate || sprint.endDate || 0).getTime() >= sinceTime)
+      .sort((a, b) => (a.completeDate || a.endDate || '').localeCompare(b.completeDate || b.endDate || ''));
+
+    return Promise.all(sprints.map(async sprint => {
+      const report = await this.getSprintReport(boardId, sprint.id);
+      return { sprint, committedPoints: report.committedPoints, completedPoints: report.completedPoints };
+    }));
+  }
+
+  async addCommentToIssue(issueKey: string, comment: string): Promise<void> {
+    try {
+      await this.call('addComment', () => this.client.post(`/issue/${issueKey}/comment`, {
+        body: this.toRichText(comment),
+      }), { retries: 0 });
 
       logger.info('Added comment to JIRA issue', { issueKey });
     } catch (error) {
@@ -326,6 +713,11 @@ export class JiraIntegration {
     }
   }
 
+  /**
+   * Totals come from JQL counts over the whole project; the status, priority
+   * and assignee breakdowns cover unresolved issues only, so the pages read
+   * grow with the backlog rather than the project's history.
+   */
   async getProjectIssueStats(projectKey: string, daysBack = 30): Promise<{
     totalIssues: number;
     byStatus: Record<string, number>;
@@ -337,38 +729,34 @@ export class JiraIntegration {
     try {
       const sinceDate = new Date();
       sinceDate.setDate(sinceDate.getDate() - daysBack);
-      const since = sinceDate.toISOString().split('T')[0];
+      const project = eq('project', projectKey);
 
-      const jqlQueries = [
-        `project = ${projectKey}`,
-        `project = ${projectKey} AND status changed TO ("Done", "Closed", "Resolved") AFTER "${since}"`,
-        `project = ${projectKey} AND created >= "${since}"`,
-      ];
-
-      const [allIssues, completedIssues, newIssues] = await Promise.all(
-        jqlQueries.map(jql => this.searchIssues(jql, 1000))
-      );
+      const [totalIssues, completedInPeriod, createdInPeriod] = await Promise.all([
+        this.countIssues(buildJql(project)),
+        this.countIssues(buildJql(and(project, changedTo('status', ['Done', 'Closed', 'Resolved'], { after: sinceDate })))),
+        this.countIssues(buildJql(and(project, compare('created', '>=', sinceDate)))),
+      ]);
 
       const byStatus: Record<string, number> = {};
       const byPriority: Record<string, number> = {};
       const byAssignee: Record<string, number> = {};
 
-      if (allIssues) {
-        allIssues.forEach(issue => {
+      // The breakdowns only need three fields, so page through those rather than whole issues
+      const unresolved = buildJql(and(project, isEmpty('resolution')));
+      for await (const issue of this.iterateIssues(unresolved, { fields: ['status', 'priority', 'assignee'] })) {
         byStatus[issue.status] = (byStatus[issue.status] || 0) + 1;
         byPriority[issue.priority] = (byPriority[issue.priority] || 0) + 1;
         const assignee = issue.assignee || 'Unassigned';
         byAssignee[assignee] = (byAssignee[assignee] || 0) + 1;
-        });
       }
 
       return {
-        totalIssues: allIssues?.length || 0,
+        totalIssues,
         byStatus,
         byPriority,
         byAssignee,
-        completedInPeriod: completedIssues?.length || 0,
-        createdInPeriod: newIssues?.length || 0,
+        completedInPeriod,
+        createdInPeriod,
       };
     } catch (error) {
       logger.error('Failed to fetch project issue stats', { projectKey, error });
@@ -379,6 +767,183 @@ export class JiraIntegration {
     }
   }
 
+  private get isServer(): boolean {
+    return this.config.deployment === 'server';
+  }
+
+  /**
+   * Rich text in the site's format: ADF on Cloud, wiki markup on
+   * Server/Data Center.
+   */
+  private toRichText(markdown: string): AdfDocument | string {
+    return this.isServer ? markdownToWikiMarkup(markdown) : markdownToAdf(markdown);
+  }
+
+  // Cloud identifies users by accountId, Server/Data Center by username
+  private userReference(id: string): { accountId: string } | { name: string } {
+    return this.isServer ? { name: id } : { accountId: id };
+  }
+
+  private call<T>(operation: string, fn: () => Promise<T>, options?: ExecuteOptions): Promise<T> {
+    return this.limiter.run(() => this.resilience.execute('jira', operation, fn, options));
+  }
+
+  /**
+   * Reads search pages until `limit` issues have been returned or the results
+   * run out. Jira Cloud's enhanced search pages with nextPageToken/isLast;
+   * Server/Data Center's search, and any response that carries startAt/total
+   * instead, is paged by offset.
+   */
+  private async *paginateSearch(operation: string, jql: string, options: JiraSearchOptions): AsyncGenerator<any> {
+    const limit = options.limit ?? Infinity;
+    let returned = 0;
+    let startAt = 0;
+    let nextPageToken: string | undefined;
+
+    while (returned < limit) {
+      const response = await this.call(operation, () => this.client.post(this.isServer ? '/search' : '/search/jql', {
+        jql,
+        maxResults: Math.min(SEARCH_PAGE_SIZE, limit - returned),
+        fields: options.fields ?? ISSUE_FIELDS,
+        ...(options.expand?.length ? { expand: this.isServer ? options.expand : options.expand.join(',') } : {}),
+        ...(nextPageToken ? { nextPageToken } : startAt > 0 ? { startAt } : {}),
+      }));
+      const page: any[] = response.data.issues || [];
+
+      for (const issue of page.slice(0, limit - returned)) {
+        yield issue;
+      }
+      returned += Math.min(page.length, limit - returned);
+      startAt += page.length;
+
+      const { total, isLast } = response.data;
+      nextPageToken = response.data.nextPageToken;
+      const hasMore = nextPageToken
+        ? isLast !== true
+        : typeof total === 'number' && startAt < total;
+      if (page.length === 0 || !hasMore) {
+        return;
+      }
+    }
+  }
+
+  private getFieldIds(): Promise<JiraFieldIds> {
+    return this.loadFields().then(({ discovered }) => ({ ...discovered, ...this.config.fields }));
+  }
+
+  /**
+   * Reads /field once an hour. If it cannot be read, configured ids are used
+   * on their own and discovery is retried after a few minutes.
+   */
+  private loadFields(refresh = false): Promise<{ all: JiraField[]; discovered: JiraFieldIds }> {
+    if (!refresh && this.fieldCache && this.fieldCache.expiresAt > Date.now()) {
+      return this.fieldCache.fields;
+    }
+
+    const cache = {
+      expiresAt: Date.now() + FIELD_CACHE_TTL_MS,
+      fields: this.call('getFields', () => this.client.get('/field'))
+        .then(response => {
+          const all: JiraField[] = (Array.isArray(response.data) ? response.data : []).map((field: any) => ({
+            id: field.id,
+            name: field.name,
+            custom: field.custom === true,
+            type: field.schema?.type,
+            customType: field.schema?.custom,
+          }));
+          return { all, discovered: matchFields(all) };
+        })
+        .catch(error => {
+          logger.warn('Failed to discover JIRA fields, using configured field ids only', { error });
+          cache.expiresAt = Date.now() + FIELD_FAILURE_TTL_MS;
+          return { all: [], discovered: {} };
+        }),
+    };
+    this.fieldCache = cache;
+    return cache.fields;
+  }
+
+  private mapIssue(issue: any, ids: JiraFieldIds): JiraIssue {
+    const fields = issue.fields || {};
+
+    return {
+      key: issue.key,
+      id: issue.id,
+      summary: fields.summary || '',
+      description: adfToMarkdown(fields.description),
+      issueType: fields.issuetype?.name || 'Unknown',
+      status: fields.status?.name || 'Unknown',
+      priority: fields.priority?.name || 'Medium',
+      assignee: fields.assignee?.displayName,
+      assigneeId: fields.assignee?.accountId ?? fields.assignee?.name,
+      reporter: fields.reporter?.displayName || 'Unknown',
+      created: fields.created,
+      updated: fields.updated,
+      labels: fields.labels || [],
+      components: fields.components?.map((c: any) => c.name) || [],
+      fixVersions: fields.fixVersions?.map((v: any) => v.name) || [],
+      sprint: ids.sprint ? currentSprintName(fields[ids.sprint]) : undefined,
+      storyPoints: numberField(fields, ids.storyPoints),
+      epicLink: ids.epicLink && typeof fields[ids.epicLink] === 'string' ? fields[ids.epicLink] : undefined,
+      team: ids.team ? teamName(fields[ids.team]) : undefined,
+      startDate: ids.startDate && typeof fields[ids.startDate] === 'string' ? fields[ids.startDate] : undefined,
+      customFields: this.extractCustomFields(fields),
+      comments: fields.comment?.comments?.map((comment: any) => ({
+        author: comment.author?.displayName || 'Unknown',
+        body: adfToMarkdown(comment.body),
+        created: comment.created,
+      })) || [],
+      worklog: fields.worklog?.worklogs?.map((log: any) => ({
+        author: log.author?.displayName || 'Unknown',
+        timeSpent: log.timeSpent,
+        description: adfToMarkdown(log.comment),
+        started: log.started,
+      })) || [],
+    };
+  }
+
+  /**
+   * Reads every page of an Agile API list, which pages with startAt/isLast
+   * and returns items under `values` (or `issues` for issue lists).
+   */
+  private async paginateAgile(operation: string, path: string, params: Record<string, unknown>, key: 'values' | 'issues' = 'values'): Promise<any[]> {
+    const items: any[] = [];
+    for (let startAt = 0; ; ) {
+      const response = await this.call(operation, () => this.agile.get(path, { params: { ...params, startAt, maxResults: 50 } }));
+      const page = response.data[key] || [];
+      items.push(...page);
+
+      const total = response.data.total;
+      if (page.length === 0 || response.data.isLast === true || (typeof total === 'number' && items.length >= total)) {
+        return items;
+      }
+      startAt += page.length;
+    }
+  }
+
+  private mapSprint(sprint: any): JiraSprint {
+    return {
+      id: sprint.id,
+      name: sprint.name,
+      state: sprint.state,
+      startDate: sprint.startDate,
+      endDate: sprint.endDate,
+      completeDate: sprint.completeDate,
+      goal: sprint.goal,
+    };
+  }
+
+  private mapAgileIssue(issue: any, ids: JiraFieldIds): JiraAgileIssue {
+    return {
+      key: issue.key,
+      summary: issue.fields?.summary || '',
+      issueType: issue.fields?.issuetype?.name || 'Unknown',
+      status: issue.fields?.status?.name || 'Unknown',
+      done: issue.fields?.status?.statusCategory?.key === 'done',
+      storyPoints: numberField(issue.fields, ids.storyPoints),
+    };
+  }
+
   private extractCustomFields(fields: any): Record<string, any> {
     const customFields: Record<string, any> = {};
     
@@ -393,4 +958,72 @@ export class JiraIntegration {
 
     return customFields;
   }
-}
\ No newline at end of file
+}
+
+function issueFields(ids: JiraFieldIds): string[] {
+  return [...ISSUE_FIELDS, ...FIELD_KEYS.flatMap(key => ids[key] ?? [])];
+}
+
+function agileIssueFields(ids: JiraFieldIds): string {
+  return ['summary', 'issuetype', 'status', ...(ids.storyPoints ? [ids.storyPoints] : [])].join(',');
+}
+
+function matchFields(fields: JiraField[]): JiraFieldIds {
+  const ids: JiraFieldIds = {};
+  for (const key of FIELD_KEYS) {
+    const { customTypes, names } = FIELD_MATCHERS[key];
+    const match = fields.find(field => field.customType !== undefined && customTypes.includes(field.customType))
+      ?? names
+        .map(name => fields.find(field => field.custom && field.name?.toLowerCase() === name))
+        .find(field => field !== undefined);
+    if (match) {
+      ids[key] = match.id;
+    }
+  }
+  return ids;
+}
+
+function numberField(fields: any, id: string | undefined): number | undefined {
+  const value = id ? fields?.[id] : undefined;
+  return typeof value === 'number' ? value : undefined;
+}
+
+/**
+ * Issues carried over keep their earlier sprints in the sprint field, so the
+ * active sprint wins, then the most recent one.
+ */
+function currentSprintName(value: unknown): string | undefined {
+  const sprints = (Array.isArray(value) ? value : value ? [value] : []).map(parseSprintValue);
+  const current = sprints.find(sprint => sprint.state?.toLowerCase() === 'active') ?? sprints[sprints.length - 1];
+  return current?.name;
+}
+
+/**
+ * Server/Data Center returns sprints as strings such as
+ * "com.atlassian.greenhopper.service.sprint.Sprint@1f[id=3,rapidViewId=1,state=ACTIVE,name=Sprint 3,...]".
+ */
+function parseSprintValue(value: any): { name?: string; state?: string } {
+  if (typeof value === 'string') {
+    return {
+      name: value.match(/[[,]name=([^,\]]*)/)?.[1],
+      state: value.match(/[[,]state=([^,\]]*)/)?.[1],
+    };
+  }
+  return { name: typeof value?.name === 'string' ? value.name : undefined, state: value?.state };
+}
+
+function teamName(value: any): string | undefined {
+  if (typeof value === 'string') {
+    return value;
+  }
+  return value?.name ?? value?.title ?? undefined;
+}
+
+function mapUser(user: any): JiraUser {
+  return {
+    id: user.accountId ?? user.name,
+    displayName: user.displayName || user.name || '',
+    email: user.emailAddress || undefined,
+    active: user.active !== false,
+  };
+}
@@ -1,6 +1,9 @@
 import { WebClient, LogLevel } from '@slack/web-api';
 import logger from '../utils/logger.js';
 import { ServiceError } from '../types/index.js';
+import { ExecuteOptions, ResiliencePolicy, createPassthroughPolicy } from '../utils/resilience.js';
+
+const SLACK_REQUEST_TIMEOUT_MS = 10000;
 
 export interface SlackConfig {
   botToken: string;
@@ -40,6 +43,10 @@ export interface SlackUser {
   team?: string;
   isBot: boolean;
   deleted: boolean;
+  statusText?: string;
+  statusEmoji?: string;
+  // When the status clears; unset for statuses without an expiry
+  statusExpiresAt?: string;
 }
 
 export interface SlackMessageResponse {
@@ -55,15 +62,19 @@ export interface SlackMessageResponse {
 export class SlackIntegration {
   private client: WebClient;
   private config: SlackConfig;
+  private resilience: ResiliencePolicy;
 
-  constructor(config: SlackConfig) {
+  constructor(config: SlackConfig, resilience: ResiliencePolicy = createPassthroughPolicy()) {
     this.config = config;
+    this.resilience = resilience;
+    // Retries and rate limits are handled by the shared resilience policy
     this.client = new WebClient(config.botToken, {
       logLevel: LogLevel.INFO,
+      timeout: SLACK_REQUEST_TIMEOUT_MS,
       retryConfig: {
-        retries: 3,
-        factor: 2,
+        retries: 0,
       },
+      rejectRateLimitedCalls: true,
     });
   }
 
@@ -78,7 +89,7 @@ export class SlackIntegration {
         ...(message.reply_broadcast !== undefined ? { reply_broadcast: message.reply_broadcast } : {}),
       };
       
-      const response = await this.client.chat.postMessage(postArgs);
+      const response = await this.call('postMessage', () => this.client.chat.postMessage(postArgs), { retries: 0 });
 
       if (!response.ok) {
         throw new Error(`Slack API error: ${response.error}`);
@@ -182,13 +193,13 @@ export class SlackIntegration {
     attachments?: Array<any>;
   }): Promise<void> {
     try {
-      const response = await this.client.chat.update({
+      const response = await this.call('updateMessage', () => this.client.chat.update({
         channel,
         ts,
         text: message.text,
         blocks: message.blocks,
         attachments: message.attachments,
-      });
+      }));
 
       if (!response.ok) {
         throw new Error(`Slack API error: ${response.error}`);
@@ -206,10 +217,10 @@ export class SlackIntegration {
 
   async getChannelInfo(channel: string): Promise<SlackChannel> {
     try {
-      const response = await this.client.conversations.info({
+      const response = await this.call('getChannelInfo', () => this.client.conversations.info({
         channel,
         include_num_members: true,
-      });
+      }));
 
       if (!response.ok || !response.channel) {
         throw new Error(`Slack API error: ${response.error || 'Channel not found'}`);
@@ -240,28 +251,15 @@ export class SlackIntegration {
 
   async getUserInfo(userId: string): Promise<SlackUser> {
     try {
-      const response = await this.client.users.info({
+      const response = await this.call('getUserInfo', () => this.client.users.info({
         user: userId,
-      });
+      }));
 
       if (!response.ok || !response.user) {
         throw new Error(`Slack API error: ${response.error || 'User not found'}`);
       }
 
-      const user = response.user;
-      const profile = user.profile || {};
-
-      return {
-        id: user.id!,
-        name: user.name || '',
-        realName: user.real_name || profile.real_name || '',
-        displayName: profile.display_name || user.name || '',
-        email: profile.email,
-        title: profile.title,
-        team: user.team_id,
-        isBot: user.is_bot || false,
-        deleted: user.deleted || false,
-      };
+      return mapUser(response.user);
     } catch (error) {
       logger.error('Failed to get Slack user info', { userId, error });
       throw new ServiceError(`Failed to get Slack user info: ${error instanceof Error ? error.message : 'Unknown error'}`, {
@@ -271,12 +269,40 @@ export class SlackIntegration {
     }
   }
 
+  /**
+   * Finds the workspace member with this email address, or null when there is
+   * none. Needs the users:read.email scope.
+   */
+  async lookupUserByEmail(email: string): Promise<SlackUser | null> {
+    try {
+      const response = await this.call('lookupUserByEmail', () => this.client.users.lookupByEmail({ email }));
+
+      if (!response.ok || !response.user) {
+        if (response.error === 'users_not_found') {
+          return null;
+        }
+        throw new Error(`Slack API error: ${response.error || 'User not found'}`);
+      }
+
+      return mapUser(response.user);
+    } catch (error) {
+      if ((error as any)?.data?.error === 'users_not_found') {
+        return null;
+      }
+      logger.error('Failed to look up Slack user by email', { error });
+      throw new ServiceError(`Failed to look up Slack user by email: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        service: 'slack',
+        retryable: true,
+      });
+    }
+  }
+
   async findChannelByName(channelName: string): Promise<SlackChannel | null> {
     try {
-      const response = await this.client.conversations.list({
+      const response = await this.call('findChannelByName', () => this.client.conversations.list({
         types: 'public_channel,private_channel',
         limit: 1000,
-      });
+      }));
 
       if (!response.ok || !response.channels) {
         throw new Error(`Slack API error: ${response.error}`);
@@ -437,6 +463,11 @@ export class SlackIntegration {
     });
   }
 
+  // The client takes no abort signal, so its own timeout, which cancels the request, replaces the policy's
+  private call<T>(operation: string, fn: () => Promise<T>, options?: ExecuteOptions): Promise<T> {
+    return this.resilience.execute('slack', operation, fn, { ...options, timeoutMs: 0 });
+  }
+
   private getStatusColor(status: string): 'good' | 'warning' | 'danger' {
     const lowerStatus = status.toLowerCase();
     
@@ -467,4 +498,23 @@ export class SlackIntegration {
         return '⚡';
     }
   }
-}
\ No newline at end of file
+}
+
+function mapUser(user: any): SlackUser {
+  const profile = user.profile || {};
+
+  return {
+    id: user.id,
+    name: user.name || '',
+    realName: user.real_name || profile.real_name || '',
+    displayName: profile.display_name || user.name || '',
+    email: profile.email,
+    title: profile.title,
+    team: user.team_id,
+    isBot: user.is_bot || false,
+    deleted: user.deleted || false,
+    statusText: profile.status_text || undefined,
+    statusEmoji: profile.status_emoji || undefined,
+    statusExpiresAt: profile.status_expiration ? new Date(profile.status_expiration * 1000).toISOString() : undefined,
+  };
+}
@@ -15,18 +15,70 @@ import { GitHubIntegration } from './integrations/github.js';
 import { JiraIntegration } from './integrations/jira.js';
 import { SlackIntegration } from './integrations/slack.js';
 import { OpenAIAgent } from './agents/openai.js';
+import { createLLMProvider, createSamplingClient, runWithSamplingClient } from './agents/providers/index.js';
 import { WorkflowOrchestrator } from './workflows/orchestrator.js';
+import { HttpTransportServer } from './transports/http.js';
+import { WebhookDispatcher } from './webhooks/dispatcher.js';
+import { WebhookServer } from './webhooks/server.js';
+import { InMemoryWorkflowStateStore, WorkflowStateStore } from './state/store.js';
+import { PostgresWorkflowStateStore } from './state/postgres.js';
+import { ResiliencePolicy, ServiceName } from './utils/resilience.js';
+import { InMemoryResponseCache, ResponseCache } from './cache/store.js';
+import { RedisResponseCache } from './cache/redis.js';
 
 class IDWOMCPServer {
-  private server: Server;
+  private server?: Server;
+  private httpTransport?: HttpTransportServer;
+  private webhookServer?: WebhookServer;
   private githubIntegration: GitHubIntegration;
   private jiraIntegration: JiraIntegration;
   private slackIntegration: SlackIntegration;
   private openAIAgent: OpenAIAgent;
   private workflowOrchestrator: WorkflowOrchestrator;
+  private workflowState: WorkflowStateStore;
+  private responseCache?: ResponseCache;
+  private resilience: ResiliencePolicy;
 
   constructor() {
-    this.server = new Server(
+    this.resilience = new ResiliencePolicy({
+      circuitBreaker: config.circuitBreaker,
+      retry: config.retry,
+    });
+    this.githubIntegration = new GitHubIntegration(config.github, this.resilience);
+    this.jiraIntegration = new JiraIntegration(config.jira, this.resilience);
+    this.slackIntegration = new SlackIntegration(config.slack, this.resilience);
+    if (config.llm.cache.enabled) {
+      this.responseCache = config.llm.cache.backend === 'redis'
+        ? new RedisResponseCache(config.redis)
+        : new InMemoryResponseCache();
+    }
+    this.openAIAgent = new OpenAIAgent(createLLMProvider(config), this.resilience, {
+      contextTokens: config.llm.contextTokens,
+      redaction: config.llm.redaction,
+      cache: this.responseCache,
+      cacheTtlSeconds: config.llm.cache.ttlSeconds,
+    });
+    this.workflowState = config.workflowState.backend === 'postgres'
+      ? new PostgresWorkflowStateStore(config.database)
+      : new InMemoryWorkflowStateStore();
+    this.workflowOrchestrator = new WorkflowOrchestrator({
+      github: this.githubIntegration,
+      jira: this.jiraIntegration,
+      slack: this.slackIntegration,
+      ai: this.openAIAgent,
+      state: this.workflowState,
+      deploymentEnvironment: config.github.productionEnvironment,
+      teams: config.teams,
+      organization: config.github.organization,
+      identities: config.identities,
+      pullRequestActions: config.pullRequestActions,
+    });
+
+    this.setupErrorHandling();
+  }
+
+  private createMcpServer(): Server {
+    const server = new Server(
       {
         name: 'idwo-mcp-server',
         version: '1.0.0',
@@ -38,23 +90,16 @@ class IDWOMCPServer {
       }
     );
 
-    this.githubIntegration = new GitHubIntegration(config.github);
-    this.jiraIntegration = new JiraIntegration(config.jira);
-    this.slackIntegration = new SlackIntegration(config.slack);
-    this.openAIAgent = new OpenAIAgent(config.openai);
-    this.workflowOrchestrator = new WorkflowOrchestrator({
-      github: this.githubIntegration,
-      jira: this.jiraIntegration,
-      slack: this.slackIntegration,
-      ai: this.openAIAgent,
-    });
+    server.onerror = (error) => {
+      logger.error('MCP Server error', error);
+    };
 
-    this.setupTools();
-    this.setupErrorHandling();
+    this.setupTools(server);
+    return server;
   }
 
-  private setupTools(): void {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+  private setupTools(server: Server): void {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
         tools: [
           {
@@ -67,6 +112,24 @@ class IDWOMCPServer {
                 repo: { type: 'string', description: 'GitHub repository name' },
                 pull_number: { type: 'number', description: 'Pull request number' },
                 include_jira_context: { type: 'boolean', description: 'Whether to analyze JIRA ticket context', default: true },
+                apply_actions: { type: 'boolean', description: 'Request the suggested reviewers, add risk/topic labels and update the IDWO summary comment, as far as the repository policy (PR_ACTIONS) allows', default: false },
+                force_refresh: { type: 'boolean', description: 'Analyze again instead of reusing a cached model response for unchanged input', default: false },
+              },
+              required: ['owner', 'repo', 'pull_number'],
+            },
+          },
+          {
+            name: 'review_pr',
+            description: 'Review a pull request diff line by line and optionally submit the findings as a GitHub review with inline comments',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                owner: { type: 'string', description: 'GitHub repository owner' },
+                repo: { type: 'string', description: 'GitHub repository name' },
+                pull_number: { type: 'number', description: 'Pull request number' },
+                min_severity: { type: 'string', enum: ['info', 'minor', 'major', 'critical'], description: 'Lowest severity to report', default: 'minor' },
+                submit: { type: 'boolean', description: 'Submit new findings as a pull request review, if the repository policy (PR_ACTIONS) allows reviews', default: false },
+                force_refresh: { type: 'boolean', description: 'Analyze again instead of reusing a cached model response for unchanged input', default: false },
               },
               required: ['owner', 'repo', 'pull_number'],
             },
@@ -80,6 +143,7 @@ class IDWOMCPServer {
                 issue_key: { type: 'string', description: 'JIRA issue key (e.g., PROJ-123)' },
                 github_issue_url: { type: 'string', description: 'GitHub issue URL for additional context' },
                 team_context: { type: 'string', description: 'Team or component context' },
+                force_refresh: { type: 'boolean', description: 'Analyze again instead of reusing a cached model response for unchanged input', default: false },
               },
               required: ['issue_key'],
             },
@@ -95,6 +159,7 @@ class IDWOMCPServer {
                 jira_project: { type: 'string', description: 'JIRA project key' },
                 slack_channel: { type: 'string', description: 'Slack channel for notifications' },
                 dry_run: { type: 'boolean', description: 'Whether to perform a dry run', default: false },
+                force_refresh: { type: 'boolean', description: 'Analyze again instead of reusing a cached model response for unchanged input', default: false },
               },
               required: ['release_version', 'repository', 'jira_project', 'slack_channel'],
             },
@@ -126,48 +191,105 @@ class IDWOMCPServer {
                 team_name: { type: 'string', description: 'Team identifier or name' },
                 time_period: { type: 'string', description: 'Analysis period (e.g., "30d", "1w", "1q")', default: '30d' },
                 include_predictions: { type: 'boolean', description: 'Include predictive analytics', default: true },
+                repositories: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Repositories (owner/repo) whose deployments count towards the team metrics',
+                },
+                force_refresh: { type: 'boolean', description: 'Analyze again instead of reusing a cached model response for unchanged input', default: false },
               },
               required: ['team_name'],
             },
           },
+          {
+            name: 'get_dora_metrics',
+            description: 'Calculate DORA metrics (deployment frequency, lead time for changes, change failure rate, time to restore) with weekly time series',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                repository: { type: 'string', description: 'Repository in format owner/repo' },
+                team_name: { type: 'string', description: 'Team whose configured repositories and Jira project are measured' },
+                time_period: { type: 'string', description: 'Analysis period (e.g., "30d", "12w", "1q")', default: '30d' },
+                environment: { type: 'string', description: 'Deployment environment, defaults to the configured production environment' },
+                incident_jql: { type: 'string', description: 'JQL selecting incidents for time to restore, defaults to Incident issues in the team\'s Jira project' },
+              },
+            },
+          },
+          {
+            name: 'list_jira_fields',
+            description: 'List Jira fields and show which field ids are used for sprint, story points, epic link, team and start date',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                search: { type: 'string', description: 'Only list fields whose name or id contains this text' },
+                custom_only: { type: 'boolean', description: 'Only list custom fields', default: false },
+                refresh: { type: 'boolean', description: 'Discover fields again instead of using the cached mapping', default: false },
+              },
+            },
+          },
+          {
+            name: 'get_service_health',
+            description: 'Report circuit breaker state and recent failures for GitHub, JIRA, Slack and the LLM provider',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                service: { type: 'string', enum: ['github', 'jira', 'slack', 'llm'], description: 'Limit the report to a single service' },
+              },
+            },
+          },
         ],
       };
     });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
 
-      try {
-        switch (name) {
-          case 'analyze_pr':
-            return await this.handleAnalyzePR(args);
-          case 'smart_triage':
-            return await this.handleSmartTriage(args);
-          case 'orchestrate_release':
-            return await this.handleOrchestrateRelease(args);
-          case 'sync_workflow_status':
-            return await this.handleSyncWorkflowStatus(args);
-          case 'get_team_insights':
-            return await this.handleGetTeamInsights(args);
-          default:
-            throw new McpError(ErrorCode.MethodNotFound, `Tool ${name} not found`);
-        }
-      } catch (error) {
-        logger.error('Tool execution error', { tool: name, error: error instanceof Error ? error.message : 'Unknown error', args });
-        throw new McpError(
-          ErrorCode.InternalError,
-          `Error executing ${name}: ${error instanceof Error ? error.message : 'Unknown error'}`
-        );
-      }
+      // Analyses triggered by this call may sample the calling client's model
+      return runWithSamplingClient(createSamplingClient(server, extra.requestId), () => this.callTool(name, args));
     });
   }
 
+  private async callTool(name: string, args: unknown): Promise<{ content: Array<{ type: string; text: string }> }> {
+    try {
+      switch (name) {
+        case 'analyze_pr':
+          return await this.handleAnalyzePR(args);
+        case 'review_pr':
+          return await this.handleReviewPR(args);
+        case 'smart_triage':
+          return await this.handleSmartTriage(args);
+        case 'orchestrate_release':
+          return await this.handleOrchestrateRelease(args);
+        case 'sync_workflow_status':
+          return await this.handleSyncWorkflowStatus(args);
+        case 'get_team_insights':
+          return await this.handleGetTeamInsights(args);
+        case 'get_dora_metrics':
+          return await this.handleGetDoraMetrics(args);
+        case 'list_jira_fields':
+          return await this.handleListJiraFields(args);
+        case 'get_service_health':
+          return await this.handleGetServiceHealth(args);
+        default:
+          throw new McpError(ErrorCode.MethodNotFound, `Tool ${name} not found`);
+      }
+    } catch (error) {
+      logger.error('Tool execution error', { tool: name, error: error instanceof Error ? error.message : 'Unknown error', args });
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Error executing ${name}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   private async handleAnalyzePR(args: any): Promise<{ content: Array<{ type: string; text: string }> }> {
     const schema = z.object({
       owner: z.string(),
       repo: z.string(),
       pull_number: z.number(),
       include_jira_context: z.boolean().default(true),
+      apply_actions: z.boolean().default(false),
+      force_refresh: z.boolean().default(false),
     });
 
     const params = schema.parse(args);
@@ -183,11 +305,35 @@ class IDWOMCPServer {
     };
   }
 
+  private async handleReviewPR(args: any): Promise<{ content: Array<{ type: string; text: string }> }> {
+    const schema = z.object({
+      owner: z.string(),
+      repo: z.string(),
+      pull_number: z.number(),
+      min_severity: z.enum(['info', 'minor', 'major', 'critical']).default('minor'),
+      submit: z.boolean().default(false),
+      force_refresh: z.boolean().default(false),
+    });
+
+    const params = schema.parse(args);
+    const result = await this.workflowOrchestrator.reviewPR(params);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  }
+
   private async handleSmartTriage(args: any): Promise<{ content: Array<{ type: string; text: string }> }> {
     const schema = z.object({
       issue_key: z.string(),
       github_issue_url: z.string().optional(),
       team_context: z.string().optional(),
+      force_refresh: z.boolean().default(false),
     });
 
     const params = schema.parse(args);
@@ -210,6 +356,7 @@ class IDWOMCPServer {
       jira_project: z.string(),
       slack_channel: z.string(),
       dry_run: z.boolean().default(false),
+      force_refresh: z.boolean().default(false),
     });
 
     const params = schema.parse(args);
@@ -250,6 +397,8 @@ class IDWOMCPServer {
       team_name: z.string(),
       time_period: z.string().default('30d'),
       include_predictions: z.boolean().default(true),
+      repositories: z.array(z.string()).optional(),
+      force_refresh: z.boolean().default(false),
     });
 
     const params = schema.parse(args);
@@ -265,22 +414,134 @@ class IDWOMCPServer {
     };
   }
 
-  private setupErrorHandling(): void {
-    this.server.onerror = (error) => {
-      logger.error('MCP Server error', error);
+  private async handleGetDoraMetrics(args: any): Promise<{ content: Array<{ type: string; text: string }> }> {
+    const schema = z.object({
+      repository: z.string().optional(),
+      team_name: z.string().optional(),
+      time_period: z.string().default('30d'),
+      environment: z.string().optional(),
+      incident_jql: z.string().optional(),
+    }).refine(params => params.repository || params.team_name, {
+      message: 'Either repository or team_name is required',
+    });
+
+    const params = schema.parse(args);
+    const result = await this.workflowOrchestrator.getDoraMetrics(params);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleListJiraFields(args: any): Promise<{ content: Array<{ type: string; text: string }> }> {
+    const schema = z.object({
+      search: z.string().optional(),
+      custom_only: z.boolean().default(false),
+      refresh: z.boolean().default(false),
+    });
+
+    const params = schema.parse(args || {});
+    const { mappings, fields } = await this.jiraIntegration.getFieldMappings({ refresh: params.refresh });
+    const search = params.search?.toLowerCase();
+    const result = {
+      mappings,
+      fields: fields.filter(field => (!params.custom_only || field.custom)
+        && (!search || field.name.toLowerCase().includes(search) || field.id.toLowerCase().includes(search))),
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleGetServiceHealth(args: any): Promise<{ content: Array<{ type: string; text: string }> }> {
+    const schema = z.object({
+      service: z.enum(['github', 'jira', 'slack', 'llm']).optional(),
+    });
+
+    const params = schema.parse(args || {});
+    const services: ServiceName[] = params.service ? [params.service] : ['github', 'jira', 'slack', 'llm'];
+    const result = services.map(service => this.resilience.getBreaker(service).getSnapshot());
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
     };
+  }
 
-    process.on('SIGINT', async () => {
+  private setupErrorHandling(): void {
+    const shutdown = async () => {
       logger.info('Shutting down IDWO MCP Server...');
-      await this.server.close();
+      await this.stop();
       process.exit(0);
-    });
+    };
+
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
   }
 
   public async start(): Promise<void> {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
-    logger.info('IDWO MCP Server started successfully');
+    await this.workflowState.initialize();
+    await this.responseCache?.initialize();
+
+    if (config.server.transport === 'http') {
+      this.httpTransport = new HttpTransportServer(
+        {
+          port: config.server.port,
+          host: config.server.host,
+          jwtSecret: config.security.jwtSecret,
+          allowedHosts: config.server.allowedHosts,
+          maxSessions: config.server.maxSessions,
+          sessionIdleTimeoutMs: config.server.sessionIdleTimeoutMs,
+        },
+        () => this.createMcpServer()
+      );
+      await this.httpTransport.start();
+    } else {
+      this.server = this.createMcpServer();
+      await this.server.connect(new StdioServerTransport());
+    }
+
+    if (config.webhooks.enabled) {
+      this.webhookServer = new WebhookServer(
+        {
+          port: config.webhooks.port,
+          host: config.server.host,
+          githubSecret: config.webhooks.githubSecret,
+          jiraSecret: config.webhooks.jiraSecret,
+          slackSigningSecret: config.slack.signingSecret,
+        },
+        new WebhookDispatcher(this.workflowOrchestrator, this.slackIntegration)
+      );
+      await this.webhookServer.start();
+    }
+
+    logger.info('IDWO MCP Server started successfully', {
+      transport: config.server.transport,
+      webhooks: config.webhooks.enabled,
+    });
+  }
+
+  public async stop(): Promise<void> {
+    await this.webhookServer?.close();
+    await this.httpTransport?.close();
+    await this.server?.close();
+    await this.workflowState.close();
+    await this.responseCache?.close();
   }
 }
 
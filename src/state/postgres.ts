@@ -0,0 +1,260 @@
+import pg from 'pg';
+import logger from '../utils/logger.js';
+import { WorkflowStatus, WorkflowTransition } from '../types/index.js';
+import { WorkflowServiceName, WorkflowStateStore, getServiceKey } from './store.js';
+
+export interface PostgresStateConfig {
+  url: string;
+  poolSize?: number;
+}
+
+interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+// Columns selected from idwo_workflows; JSONB and TIMESTAMPTZ arrive parsed
+interface WorkflowRow {
+  id: string;
+  type: WorkflowStatus['type'];
+  status: string;
+  services: WorkflowStatus['services'] | null;
+  last_updated: Date;
+}
+
+// Columns selected from idwo_workflow_transitions
+interface WorkflowTransitionRow {
+  workflow_id: string;
+  from_status: string | null;
+  to_status: string;
+  services: WorkflowStatus['services'] | null;
+  recorded_at: Date;
+}
+
+// Arbitrary constant so concurrent replicas never run migrations at the same time
+const MIGRATION_LOCK_ID = 741_205_311;
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_workflows',
+    sql: `
+      CREATE TABLE IF NOT EXISTS idwo_workflows (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        status TEXT NOT NULL,
+        services JSONB NOT NULL DEFAULT '{}'::jsonb,
+        github_url TEXT,
+        jira_key TEXT,
+        slack_channel TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        last_updated TIMESTAMPTZ NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idwo_workflows_type_idx ON idwo_workflows (type, last_updated DESC);
+      CREATE INDEX IF NOT EXISTS idwo_workflows_github_url_idx ON idwo_workflows (github_url);
+      CREATE INDEX IF NOT EXISTS idwo_workflows_jira_key_idx ON idwo_workflows (jira_key);
+      CREATE INDEX IF NOT EXISTS idwo_workflows_slack_channel_idx ON idwo_workflows (slack_channel);
+    `,
+  },
+  {
+    version: 2,
+    name: 'create_workflow_transitions',
+    sql: `
+      CREATE TABLE IF NOT EXISTS idwo_workflow_transitions (
+        id BIGSERIAL PRIMARY KEY,
+        workflow_id TEXT NOT NULL REFERENCES idwo_workflows (id) ON DELETE CASCADE,
+        from_status TEXT,
+        to_status TEXT NOT NULL,
+        services JSONB NOT NULL DEFAULT '{}'::jsonb,
+        recorded_at TIMESTAMPTZ NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idwo_workflow_transitions_workflow_idx
+        ON idwo_workflow_transitions (workflow_id, recorded_at);
+    `,
+  },
+];
+
+const SERVICE_KEY_COLUMNS: Record<WorkflowServiceName, string> = {
+  github: 'github_url',
+  jira: 'jira_key',
+  slack: 'slack_channel',
+};
+
+export class PostgresWorkflowStateStore implements WorkflowStateStore {
+  private pool: pg.Pool;
+
+  constructor(config: PostgresStateConfig, pool?: pg.Pool) {
+    this.pool = pool || new pg.Pool({
+      connectionString: config.url,
+      max: config.poolSize || 10,
+    });
+  }
+
+  async initialize(): Promise<void> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS idwo_schema_migrations (
+          version INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        )
+      `);
+
+      const applied = await client.query('SELECT version FROM idwo_schema_migrations');
+      const appliedVersions = new Set(applied.rows.map((row: { version: number }) => row.version));
+
+      for (const migration of MIGRATIONS) {
+        if (appliedVersions.has(migration.version)) {
+          continue;
+        }
+
+        await client.query('BEGIN');
+        try {
+          await client.query(migration.sql);
+          await client.query(
+            'INSERT INTO idwo_schema_migrations (version, name) VALUES ($1, $2)',
+            [migration.version, migration.name]
+          );
+          await client.query('COMMIT');
+          logger.info('Applied workflow state migration', { version: migration.version, name: migration.name });
+        } catch (error) {
+          await client.query('ROLLBACK');
+          throw error;
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to migrate workflow state schema', { error });
+      throw error;
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]).catch(() => undefined);
+      client.release();
+    }
+  }
+
+  async save(status: WorkflowStatus): Promise<void> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const previous = await client.query<Pick<WorkflowRow, 'status'>>(
+        'SELECT status FROM idwo_workflows WHERE id = $1 FOR UPDATE',
+        [status.id]
+      );
+
+      await client.query(
+        `INSERT INTO idwo_workflows (id, type, status, services, github_url, jira_key, slack_channel, last_updated)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         ON CONFLICT (id) DO UPDATE SET
+           type = EXCLUDED.type,
+           status = EXCLUDED.status,
+           services = EXCLUDED.services,
+           github_url = EXCLUDED.github_url,
+           jira_key = EXCLUDED.jira_key,
+           slack_channel = EXCLUDED.slack_channel,
+           last_updated = EXCLUDED.last_updated`,
+        [
+          status.id,
+          status.type,
+          status.status,
+          JSON.stringify(status.services),
+          getServiceKey(status, 'github') || null,
+          getServiceKey(status, 'jira') || null,
+          getServiceKey(status, 'slack') || null,
+          status.lastUpdated,
+        ]
+      );
+
+      await client.query(
+        `INSERT INTO idwo_workflow_transitions (workflow_id, from_status, to_status, services, recorded_at)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [
+          status.id,
+          previous.rows[0]?.status || null,
+          status.status,
+          JSON.stringify(status.services),
+          status.lastUpdated,
+        ]
+      );
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      logger.error('Failed to persist workflow state', { workflowId: status.id, error });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async get(workflowId: string): Promise<WorkflowStatus | null> {
+    const result = await this.pool.query<WorkflowRow>(
+      'SELECT id, type, status, services, last_updated FROM idwo_workflows WHERE id = $1',
+      [workflowId]
+    );
+
+    return result.rows[0] ? this.toWorkflowStatus(result.rows[0]) : null;
+  }
+
+  async getHistory(workflowId: string): Promise<WorkflowTransition[]> {
+    const result = await this.pool.query<WorkflowTransitionRow>(
+      `SELECT workflow_id, from_status, to_status, services, recorded_at
+       FROM idwo_workflow_transitions
+       WHERE workflow_id = $1
+       ORDER BY recorded_at ASC, id ASC`,
+      [workflowId]
+    );
+
+    return result.rows.map(row => ({
+      workflowId: row.workflow_id,
+      fromStatus: row.from_status || undefined,
+      toStatus: row.to_status,
+      services: row.services || {},
+      recordedAt: new Date(row.recorded_at),
+    }));
+  }
+
+  async findByType(type: WorkflowStatus['type'], limit = 50): Promise<WorkflowStatus[]> {
+    const result = await this.pool.query<WorkflowRow>(
+      `SELECT id, type, status, services, last_updated
+       FROM idwo_workflows
+       WHERE type = $1
+       ORDER BY last_updated DESC
+       LIMIT $2`,
+      [type, limit]
+    );
+
+    return result.rows.map(row => this.toWorkflowStatus(row));
+  }
+
+  async findByServiceKey(service: WorkflowServiceName, key: string): Promise<WorkflowStatus[]> {
+    const column = SERVICE_KEY_COLUMNS[service];
+    const result = await this.pool.query<WorkflowRow>(
+      `SELECT id, type, status, services, last_updated
+       FROM idwo_workflows
+       WHERE ${column} = $1
+       ORDER BY last_updated DESC`,
+      [key]
+    );
+
+    return result.rows.map(row => this.toWorkflowStatus(row));
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  private toWorkflowStatus(row: WorkflowRow): WorkflowStatus {
+    return {
+      id: row.id,
+      type: row.type,
+      status: row.status,
+      lastUpdated: new Date(row.last_updated),
+      services: row.services || {},
+    };
+  }
+}
@@ -0,0 +1,93 @@
+import { WorkflowStatus, WorkflowTransition } from '../types/index.js';
+
+export type WorkflowServiceName = keyof WorkflowStatus['services'];
+
+export interface WorkflowStateStore {
+  initialize(): Promise<void>;
+  save(status: WorkflowStatus): Promise<void>;
+  get(workflowId: string): Promise<WorkflowStatus | null>;
+  getHistory(workflowId: string): Promise<WorkflowTransition[]>;
+  findByType(type: WorkflowStatus['type'], limit?: number): Promise<WorkflowStatus[]>;
+  findByServiceKey(service: WorkflowServiceName, key: string): Promise<WorkflowStatus[]>;
+  close(): Promise<void>;
+}
+
+/**
+ * Returns the identifier a workflow is known by on a given platform:
+ * the PR/repo URL on GitHub, the issue or project key on Jira and the
+ * channel id on Slack.
+ */
+export function getServiceKey(status: WorkflowStatus, service: WorkflowServiceName): string | undefined {
+  switch (service) {
+    case 'github':
+      return status.services.github?.url;
+    case 'jira':
+      return status.services.jira?.key;
+    case 'slack':
+      return status.services.slack?.channel;
+    default:
+      return undefined;
+  }
+}
+
+export class InMemoryWorkflowStateStore implements WorkflowStateStore {
+  private workflows: Map<string, WorkflowStatus> = new Map();
+  private history: Map<string, WorkflowTransition[]> = new Map();
+
+  async initialize(): Promise<void> {
+    // Nothing to prepare for the in-memory store
+  }
+
+  async save(status: WorkflowStatus): Promise<void> {
+    const previous = this.workflows.get(status.id);
+    const snapshot = this.clone(status);
+
+    this.workflows.set(status.id, snapshot);
+
+    const transitions = this.history.get(status.id) || [];
+    transitions.push({
+      workflowId: status.id,
+      fromStatus: previous?.status,
+      toStatus: status.status,
+      services: snapshot.services,
+      recordedAt: snapshot.lastUpdated,
+    });
+    this.history.set(status.id, transitions);
+  }
+
+  async get(workflowId: string): Promise<WorkflowStatus | null> {
+    const status = this.workflows.get(workflowId);
+    return status ? this.clone(status) : null;
+  }
+
+  async getHistory(workflowId: string): Promise<WorkflowTransition[]> {
+    return [...(this.history.get(workflowId) || [])];
+  }
+
+  async findByType(type: WorkflowStatus['type'], limit = 50): Promise<WorkflowStatus[]> {
+    return [...this.workflows.values()]
+      .filter(status => status.type === type)
+      .sort((a, b) => b.lastUpdated.getTime() - a.lastUpdated.getTime())
+      .slice(0, limit)
+      .map(status => this.clone(status));
+  }
+
+  async findByServiceKey(service: WorkflowServiceName, key: string): Promise<WorkflowStatus[]> {
+    return [...this.workflows.values()]
+      .filter(status => getServiceKey(status, service) === key)
+      .map(status => this.clone(status));
+  }
+
+  async close(): Promise<void> {
+    this.workflows.clear();
+    this.history.clear();
+  }
+
+  private clone(status: WorkflowStatus): WorkflowStatus {
+    return {
+      ...status,
+      lastUpdated: new Date(status.lastUpdated),
+      services: JSON.parse(JSON.stringify(status.services)),
+    };
+  }
+}
@@ -0,0 +1,50 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+/**
+ * Verifies an `Authorization: Bearer <jwt>` header. Tokens must be HS256 JWTs
+ * signed with `JWT_SECRET`; `exp` and `nbf` are enforced when present.
+ */
+export function verifyBearerToken(
+  secret: string,
+  authorization: string | undefined,
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): boolean {
+  if (!secret || !authorization) {
+    return false;
+  }
+
+  const [, header, payload, signature] = authorization.trim().match(/^Bearer\s+([\w-]+)\.([\w-]+)\.([\w-]+)$/) || [];
+  if (!header || !payload || !signature) {
+    return false;
+  }
+
+  // Checked before parsing anything, so unsigned input never reaches JSON.parse
+  const expected = createHmac('sha256', secret).update(`${header}.${payload}`).digest();
+  const actual = Buffer.from(signature, 'base64url');
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return false;
+  }
+
+  const decodedHeader = decodeSegment(header);
+  const claims = decodeSegment(payload);
+  // The alg is signed too, but "none" and other algorithms are never accepted
+  if (decodedHeader?.alg !== 'HS256' || !claims) {
+    return false;
+  }
+  if (claims.exp !== undefined && !(typeof claims.exp === 'number' && nowSeconds < claims.exp)) {
+    return false;
+  }
+  if (claims.nbf !== undefined && !(typeof claims.nbf === 'number' && nowSeconds >= claims.nbf)) {
+    return false;
+  }
+  return true;
+}
+
+function decodeSegment(segment: string): Record<string, unknown> | null {
+  try {
+    const value: unknown = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : null;
+  } catch {
+    return null;
+  }
+}
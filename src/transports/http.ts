@@ -0,0 +1,286 @@
+import { randomUUID } from 'node:crypto';
+import { Server as HttpServer } from 'node:http';
+import express, { Express, NextFunction, Request, Response } from 'express';
+import helmet from 'helmet';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import logger from '../utils/logger.js';
+import { verifyBearerToken } from './auth.js';
+
+export interface HttpTransportConfig {
+  port: number;
+  host: string;
+  // Clients send `Authorization: Bearer <jwt>` signed with this secret
+  jwtSecret: string;
+  // Host header values accepted on MCP requests, e.g. "localhost:3000"
+  allowedHosts: string[];
+  maxSessions: number;
+  sessionIdleTimeoutMs: number;
+}
+
+interface McpSession<T> {
+  transport: T;
+  server: Server;
+  lastActivity: number;
+}
+
+// Idle sessions are looked for at least this often
+const MAX_SWEEP_INTERVAL_MS = 60000;
+
+/**
+ * Hosts the MCP server over HTTP. Every remote client gets its own MCP `Server`
+ * instance (built by `createServer`) bound to its own transport, so several
+ * clients can share one deployed orchestrator.
+ *
+ * - `POST|GET|DELETE /mcp` — streamable HTTP transport with session ids
+ * - `GET /sse` + `POST /messages?sessionId=` — legacy HTTP+SSE transport
+ * - `GET /health`, `GET /ready` — probes used by Docker and Kubernetes
+ *
+ * MCP endpoints require a bearer JWT signed with `jwtSecret` and a Host header
+ * from `allowedHosts`. At most `maxSessions` sessions are kept; one that sees
+ * no requests for `sessionIdleTimeoutMs` is closed.
+ */
+export class HttpTransportServer {
+  private app: Express;
+  private httpServer?: HttpServer;
+  private config: HttpTransportConfig;
+  private createServer: () => Server;
+  private streamableSessions: Map<string, McpSession<StreamableHTTPServerTransport>> = new Map();
+  private sseSessions: Map<string, McpSession<SSEServerTransport>> = new Map();
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(config: HttpTransportConfig, createServer: () => Server) {
+    this.config = config;
+    this.createServer = createServer;
+    this.app = express();
+    this.setupRoutes();
+  }
+
+  get application(): Express {
+    return this.app;
+  }
+
+  get sessionCount(): number {
+    return this.streamableSessions.size + this.sseSessions.size;
+  }
+
+  private setupRoutes(): void {
+    this.app.use(helmet());
+    this.app.use(express.json({ limit: '4mb' }));
+
+    this.app.get('/health', (_req, res) => {
+      res.json({ status: 'ok' });
+    });
+
+    this.app.get('/ready', (_req, res) => {
+      res.json({ status: 'ready', sessions: this.sessionCount });
+    });
+
+    const authenticate = (req: Request, res: Response, next: NextFunction) => this.authenticate(req, res, next);
+
+    this.app.post('/mcp', authenticate, (req, res) => this.handleStreamablePost(req, res));
+    this.app.get('/mcp', authenticate, (req, res) => this.handleStreamableSessionRequest(req, res));
+    this.app.delete('/mcp', authenticate, (req, res) => this.handleStreamableSessionRequest(req, res));
+
+    this.app.get('/sse', authenticate, (req, res) => this.handleSseConnect(req, res));
+    this.app.post('/messages', authenticate, (req, res) => this.handleSseMessage(req, res));
+  }
+
+  private authenticate(req: Request, res: Response, next: NextFunction): void {
+    if (!verifyBearerToken(this.config.jwtSecret, req.header('authorization'))) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      this.sendJsonRpcError(res, 401, 'Unauthorized');
+      return;
+    }
+    next();
+  }
+
+  // Both transports answer 403 when the Host header is not in allowedHosts
+  private get dnsRebindingProtection() {
+    return { enableDnsRebindingProtection: true, allowedHosts: this.config.allowedHosts };
+  }
+
+  // Makes room by closing idle sessions first
+  private hasCapacity(): boolean {
+    this.closeIdleSessions();
+    return this.sessionCount < this.config.maxSessions;
+  }
+
+  private closeIdleSessions(now: number = Date.now()): void {
+    for (const sessions of [this.streamableSessions, this.sseSessions] as Array<Map<string, McpSession<unknown>>>) {
+      for (const [sessionId, session] of sessions) {
+        if (now - session.lastActivity >= this.config.sessionIdleTimeoutMs) {
+          sessions.delete(sessionId);
+          logger.info('MCP session closed after idling', { sessionId, sessions: this.sessionCount });
+          session.server.close().catch(error => logger.warn('Failed to close idle MCP session', { sessionId, error }));
+        }
+      }
+    }
+  }
+
+  private async handleStreamablePost(req: Request, res: Response): Promise<void> {
+    const sessionId = req.header('mcp-session-id');
+
+    try {
+      const existing = sessionId ? this.streamableSessions.get(sessionId) : undefined;
+      if (existing) {
+        existing.lastActivity = Date.now();
+        await existing.transport.handleRequest(req, res, req.body);
+        return;
+      }
+
+      if (sessionId || !isInitializeRequest(req.body)) {
+        this.sendJsonRpcError(res, sessionId ? 404 : 400, sessionId ? 'Session not found' : 'Bad Request: No valid session ID provided');
+        return;
+      }
+
+      if (!this.hasCapacity()) {
+        this.sendJsonRpcError(res, 503, 'Too many sessions');
+        return;
+      }
+
+      const server = this.createServer();
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        ...this.dnsRebindingProtection,
+        onsessioninitialized: (newSessionId) => {
+          this.streamableSessions.set(newSessionId, { transport, server, lastActivity: Date.now() });
+          logger.info('MCP HTTP session opened', { sessionId: newSessionId, sessions: this.sessionCount });
+        },
+      });
+
+      transport.onclose = () => {
+        if (transport.sessionId && this.streamableSessions.delete(transport.sessionId)) {
+          logger.info('MCP HTTP session closed', { sessionId: transport.sessionId, sessions: this.sessionCount });
+        }
+      };
+
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+      // Rejected before a session started, e.g. for its Host header
+      if (!transport.sessionId) {
+        await server.close();
+      }
+    } catch (error) {
+      logger.error('Failed to handle MCP HTTP request', { sessionId, error });
+      if (!res.headersSent) {
+        this.sendJsonRpcError(res, 500, 'Internal server error');
+      }
+    }
+  }
+
+  private async handleStreamableSessionRequest(req: Request, res: Response): Promise<void> {
+    const sessionId = req.header('mcp-session-id');
+    const session = sessionId ? this.streamableSessions.get(sessionId) : undefined;
+
+    if (!session) {
+      this.sendJsonRpcError(res, sessionId ? 404 : 400, sessionId ? 'Session not found' : 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    session.lastActivity = Date.now();
+    try {
+      await session.transport.handleRequest(req, res);
+    } catch (error) {
+      logger.error('Failed to handle MCP HTTP session request', { sessionId, method: req.method, error });
+      if (!res.headersSent) {
+        this.sendJsonRpcError(res, 500, 'Internal server error');
+      }
+    }
+  }
+
+  private async handleSseConnect(req: Request, res: Response): Promise<void> {
+    // The SSE transport only checks the Host header on posted messages
+    const host = req.header('host');
+    if (!host || !this.config.allowedHosts.includes(host)) {
+      res.status(403).send('Invalid Host header');
+      return;
+    }
+    if (!this.hasCapacity()) {
+      res.status(503).send('Too many sessions');
+      return;
+    }
+
+    try {
+      const server = this.createServer();
+      const transport = new SSEServerTransport('/messages', res, this.dnsRebindingProtection);
+      const sessionId = transport.sessionId;
+
+      this.sseSessions.set(sessionId, { transport, server, lastActivity: Date.now() });
+      res.on('close', () => {
+        if (this.sseSessions.delete(sessionId)) {
+          logger.info('MCP SSE session closed', { sessionId, sessions: this.sessionCount });
+        }
+      });
+
+      await server.connect(transport);
+      logger.info('MCP SSE session opened', { sessionId, sessions: this.sessionCount });
+    } catch (error) {
+      logger.error('Failed to open MCP SSE session', { error });
+      if (!res.headersSent) {
+        res.status(500).end();
+      }
+    }
+  }
+
+  private async handleSseMessage(req: Request, res: Response): Promise<void> {
+    const sessionId = typeof req.query.sessionId === 'string' ? req.query.sessionId : undefined;
+    const session = sessionId ? this.sseSessions.get(sessionId) : undefined;
+
+    if (!session) {
+      res.status(sessionId ? 404 : 400).send(sessionId ? 'Session not found' : 'Missing sessionId');
+      return;
+    }
+
+    session.lastActivity = Date.now();
+    try {
+      await session.transport.handlePostMessage(req, res, req.body);
+    } catch (error) {
+      logger.error('Failed to handle MCP SSE message', { sessionId, error });
+      if (!res.headersSent) {
+        res.status(500).end();
+      }
+    }
+  }
+
+  private sendJsonRpcError(res: Response, status: number, message: string): void {
+    res.status(status).json({
+      jsonrpc: '2.0',
+      error: { code: -32000, message },
+      id: null,
+    });
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      const httpServer = this.app.listen(this.config.port, this.config.host, () => resolve());
+      httpServer.once('error', reject);
+      this.httpServer = httpServer;
+    });
+
+    this.sweepTimer = setInterval(() => this.closeIdleSessions(), Math.min(this.config.sessionIdleTimeoutMs, MAX_SWEEP_INTERVAL_MS));
+    this.sweepTimer.unref();
+
+    logger.info('MCP HTTP transport listening', { host: this.config.host, port: this.config.port });
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.sweepTimer);
+    this.sweepTimer = undefined;
+    const sessions = [...this.streamableSessions.values(), ...this.sseSessions.values()];
+    this.streamableSessions.clear();
+    this.sseSessions.clear();
+
+    await Promise.allSettled(sessions.map(session => session.server.close()));
+
+    if (this.httpServer) {
+      const httpServer = this.httpServer;
+      this.httpServer = undefined;
+      await new Promise<void>((resolve, reject) => {
+        httpServer.close(error => (error ? reject(error) : resolve()));
+      });
+    }
+  }
+}
@@ -1,4 +1,42 @@
 export interface Config {
+  llm: {
+    provider: 'openai' | 'azure-openai' | 'anthropic' | 'openai-compatible' | 'fake' | 'none';
+    // Prefer the MCP client's model via sampling/createMessage when the client supports it
+    sampling: boolean;
+    // Context window to budget prompts against; 0 uses the known window of the configured model
+    contextTokens: number;
+    azureOpenai: {
+      endpoint: string;
+      apiKey: string;
+      deployment: string;
+      apiVersion: string;
+    };
+    anthropic: {
+      apiKey: string;
+      model: string;
+    };
+    openaiCompatible: {
+      baseUrl: string;
+      model: string;
+      apiKey: string;
+      responseFormat: 'json_schema' | 'json_object';
+    };
+    // Applied to every prompt context before it is sent to the model
+    redaction: {
+      enabled: boolean;
+      redactNames: boolean;
+      // 0 turns entropy detection off
+      entropyThreshold: number;
+      patterns: RedactionPattern[];
+    };
+    // Model responses are cached by prompt content; see src/cache
+    cache: {
+      enabled: boolean;
+      // Redis at redis.url, falling back to memory when it cannot be reached
+      backend: 'redis' | 'memory';
+      ttlSeconds: Record<AnalysisType, number>;
+    };
+  };
   openai: {
     apiKey: string;
     model: string;
@@ -6,11 +44,21 @@ export interface Config {
   github: {
     token: string;
     organization?: string;
+    // Deployment environment used for release readiness and change-failure rate
+    productionEnvironment: string;
   };
   jira: {
     url: string;
+    // 'server' covers Jira Server and Data Center
+    deployment: 'cloud' | 'server';
     username: string;
     apiToken: string;
+    // Server/Data Center Personal Access Token, sent as a bearer token instead of basic auth
+    personalAccessToken: string;
+    // Most Jira requests in flight at once
+    maxConcurrency: number;
+    // Field ids that override discovery, e.g. { storyPoints: 'customfield_10016' }
+    fields: Partial<Record<JiraFieldKey, string>>;
   };
   slack: {
     botToken: string;
@@ -20,14 +68,34 @@ export interface Config {
   database: {
     url: string;
   };
+  workflowState: {
+    backend: 'memory' | 'postgres';
+  };
   redis: {
     url: string;
   };
   server: {
     port: number;
+    host: string;
+    transport: 'stdio' | 'http';
+    // Host header values accepted by the HTTP transport (DNS rebinding protection)
+    allowedHosts: string[];
+    maxSessions: number;
+    sessionIdleTimeoutMs: number;
     nodeEnv: string;
     logLevel: string;
   };
+  webhooks: {
+    enabled: boolean;
+    port: number;
+    githubSecret: string;
+    jiraSecret: string;
+  };
+  teams: TeamDefinition[];
+  // Manual identity links that take precedence over matching by email
+  identities: PersonIdentity[];
+  // What analyze_pr may change on pull requests, per repository
+  pullRequestActions: PullRequestActionPolicy[];
   security: {
     jwtSecret: string;
     encryptionKey: string;
@@ -41,25 +109,134 @@ export interface Config {
     threshold: number;
     resetTimeout: number;
   };
+  retry: {
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+  };
+}
+
+export type AnalysisType = 'pr_analysis' | 'code_review' | 'issue_triage' | 'release_readiness' | 'team_insights';
+
+// An extra value to redact from prompts, e.g. internal customer ids
+export interface RedactionPattern {
+  // Names the placeholder, e.g. "customer_id" becomes [CUSTOMER_ID_1]
+  name: string;
+  pattern: string;
+  flags?: string;
+}
+
+/**
+ * Something a person should know about how an analysis was produced: input
+ * text that tries to steer the model, or a model answer that contradicted the
+ * data and was overridden.
+ */
+export interface AnalysisFlag {
+  type: 'prompt_injection' | 'output_override';
+  detail: string;
+  // Where in the analysis context the text was found, e.g. "commits[2].message"
+  path?: string;
+  // The matched text with some surrounding context
+  excerpt?: string;
 }
 
 export interface PRAnalysisResult {
   summary: string;
+  // GitHub logins, best match first
   suggestedReviewers: string[];
+  // The suggested reviewers with their Jira and Slack accounts, where known
+  reviewers?: PersonIdentity[];
+  // How each suggested reviewer was scored
+  reviewerRecommendations?: ReviewerRecommendation[];
+  // The model's explanation of the ranking
+  reviewerRationale?: string;
   riskLevel: 'low' | 'medium' | 'high';
   estimatedReviewTime: number;
   topics: string[];
   relatedJiraTickets?: string[];
+  // Changed files left out of the analysis because the pull request exceeded the model's context
+  omittedFiles?: string[];
+  flags?: AnalysisFlag[];
+  // Set when actions were requested and the repository's policy allows some
+  actions?: PullRequestActionsResult;
+}
+
+/**
+ * Changes analyze_pr may make to a repository's pull requests. The most
+ * specific `repository` match wins: "owner/repo", then "owner/*", then "*".
+ */
+export interface PullRequestActionPolicy {
+  repository: string;
+  requestReviewers?: boolean;
+  // Most reviewers to request (default 2)
+  maxReviewers?: number;
+  // Adds risk:<level> and topic:<topic> labels
+  labels?: boolean;
+  // Keeps one IDWO summary comment on the pull request
+  comment?: boolean;
+  // Lets review_pr submit its findings as a pull request review
+  review?: boolean;
+}
+
+export interface PullRequestActionsResult {
+  reviewersRequested: string[];
+  labelsAdded: string[];
+  labelsRemoved: string[];
+  commentUrl?: string;
+  // Actions that failed; the others still ran
+  errors: string[];
+}
+
+export type ReviewSeverity = 'info' | 'minor' | 'major' | 'critical';
+
+export interface CodeReviewFinding {
+  path: string;
+  // New-file line the comment is anchored to; unset when the finding goes in the review body
+  line?: number;
+  severity: ReviewSeverity;
+  title: string;
+  body: string;
+  // Stable across re-runs so findings already posted are not repeated
+  fingerprint: string;
+}
+
+export interface CodeReviewResult {
+  verdict: 'COMMENT' | 'REQUEST_CHANGES';
+  summary: string;
+  // New findings at or above the minimum severity
+  findings: CodeReviewFinding[];
+  // Findings IDWO already posted on an earlier run
+  duplicates: number;
+  // Findings below the minimum severity
+  belowThreshold: number;
+  // Changed files too large to review within the model's context
+  omittedFiles?: string[];
+  flags?: AnalysisFlag[];
+  submitted: boolean;
+  reviewUrl?: string;
+}
+
+export interface ReviewerRecommendation {
+  login: string;
+  score: number;
+  // e.g. "owns 3 of 4 changed files in CODEOWNERS"
+  reasons: string[];
+  // Open pull requests in the repository already waiting on their review
+  openReviews: number;
 }
 
 export interface IssueTriageResult {
   priority: 'low' | 'medium' | 'high' | 'critical';
   category: string;
   estimatedEffort: number;
+  // Name as suggested by the model
   suggestedAssignee?: string;
+  // The suggested assignee matched to a known person
+  assignee?: PersonIdentity;
   suggestedSprint?: string;
   dependencies: string[];
   tags: string[];
+  flags?: AnalysisFlag[];
 }
 
 export interface WorkflowStatus {
@@ -74,13 +251,77 @@ export interface WorkflowStatus {
   };
 }
 
+export interface WorkflowTransition {
+  workflowId: string;
+  fromStatus?: string;
+  toStatus: string;
+  services: WorkflowStatus['services'];
+  recordedAt: Date;
+}
+
+export interface TestResults {
+  ref: string;
+  sha?: string;
+  passed: number;
+  failed: number;
+  skipped: number;
+  coverage: number; // line coverage percentage, 0 when no coverage report was found
+  suites: Array<{ name: string; passed: number; failed: number; skipped: number }>;
+  coverageReports: Array<{ name: string; format: 'lcov' | 'cobertura'; percentage: number }>;
+  checks: { total: number; passed: number; failed: number; pending: number };
+  // 'reports' when counts come from JUnit artifacts, 'checks' when only check runs were available
+  source: 'reports' | 'checks' | 'none';
+}
+
+// Jira fields whose ids differ from site to site
+export type JiraFieldKey = 'sprint' | 'storyPoints' | 'epicLink' | 'team' | 'startDate';
+
+export interface TeamDefinition {
+  name: string;
+  // Team slug in the GitHub organization; members' pull requests are counted
+  githubTeam?: string;
+  repositories: string[];
+  jiraProject?: string;
+  jiraBoardId?: number;
+  slackChannel?: string;
+}
+
+/**
+ * One person's accounts across platforms. Any id may be missing when the
+ * person has no account there or could not be matched.
+ */
+export interface PersonIdentity {
+  name?: string;
+  email?: string;
+  // GitHub login
+  github?: string;
+  // accountId on Jira Cloud, username on Server/Data Center
+  jira?: string;
+  // Slack user id, e.g. U024BE7LH
+  slack?: string;
+}
+
+export interface DeploymentMetrics {
+  environment?: string;
+  total: number;
+  successful: number;
+  failed: number;
+  changeFailureRate: number; // percentage of finished deployments that failed
+  lastSuccessfulAt?: string;
+  hoursSinceLastSuccess?: number;
+  deploymentsPerWeek: number; // successful deployments only
+}
+
 export interface ReleaseAnalysis {
   readiness: number; // 0-100 score
   blockers: Array<{ type: string; description: string; severity: 'low' | 'medium' | 'high' }>;
   testCoverage: number;
+  testResults?: TestResults;
+  deploymentMetrics?: DeploymentMetrics;
   openIssues: number;
   recommendation: 'proceed' | 'caution' | 'block';
   suggestedActions: string[];
+  flags?: AnalysisFlag[];
 }
 
 export interface TeamInsights {
@@ -100,17 +341,50 @@ export interface TeamInsights {
     deploymentFrequency: number;
     cycleTime: number;
   };
+  deploymentMetrics?: DeploymentMetrics;
+}
+
+export interface DoraSummary {
+  deploymentsPerWeek: number;
+  successfulDeployments: number;
+  // Median hours from first commit to production deploy
+  leadTimeHours: number | null;
+  leadTimeSamples: number;
+  changeFailureRate: number; // percentage of finished deployments that failed
+  failedDeployments: number;
+  // Median hours from an incident being opened to it being resolved
+  timeToRestoreHours: number | null;
+  incidents: number;
+}
+
+export interface DoraWeek {
+  weekStart: string; // Monday, UTC
+  deployments: number; // successful production deployments
+  failedDeployments: number;
+  changeFailureRate: number;
+  leadTimeHours: number | null;
+  timeToRestoreHours: number | null;
+  incidents: number;
+}
+
+export interface DoraMetrics {
+  team?: string;
+  environment: string;
+  period: { start: string; end: string; days: number };
+  summary: DoraSummary;
+  repositories: Array<{ repository: string } & Omit<DoraSummary, 'timeToRestoreHours' | 'incidents'>>;
+  weekly: DoraWeek[];
 }
 
 export class ServiceError extends Error {
-  public service: 'github' | 'jira' | 'slack' | 'openai';
+  public service: 'github' | 'jira' | 'slack' | 'llm';
   public statusCode?: number;
   public retryable: boolean;
 
   constructor(
     message: string,
     options: {
-      service: 'github' | 'jira' | 'slack' | 'openai';
+      service: 'github' | 'jira' | 'slack' | 'llm';
       statusCode?: number;
       retryable: boolean;
     }
@@ -0,0 +1,391 @@
+/**
+ * Conversion between Atlassian Document Format (Jira Cloud rich text) and
+ * Markdown. Covers the nodes Jira produces for descriptions, comments and
+ * worklogs; unknown nodes keep their text so nothing the model should see
+ * is dropped.
+ */
+
+export interface AdfNode {
+  type?: string;
+  text?: string;
+  attrs?: Record<string, any>;
+  marks?: Array<{ type: string; attrs?: Record<string, any> }>;
+  content?: AdfNode[];
+}
+
+export interface AdfDocument {
+  type: 'doc';
+  version: 1;
+  content: AdfNode[];
+}
+
+const INLINE_TYPES = new Set(['text', 'hardBreak', 'mention', 'emoji', 'inlineCard', 'status', 'date', 'mediaInline']);
+
+// ADF → Markdown
+
+export function adfToMarkdown(document: AdfNode | string | null | undefined): string {
+  if (!document) {
+    return '';
+  }
+  if (typeof document === 'string') {
+    return document;
+  }
+  return renderBlocks(document.content || [], '').trim();
+}
+
+function renderBlocks(nodes: AdfNode[], indent: string): string {
+  return nodes
+    .map(node => renderBlock(node, indent))
+    .filter(block => block.length > 0)
+    .join('\n\n');
+}
+
+function renderBlock(node: AdfNode, indent: string): string {
+  const children = node.content || [];
+
+  switch (node.type) {
+    case 'paragraph':
+      return prefixLines(renderInline(children), indent);
+    case 'heading':
+      return `${indent}${'#'.repeat(Math.min(Math.max(node.attrs?.level || 1, 1), 6))} ${renderInline(children)}`;
+    case 'bulletList':
+    case 'orderedList':
+    case 'taskList':
+      return renderList(node, indent);
+    case 'codeBlock': {
+      const code = children.map(child => child.text || '').join('');
+      return prefixLines(`\`\`\`${node.attrs?.language || ''}\n${code}\n\`\`\``, indent);
+    }
+    case 'blockquote':
+      return prefixLines(renderBlocks(children, ''), `${indent}> `);
+    case 'panel':
+      return prefixLines(`**${capitalize(node.attrs?.panelType || 'info')}:** ${renderBlocks(children, '')}`, `${indent}> `);
+    case 'rule':
+      return `${indent}---`;
+    case 'table':
+      return renderTable(node, indent);
+    case 'expand':
+    case 'nestedExpand':
+      return [node.attrs?.title ? `${indent}**${node.attrs.title}**` : '', renderBlocks(children, indent)].filter(Boolean).join('\n\n');
+    case 'blockCard':
+    case 'embedCard':
+      return node.attrs?.url ? `${indent}<${node.attrs.url}>` : '';
+    case 'mediaSingle':
+    case 'mediaGroup':
+      return children.map(child => `${indent}[attachment${child.attrs?.alt ? `: ${child.attrs.alt}` : ''}]`).join('\n');
+    case 'decisionList':
+      return children.map(child => `${indent}- Decision: ${renderInline(child.content || [])}`).join('\n');
+    default:
+      if (node.text !== undefined || INLINE_TYPES.has(node.type || '')) {
+        return prefixLines(renderInline([node]), indent);
+      }
+      // Untyped or unknown containers: keep whatever text they hold
+      return children.some(child => child.type && !INLINE_TYPES.has(child.type))
+        ? renderBlocks(children, indent)
+        : prefixLines(renderInline(children), indent);
+  }
+}
+
+function renderList(node: AdfNode, indent: string): string {
+  const start = node.attrs?.order || 1;
+
+  return (node.content || []).map((item, index) => {
+    const marker = node.type === 'orderedList'
+      ? `${start + index}.`
+      : node.type === 'taskList' ? `- [${item.attrs?.state === 'DONE' ? 'x' : ' '}]` : '-';
+    const nested = `${indent}${' '.repeat(marker.length + 1)}`;
+    const itemChildren = item.content || [];
+
+    // Task items hold inline content directly; list items hold blocks
+    if (item.type === 'taskItem' || itemChildren.every(child => INLINE_TYPES.has(child.type || 'text'))) {
+      return `${indent}${marker} ${renderInline(itemChildren).replace(/\n/g, `\n${nested}`)}`;
+    }
+
+    const [first, ...rest] = itemChildren;
+    const head = first && first.type === 'paragraph' ? renderInline(first.content || []).replace(/\n/g, `\n${nested}`) : '';
+    const body = renderBlocks(first && first.type === 'paragraph' ? rest : itemChildren, nested);
+    return [`${indent}${marker} ${head}`.trimEnd(), body].filter(Boolean).join('\n');
+  }).join('\n');
+}
+
+function renderTable(node: AdfNode, indent: string): string {
+  const rows = (node.content || []).map(row => (row.content || []).map(cell => (
+    renderBlocks(cell.content || [], '').replace(/\n+/g, ' ').replace(/\|/g, '\\|')
+  )));
+  if (rows.length === 0) {
+    return '';
+  }
+
+  const width = Math.max(...rows.map(row => row.length));
+  const line = (cells: string[]) => `${indent}| ${Array.from({ length: width }, (_, i) => cells[i] || '').join(' | ')} |`;
+  const [header = [], ...body] = rows;
+  return [line(header), line(Array(width).fill('---')), ...body.map(line)].join('\n');
+}
+
+function renderInline(nodes: AdfNode[]): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'hardBreak':
+        return '\n';
+      case 'mention':
+        return `@${(node.attrs?.text || node.attrs?.id || 'unknown').replace(/^@/, '')}`;
+      case 'emoji':
+        return node.attrs?.text || node.attrs?.shortName || '';
+      case 'inlineCard':
+        return node.attrs?.url ? `<${node.attrs.url}>` : '';
+      case 'status':
+        return `[${node.attrs?.text || ''}]`;
+      case 'date':
+        return node.attrs?.timestamp ? new Date(Number(node.attrs.timestamp)).toISOString().slice(0, 10) : '';
+      case 'mediaInline':
+        return '[attachment]';
+      default:
+        return node.text !== undefined ? applyMarks(node.text, node.marks || []) : renderInline(node.content || []);
+    }
+  }).join('');
+}
+
+function applyMarks(text: string, marks: NonNullable<AdfNode['marks']>): string {
+  // Code spans cannot carry other formatting in Markdown
+  if (marks.some(mark => mark.type === 'code')) {
+    const link = marks.find(mark => mark.type === 'link');
+    const code = `\`${text}\``;
+    return link?.attrs?.href ? `[${code}](${link.attrs.href})` : code;
+  }
+
+  return marks.reduce((result, mark) => {
+    switch (mark.type) {
+      case 'strong':
+        return `**${result}**`;
+      case 'em':
+        return `*${result}*`;
+      case 'strike':
+        return `~~${result}~~`;
+      case 'link':
+        if (!mark.attrs?.href) {
+          return result;
+        }
+        return result === mark.attrs.href ? `<${result}>` : `[${result}](${mark.attrs.href})`;
+      default:
+        return result;
+    }
+  }, text);
+}
+
+function prefixLines(text: string, prefix: string): string {
+  return prefix ? text.split('\n').map(line => `${prefix}${line}`.trimEnd()).join('\n') : text;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+// Markdown → ADF
+
+const FENCE = /^\s*```\s*([\w+#.-]*)\s*$/;
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(\[[ xX]\]\s+)?(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+
+/**
+ * Parses the Markdown subset IDWO writes (headings, paragraphs, nested
+ * lists, task lists, code blocks, quotes, rules, bold, italics, strike,
+ * code spans and links) into an ADF document. Single newlines inside a
+ * paragraph become hard breaks.
+ */
+export function markdownToAdf(markdown: string): AdfDocument {
+  return { type: 'doc', version: 1, content: parseBlocks(markdown.replace(/\r\n?/g, '\n').split('\n')) };
+}
+
+function parseBlocks(lines: string[]): AdfNode[] {
+  const blocks: AdfNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i] ?? '';
+
+    if (line.trim() === '') {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i] ?? '')) {
+        code.push(lines[i] ?? '');
+        i++;
+      }
+      i++; // closing fence
+      blocks.push({
+        type: 'codeBlock',
+        ...(fence[1] ? { attrs: { language: fence[1] } } : {}),
+        content: code.length > 0 ? [{ type: 'text', text: code.join('\n') }] : [],
+      });
+      continue;
+    }
+
+    const [, hashes, title] = line.match(HEADING) || [];
+    if (hashes && title !== undefined) {
+      blocks.push({ type: 'heading', attrs: { level: hashes.length }, content: parseInline(title.trim()) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      let quote: RegExpMatchArray | null;
+      while (i < lines.length && (quote = (lines[i] ?? '').match(QUOTE))) {
+        quoted.push(quote[1] ?? '');
+        i++;
+      }
+      blocks.push({ type: 'blockquote', content: parseBlocks(quoted) });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const end = findListEnd(lines, i);
+      blocks.push(...parseList(lines.slice(i, end)));
+      i = end;
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    for (let next = line; i < lines.length && next.trim() !== '' && !startsBlock(next); next = lines[i] ?? '') {
+      paragraph.push(next.trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', content: joinWithBreaks(paragraph.map(text => parseInline(text))) });
+  }
+
+  return blocks;
+}
+
+function startsBlock(line: string): boolean {
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+}
+
+/**
+ * A list runs until a blank line followed by unindented non-list text, or
+ * another block type at the left margin.
+ */
+function findListEnd(lines: string[], start: number): number {
+  let i = start;
+  while (i < lines.length) {
+    const line = lines[i] ?? '';
+    if (line.trim() === '') {
+      const next = lines[i + 1];
+      if (next === undefined || !(LIST_ITEM.test(next) || /^\s+\S/.test(next))) {
+        return i;
+      }
+    } else if (i > start && !LIST_ITEM.test(line) && !/^\s/.test(line) && startsBlock(line)) {
+      return i;
+    }
+    i++;
+  }
+  return i;
+}
+
+function parseList(lines: string[]): AdfNode[] {
+  const lists: AdfNode[] = [];
+  const baseIndent = (lines[0] ?? '').search(/\S|$/);
+  let current: AdfNode | undefined;
+  let itemLines: string[] = [];
+  let itemMatch: RegExpMatchArray | undefined;
+
+  const flushItem = () => {
+    if (!current || !itemMatch) {
+      return;
+    }
+    const [, , , task, text] = itemMatch;
+    const nestedLines = itemLines.map(line => line.slice(Math.min(line.search(/\S|$/), baseIndent + 2)));
+    const nested = nestedLines.some(line => line.trim() !== '') ? parseBlocks(nestedLines) : [];
+
+    const items = current.content ?? (current.content = []);
+    if (current.type === 'taskList') {
+      items.push({
+        type: 'taskItem',
+        attrs: { localId: `task-${items.length + 1}`, state: /x/i.test(task || '') ? 'DONE' : 'TODO' },
+        content: parseInline(text || ''),
+      });
+    } else {
+      items.push({ type: 'listItem', content: [{ type: 'paragraph', content: parseInline(text || '') }, ...nested] });
+    }
+  };
+
+  for (const line of lines) {
+    const match = line.match(LIST_ITEM);
+    const [, itemIndent = '', bullet = '', task] = match || [];
+    if (match && itemIndent.length <= baseIndent) {
+      flushItem();
+      const type = task ? 'taskList' : /\d/.test(bullet) ? 'orderedList' : 'bulletList';
+      if (!current || current.type !== type) {
+        current = type === 'orderedList'
+          ? { type, attrs: { order: parseInt(bullet, 10) || 1 }, content: [] }
+          : type === 'taskList' ? { type, attrs: { localId: `tasks-${lists.length + 1}` }, content: [] } : { type, content: [] };
+        lists.push(current);
+      }
+      itemMatch = match;
+      itemLines = [];
+    } else {
+      itemLines.push(line);
+    }
+  }
+  flushItem();
+
+  return lists;
+}
+
+function joinWithBreaks(lines: AdfNode[][]): AdfNode[] {
+  return lines.flatMap((line, index) => (index === 0 ? line : [{ type: 'hardBreak' }, ...line]));
+}
+
+const INLINE_PATTERN = /(`+)([^`]+?)\1|\*\*(.+?)\*\*|__(.+?)__|~~(.+?)~~|\*(?!\s)(.+?)\*|(?<![\w])_(?!\s)(.+?)_(?![\w])|\[([^\]]+)\]\(([^)\s]+)\)|<(https?:\/\/[^>\s]+)>|(https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"])/;
+
+function parseInline(text: string, marks: NonNullable<AdfNode['marks']> = []): AdfNode[] {
+  const nodes: AdfNode[] = [];
+  let rest = text;
+
+  while (rest.length > 0) {
+    const match = rest.match(INLINE_PATTERN);
+    if (!match || match.index === undefined) {
+      nodes.push(textNode(rest, marks));
+      break;
+    }
+    if (match.index > 0) {
+      nodes.push(textNode(rest.slice(0, match.index), marks));
+    }
+
+    const [whole, , code, strong, strongAlt, strike, em, emAlt, linkText, linkHref, autolink, bareUrl] = match;
+    if (code !== undefined) {
+      nodes.push(textNode(code, [...marks, { type: 'code' }]));
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      nodes.push(...parseInline(strong ?? strongAlt ?? '', [...marks, { type: 'strong' }]));
+    } else if (strike !== undefined) {
+      nodes.push(...parseInline(strike, [...marks, { type: 'strike' }]));
+    } else if (em !== undefined || emAlt !== undefined) {
+      nodes.push(...parseInline(em ?? emAlt ?? '', [...marks, { type: 'em' }]));
+    } else if (linkText !== undefined && linkHref !== undefined) {
+      nodes.push(...parseInline(linkText, [...marks, { type: 'link', attrs: { href: linkHref } }]));
+    } else {
+      const url = autolink ?? bareUrl ?? whole;
+      nodes.push(textNode(url, [...marks, { type: 'link', attrs: { href: url } }]));
+    }
+
+    rest = rest.slice(match.index + whole.length);
+  }
+
+  return nodes.filter(node => node.text !== '');
+}
+
+function textNode(text: string, marks: NonNullable<AdfNode['marks']>): AdfNode {
+  return marks.length > 0 ? { type: 'text', text, marks } : { type: 'text', text };
+}
@@ -0,0 +1,72 @@
+/**
+ * Parses GitHub CODEOWNERS files. Patterns follow GitHub's subset of
+ * gitignore syntax and the last matching rule wins.
+ */
+
+export interface CodeOwnersRule {
+  pattern: string;
+  // '@login', '@org/team-slug' or an email address; empty when the rule removes ownership
+  owners: string[];
+  matcher: RegExp;
+}
+
+// Where GitHub looks for the file, in order
+export const CODEOWNERS_PATHS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'];
+
+export function parseCodeOwners(content: string): CodeOwnersRule[] {
+  const rules: CodeOwnersRule[] = [];
+
+  for (const line of content.split(/\r?\n/)) {
+    const trimmed = line.replace(/(^|\s)#.*$/, '').trim();
+    if (!trimmed) {
+      continue;
+    }
+    const [rawPattern = '', ...owners] = trimmed.split(/\s+/);
+    const pattern = rawPattern.replace(/^\\#/, '#');
+    rules.push({ pattern, owners, matcher: patternToRegExp(pattern) });
+  }
+
+  return rules;
+}
+
+/**
+ * Owners of a repository path, from the last rule that matches it.
+ */
+export function findCodeOwners(rules: CodeOwnersRule[], path: string): string[] {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    const rule = rules[i];
+    if (rule && rule.matcher.test(path)) {
+      return rule.owners;
+    }
+  }
+  return [];
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  // A leading or inner slash anchors the pattern to the repository root
+  const anchored = pattern.replace(/\/$/, '').includes('/');
+  const directory = pattern.endsWith('/');
+  const body = pattern.replace(/^\//, '').replace(/\/$/, '');
+
+  let source = '';
+  for (let i = 0; i < body.length; i++) {
+    const char = body.charAt(i);
+    if (char === '*' && body.charAt(i + 1) === '*') {
+      const slash = body.charAt(i + 2) === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  // A plain name also covers everything below it, but a wildcard in the last
+  // segment only matches at that level (docs/* does not own docs/a/b.md)
+  const lastSegment = body.slice(body.lastIndexOf('/') + 1);
+  const end = directory ? '/' : lastSegment.includes('*') ? '$' : '(?:/|$)';
+  return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}${end}`);
+}
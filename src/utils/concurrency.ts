@@ -0,0 +1,40 @@
+/**
+ * Caps how many async tasks run at once. Tasks over the limit wait and start
+ * in the order they were submitted.
+ */
+export class ConcurrencyLimiter {
+  private limit: number;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(limit: number) {
+    this.limit = Math.max(1, Math.floor(limit) || 1);
+  }
+
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await fn();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    // Hand the slot straight to the next waiter so nothing can jump the queue
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { DeploymentInfo } from '../integrations/github.js';
+import { DeploymentMetrics } from '../types/index.js';
+
+const FAILED_DEPLOYMENT_STATES = new Set(['failure', 'error']);
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Summarises deployments into change-failure rate and deployment frequency
+ * over the last `windowDays`, plus time since the last good deploy (which may
+ * fall outside the window). Only finished deployments (success, failure or
+ * error) count towards the failure rate, and only successful ones towards
+ * the frequency, as in the DORA summary.
+ */
+export function calculateDeploymentMetrics(
+  deployments: DeploymentInfo[],
+  options: { environment?: string; windowDays: number; now?: Date }
+): DeploymentMetrics {
+  const now = options.now ?? new Date();
+  const relevant = options.environment
+    ? deployments.filter(deployment => deployment.environment === options.environment)
+    : deployments;
+  const windowStart = now.getTime() - options.windowDays * DAY_MS;
+  const inWindow = relevant.filter(deployment => new Date(deployment.createdAt).getTime() >= windowStart);
+
+  const successful = inWindow.filter(deployment => deployment.state === 'success').length;
+  const failed = inWindow.filter(deployment => FAILED_DEPLOYMENT_STATES.has(deployment.state)).length;
+
+  const lastSuccessfulAt = relevant
+    .filter(deployment => deployment.state === 'success')
+    .map(deployment => deployment.finishedAt || deployment.createdAt)
+    .sort()
+    .pop();
+
+  return {
+    environment: options.environment,
+    total: inWindow.length,
+    successful,
+    failed,
+    changeFailureRate: successful + failed > 0 ? Math.round((failed / (successful + failed)) * 1000) / 10 : 0,
+    lastSuccessfulAt,
+    hoursSinceLastSuccess: lastSuccessfulAt
+      ? Math.round(((now.getTime() - new Date(lastSuccessfulAt).getTime()) / HOUR_MS) * 10) / 10
+      : undefined,
+    deploymentsPerWeek: options.windowDays > 0 ? Math.round((successful / (options.windowDays / 7)) * 10) / 10 : 0,
+  };
+}
+
+/**
+ * Hours from creating a deployment to it reaching a final state, or null
+ * while it is still running.
+ */
+export function deploymentDurationHours(deployment: DeploymentInfo): number | null {
+  if (!deployment.finishedAt) {
+    return null;
+  }
+  return Math.round(((new Date(deployment.finishedAt).getTime() - new Date(deployment.createdAt).getTime()) / HOUR_MS) * 10) / 10;
+}
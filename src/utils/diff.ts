@@ -0,0 +1,102 @@
+/**
+ * Reads the unified diff `patch` GitHub returns for each pull request file.
+ * Review comments can only be anchored to lines that appear in it, so line
+ * numbers are always checked against the parsed hunks.
+ */
+
+export interface DiffLine {
+  type: 'add' | 'delete' | 'context';
+  content: string;
+  // Line in the old file; unset for added lines
+  oldLine?: number;
+  // Line in the new file; unset for deleted lines
+  newLine?: number;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  header: string;
+  lines: DiffLine[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+export function parsePatch(patch: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | undefined;
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const line of patch.split('\n')) {
+    const header = HUNK_HEADER.exec(line);
+    if (header) {
+      current = {
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newLines: header[4] === undefined ? 1 : Number(header[4]),
+        header: line,
+        lines: [],
+      };
+      hunks.push(current);
+      oldLine = current.oldStart;
+      newLine = current.newStart;
+      continue;
+    }
+    // Text before the first hunk and "\ No newline at end of file" markers
+    if (!current || line.startsWith('\\')) {
+      continue;
+    }
+
+    const marker = line.charAt(0);
+    const content = line.slice(1);
+    if (marker === '+') {
+      current.lines.push({ type: 'add', content, newLine: newLine++ });
+    } else if (marker === '-') {
+      current.lines.push({ type: 'delete', content, oldLine: oldLine++ });
+    } else if (marker === ' ' || line === '') {
+      // A trailing newline in the patch leaves an empty last line that is not part of the hunk
+      if (line === '' && oldLine >= current.oldStart + current.oldLines && newLine >= current.newStart + current.newLines) {
+        continue;
+      }
+      current.lines.push({ type: 'context', content, oldLine: oldLine++, newLine: newLine++ });
+    }
+  }
+
+  return hunks;
+}
+
+/**
+ * New-file lines a review comment can be placed on (added and context lines),
+ * with their content.
+ */
+export function commentableLines(patch: string): Map<number, string> {
+  const lines = new Map<number, string>();
+  for (const hunk of parsePatch(patch)) {
+    for (const line of hunk.lines) {
+      if (line.newLine !== undefined) {
+        lines.set(line.newLine, line.content);
+      }
+    }
+  }
+  return lines;
+}
+
+/**
+ * The patch with each added and context line prefixed by its new-file line
+ * number, so the model can cite lines that exist. Deleted lines get a blank
+ * gutter because they cannot be commented on.
+ */
+export function numberPatch(patch: string): string {
+  const hunks = parsePatch(patch);
+  const width = String(Math.max(0, ...hunks.map(hunk => hunk.newStart + hunk.newLines))).length;
+  const markers = { add: '+', delete: '-', context: ' ' };
+
+  return hunks.map(hunk => [
+    hunk.header,
+    ...hunk.lines.map(line => `${(line.newLine === undefined ? '' : String(line.newLine)).padStart(width)} ${markers[line.type]}${line.content}`),
+  ].join('\n')).join('\n');
+}
@@ -0,0 +1,124 @@
+import { DeploymentState } from '../integrations/github.js';
+import { DoraMetrics, DoraSummary, DoraWeek } from '../types/index.js';
+
+export interface DoraDeployment {
+  repository: string;
+  createdAt: string;
+  state: DeploymentState;
+  // Hours from the first undeployed commit to this deployment succeeding
+  leadTimeHours?: number | null;
+}
+
+export interface DoraIncident {
+  key: string;
+  created: string;
+  resolvedAt: string;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+const FAILED_DEPLOYMENT_STATES = new Set<DeploymentState>(['failure', 'error']);
+
+/**
+ * Computes the four DORA metrics for deployments created and incidents
+ * resolved within [start, end), overall, per repository and per week.
+ * Deployments are expected to be production deployments only.
+ */
+export function calculateDoraMetrics(input: {
+  deployments: DoraDeployment[];
+  incidents: DoraIncident[];
+  start: Date;
+  end: Date;
+}): Pick<DoraMetrics, 'summary' | 'repositories' | 'weekly'> {
+  const inRange = (date: string) => {
+    const time = new Date(date).getTime();
+    return time >= input.start.getTime() && time < input.end.getTime();
+  };
+  const deployments = input.deployments.filter(deployment => inRange(deployment.createdAt));
+  const incidents = input.incidents.filter(incident => inRange(incident.resolvedAt));
+  const weeks = Math.max((input.end.getTime() - input.start.getTime()) / WEEK_MS, 1 / 7);
+
+  const repositories = [...new Set(deployments.map(deployment => deployment.repository))].sort();
+
+  return {
+    summary: summarize(deployments, incidents, weeks),
+    repositories: repositories.map(repository => ({
+      repository,
+      ...summarizeDeployments(deployments.filter(deployment => deployment.repository === repository), weeks),
+    })),
+    weekly: weekStarts(input.start, input.end).map(weekStart => {
+      const inWeek = (date: string) => startOfWeek(new Date(date)) === weekStart;
+      const summary = summarize(
+        deployments.filter(deployment => inWeek(deployment.createdAt)),
+        incidents.filter(incident => inWeek(incident.resolvedAt)),
+        1
+      );
+      const week: DoraWeek = {
+        weekStart,
+        deployments: summary.successfulDeployments,
+        failedDeployments: summary.failedDeployments,
+        changeFailureRate: summary.changeFailureRate,
+        leadTimeHours: summary.leadTimeHours,
+        timeToRestoreHours: summary.timeToRestoreHours,
+        incidents: summary.incidents,
+      };
+      return week;
+    }),
+  };
+}
+
+/**
+ * Monday 00:00 UTC of the week containing `date`, as an ISO date.
+ */
+export function startOfWeek(date: Date): string {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day.toISOString().slice(0, 10);
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const upper = sorted[Math.floor(sorted.length / 2)] ?? 0;
+  const lower = sorted[Math.ceil(sorted.length / 2) - 1] ?? 0;
+  const value = (lower + upper) / 2;
+  return Math.round(value * 10) / 10;
+}
+
+function summarize(deployments: DoraDeployment[], incidents: DoraIncident[], weeks: number): DoraSummary {
+  const restoreTimes = incidents.map(incident => (new Date(incident.resolvedAt).getTime() - new Date(incident.created).getTime()) / HOUR_MS);
+
+  return {
+    ...summarizeDeployments(deployments, weeks),
+    timeToRestoreHours: median(restoreTimes),
+    incidents: incidents.length,
+  };
+}
+
+function summarizeDeployments(deployments: DoraDeployment[], weeks: number): Omit<DoraSummary, 'timeToRestoreHours' | 'incidents'> {
+  const successful = deployments.filter(deployment => deployment.state === 'success');
+  const failed = deployments.filter(deployment => FAILED_DEPLOYMENT_STATES.has(deployment.state)).length;
+  const leadTimes = successful
+    .map(deployment => deployment.leadTimeHours)
+    .filter((hours): hours is number => typeof hours === 'number');
+
+  return {
+    deploymentsPerWeek: Math.round((successful.length / weeks) * 10) / 10,
+    successfulDeployments: successful.length,
+    leadTimeHours: median(leadTimes),
+    leadTimeSamples: leadTimes.length,
+    changeFailureRate: successful.length + failed > 0 ? Math.round((failed / (successful.length + failed)) * 1000) / 10 : 0,
+    failedDeployments: failed,
+  };
+}
+
+function weekStarts(start: Date, end: Date): string[] {
+  const weeks: string[] = [];
+  for (let cursor = new Date(`${startOfWeek(start)}T00:00:00Z`); cursor.getTime() < end.getTime(); cursor = new Date(cursor.getTime() + WEEK_MS)) {
+    weeks.push(cursor.toISOString().slice(0, 10));
+  }
+  return weeks;
+}
@@ -0,0 +1,113 @@
+import { AnalysisFlag } from '../types/index.js';
+
+/**
+ * Spots text in pull requests, commits and issues that addresses the model
+ * instead of describing the work: "ignore previous instructions", fake role
+ * markers, requests for a particular rating. Matches are only reported; the
+ * text is still analyzed, inside the prompt's untrusted data block.
+ */
+
+interface InjectionRule {
+  detail: string;
+  pattern: RegExp;
+}
+
+// Zero-width and bidirectional control characters hide text from human reviewers
+const INVISIBLE = /[\u200B\u2060-\u2064\u202A-\u202E\u2066-\u2069]/;
+
+const RULES: InjectionRule[] = [
+  {
+    detail: 'Tells the model to ignore its instructions',
+    // Only instructions that point back at the prompt, so "ignore the rules for generated files" passes
+    pattern: /\b(?:ignore|disregard|forget)\s+(?:(?:all|any)\s+(?:of\s+)?)?(?:(?:the|your)\s+)?(?:previous|prior|above|earlier|preceding|system)\s+(?:instructions?|prompts?|rules)\b|\b(?:ignore|disregard|forget)\s+(?:all|your)\s+(?:instructions|prompts?)\b/i,
+  },
+  {
+    detail: 'Tries to give the model a new role',
+    pattern: /\byou\s+are\s+now\b|\bpretend\s+(?:to\s+be|you\s+are)\b|\b(?:developer|jailbreak|DAN)\s+mode\b|\bnew\s+(?:system\s+)?instructions\s*:/i,
+  },
+  {
+    detail: 'Asks for the system prompt',
+    pattern: /\b(?:reveal|print|show|repeat|leak)\s+(?:me\s+)?(?:your|the)\s+(?:system\s+prompt|hidden\s+prompt|instructions)\b/i,
+  },
+  {
+    detail: 'Contains chat role markers',
+    pattern: /<\|(?:im_start|im_end|system|user|assistant|endoftext)\|>|\[\/?INST\]|<<\/?SYS>>|<\/?(?:system|assistant)>|^\s*#{0,3}\s*(?:system|assistant)\s+(?:prompt|message|instructions?)\s*:/im,
+  },
+  {
+    detail: 'Imitates the prompt\'s data markers',
+    pattern: /UNTRUSTED_DATA/i,
+  },
+  {
+    detail: 'Asks for a particular rating',
+    pattern: /\b(?:rate|mark|classify|score|assess|label|treat|consider)\s+(?:this|it|the)(?:\s+(?:pr|pull\s+request|change|issue|release))?\s+(?:as\s+)?(?:a\s+)?(?:low|no|zero|minimal|high|critical)[\s-](?:risk|priority)\b|\byou\s+(?:must|should|will)\s+approve\b/i,
+  },
+  {
+    detail: 'Contains invisible or bidirectional control characters',
+    pattern: INVISIBLE,
+  },
+];
+
+const MAX_FLAGS = 20;
+const EXCERPT_CONTEXT = 30;
+const MAX_EXCERPT_LENGTH = 120;
+
+/**
+ * Checks every string in an analysis context. Paths use the same form as the
+ * redaction audit, e.g. "commits[2].message"; each rule is reported at most
+ * once per string.
+ */
+export function detectInjection(value: unknown): AnalysisFlag[] {
+  const flags: AnalysisFlag[] = [];
+
+  const walk = (node: unknown, path: string): void => {
+    if (flags.length >= MAX_FLAGS) {
+      return;
+    }
+    if (typeof node === 'string') {
+      for (const rule of RULES) {
+        const match = rule.pattern.exec(node);
+        if (match && flags.length < MAX_FLAGS) {
+          flags.push({ type: 'prompt_injection', detail: rule.detail, ...(path ? { path } : {}), excerpt: excerpt(node, match.index, match[0].length) });
+        }
+      }
+    } else if (Array.isArray(node)) {
+      node.forEach((item, index) => walk(item, `${path}[${index}]`));
+    } else if (node && typeof node === 'object') {
+      Object.entries(node).forEach(([key, child]) => walk(child, path ? `${path}.${key}` : key));
+    }
+  };
+
+  walk(value, '');
+  return flags;
+}
+
+/**
+ * Combines flag lists, dropping repeats of the same finding at the same place.
+ */
+export function mergeFlags(...lists: Array<AnalysisFlag[] | undefined>): AnalysisFlag[] {
+  const seen = new Set<string>();
+  return lists.flatMap(list => list || []).filter(flag => {
+    const key = `${flag.type}\u0000${flag.path ?? ''}\u0000${flag.detail}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+// One line for comments people read; excerpts stay out so attacker text is not reposted
+export function describeFlag(flag: AnalysisFlag): string {
+  return `${flag.detail}${flag.path ? ` (in \`${flag.path}\`)` : ''}`;
+}
+
+function excerpt(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - EXCERPT_CONTEXT);
+  const end = Math.min(text.length, index + length + EXCERPT_CONTEXT);
+  const visible = text.slice(start, end)
+    .replace(new RegExp(INVISIBLE.source, 'g'), char => `\\u${char.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')}`)
+    .replace(/\s+/g, ' ')
+    .trim();
+  const clipped = visible.length > MAX_EXCERPT_LENGTH ? `${visible.slice(0, MAX_EXCERPT_LENGTH - 1)}…` : visible;
+  return `${start > 0 ? '…' : ''}${clipped}${end < text.length && visible.length <= MAX_EXCERPT_LENGTH ? '…' : ''}`;
+}
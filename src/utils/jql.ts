@@ -0,0 +1,152 @@
+/**
+ * Builds JQL from typed clauses so values taken from issue text, config or
+ * tool arguments are always quoted and escaped and can never change the
+ * shape of a query.
+ */
+
+export type JqlValue = string | number | Date;
+export type JqlOperator = '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+export interface JqlClause {
+  readonly jql: string;
+  // Set on AND/OR groups so they are parenthesised when nested
+  readonly join?: 'AND' | 'OR';
+}
+
+export interface JqlOrder {
+  field: string;
+  direction?: 'ASC' | 'DESC';
+}
+
+// Words JQL treats as keywords; field names matching them must be quoted
+const RESERVED_WORDS = new Set([
+  'a', 'after', 'an', 'and', 'are', 'as', 'asc', 'at', 'be', 'before', 'but', 'by', 'changed', 'desc', 'during',
+  'empty', 'for', 'from', 'if', 'in', 'into', 'is', 'it', 'no', 'not', 'null', 'of', 'on', 'or', 'order', 'such',
+  'that', 'the', 'their', 'then', 'there', 'these', 'they', 'this', 'to', 'was', 'will', 'with',
+]);
+const PLAIN_FIELD = /^(?:[A-Za-z][A-Za-z0-9_]*|cf\[\d+\])$/;
+// Characters the text-search (~) operator reads as Lucene syntax
+const TEXT_SEARCH_SPECIAL = /[+\-&|!(){}[\]^~*?\\:"/]/g;
+
+/**
+ * Quotes a string literal, escaping backslashes and double quotes.
+ */
+export function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Renders a value: numbers as-is, dates as "yyyy-mm-dd" and everything else
+ * as a quoted string, so reserved words and functions are never interpreted.
+ */
+export function jqlValue(value: JqlValue): string {
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Invalid JQL number: ${value}`);
+    }
+    return String(value);
+  }
+  if (value instanceof Date) {
+    return quote(value.toISOString().slice(0, 10));
+  }
+  return quote(value);
+}
+
+export function jqlField(name: string): string {
+  return PLAIN_FIELD.test(name) && !RESERVED_WORDS.has(name.toLowerCase()) ? name : quote(name);
+}
+
+export function compare(field: string, operator: JqlOperator, value: JqlValue): JqlClause {
+  return { jql: `${jqlField(field)} ${operator} ${jqlValue(value)}` };
+}
+
+export function eq(field: string, value: JqlValue): JqlClause {
+  return compare(field, '=', value);
+}
+
+export function notEq(field: string, value: JqlValue): JqlClause {
+  return compare(field, '!=', value);
+}
+
+export function inList(field: string, values: JqlValue[]): JqlClause {
+  return { jql: `${jqlField(field)} IN ${valueList(values)}` };
+}
+
+export function notInList(field: string, values: JqlValue[]): JqlClause {
+  return { jql: `${jqlField(field)} NOT IN ${valueList(values)}` };
+}
+
+export function isEmpty(field: string): JqlClause {
+  return { jql: `${jqlField(field)} IS EMPTY` };
+}
+
+/**
+ * Text search (`~`). Lucene operators in `text` are escaped, so the words
+ * are matched literally rather than read as wildcards or boolean syntax.
+ */
+export function contains(field: string, text: string): JqlClause {
+  return { jql: `${jqlField(field)} ~ ${quote(text.replace(TEXT_SEARCH_SPECIAL, '\\$&'))}` };
+}
+
+export function changedTo(field: string, values: JqlValue[], options: { after?: JqlValue } = {}): JqlClause {
+  const after = options.after !== undefined ? ` AFTER ${jqlValue(options.after)}` : '';
+  return { jql: `${jqlField(field)} CHANGED TO ${valueList(values)}${after}` };
+}
+
+export function and(...clauses: Array<JqlClause | undefined>): JqlClause {
+  return group('AND', clauses);
+}
+
+export function or(...clauses: Array<JqlClause | undefined>): JqlClause {
+  return group('OR', clauses);
+}
+
+export function not(clause: JqlClause): JqlClause {
+  return { jql: `NOT ${parenthesize(clause)}` };
+}
+
+/**
+ * Wraps JQL that was written by an operator, such as a configured incident
+ * query, so it can be combined with built clauses. It is parenthesised and
+ * must not carry its own ORDER BY.
+ */
+export function raw(jql: string): JqlClause {
+  const trimmed = jql.trim();
+  if (!trimmed) {
+    throw new Error('JQL must not be empty');
+  }
+  if (/\border\s+by\b/i.test(trimmed.replace(/"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'/g, '""'))) {
+    throw new Error('JQL passed into a query must not contain ORDER BY');
+  }
+  return { jql: `(${trimmed})` };
+}
+
+/**
+ * Renders a clause with an optional ORDER BY.
+ */
+export function buildJql(clause: JqlClause, orderBy: JqlOrder[] = []): string {
+  const order = orderBy.map(item => `${jqlField(item.field)}${item.direction ? ` ${item.direction}` : ''}`).join(', ');
+  return [clause.jql, order && `ORDER BY ${order}`].filter(Boolean).join(' ');
+}
+
+function valueList(values: JqlValue[]): string {
+  if (values.length === 0) {
+    throw new Error('IN needs at least one value');
+  }
+  return `(${values.map(jqlValue).join(', ')})`;
+}
+
+function group(join: 'AND' | 'OR', clauses: Array<JqlClause | undefined>): JqlClause {
+  const present = clauses.filter((clause): clause is JqlClause => clause !== undefined);
+  if (present.length === 0) {
+    throw new Error(`${join} needs at least one clause`);
+  }
+  if (present.length === 1 && present[0]) {
+    return present[0];
+  }
+  return { jql: present.map(clause => (clause.join && clause.join !== join ? parenthesize(clause) : clause.jql)).join(` ${join} `), join };
+}
+
+function parenthesize(clause: JqlClause): string {
+  return clause.join ? `(${clause.jql})` : clause.jql;
+}
@@ -0,0 +1,206 @@
+import { estimateTokens, truncateToTokens } from './tokens.js';
+
+/**
+ * Fits a pull request's changed files into prompt-sized groups. Lock files,
+ * generated code and vendored dependencies are reduced to a one-line summary,
+ * the rest is ordered riskiest first so that when patches have to be cut,
+ * the least interesting ones go.
+ */
+
+export type FileKind = 'source' | 'test' | 'docs' | 'lockfile' | 'generated' | 'vendor';
+
+export interface ChangedFile {
+  filename: string;
+  status?: string;
+  additions: number;
+  deletions: number;
+  patch?: string;
+}
+
+export interface PromptFile {
+  filename: string;
+  status?: string;
+  additions: number;
+  deletions: number;
+  patch?: string;
+  // Replaces the patch of lock, generated and vendored files
+  summary?: string;
+  // Set when the patch was cut to fit the budget
+  truncated?: boolean;
+}
+
+export interface PackedFiles {
+  groups: PromptFile[][];
+  // Files left out entirely once the group limit was reached, riskiest first
+  omitted: PromptFile[];
+}
+
+const LOCKFILE = /(?:^|\/)(?:package-lock\.json|npm-shrinkwrap\.json|yarn\.lock|pnpm-lock\.yaml|bun\.lockb?|Cargo\.lock|go\.sum|poetry\.lock|Pipfile\.lock|uv\.lock|Gemfile\.lock|composer\.lock|packages\.lock\.json|gradle\.lockfile)$/;
+const VENDOR = /(?:^|\/)(?:vendor|node_modules|third[_-]party|bower_components)\//;
+const GENERATED = /(?:^|\/)(?:dist|build|__generated__|generated)\/|\.min\.(?:js|css)$|\.map$|\.snap$|\.pb\.go$|_pb2(?:_grpc)?\.py$|\.generated\.\w+$|\.g\.dart$|\.designer\.cs$/;
+// Markers code generators leave at the top of their output
+const GENERATED_HEADER = /@generated|DO NOT EDIT|auto-?generated/i;
+const TEST = /(?:^|\/)(?:__tests__|tests?|spec)\/|\.(?:test|spec)\.\w+$|_test\.(?:go|py)$/;
+const DOCS = /\.(?:md|mdx|rst|adoc|txt)$|(?:^|\/)docs?\//;
+
+// Path words whose changes deserve attention regardless of size. Whole words
+// only, so "AuthorCard.tsx" is not authentication and "tokens.ts" is not security.
+const SENSITIVE_AREAS: Array<{ area: string; words: string[] }> = [
+  { area: 'authentication', words: ['auth', 'authn', 'authz', 'authentication', 'authorization', 'oauth', 'oauth2', 'jwt', 'session', 'sessions', 'login', 'password', 'passwords', 'permission', 'permissions', 'acl', 'acls', 'rbac'] },
+  { area: 'security', words: ['security', 'crypto', 'cryptography', 'encryption', 'secret', 'secrets', 'credential', 'credentials'] },
+  { area: 'payments', words: ['payment', 'payments', 'billing'] },
+  { area: 'webhooks', words: ['webhook', 'webhooks'] },
+  { area: 'database migrations', words: ['migration', 'migrations', 'migrate'] },
+];
+const SQL_FILE = /\.sql$/i;
+const INFRASTRUCTURE = /(?:^|\/)(?:Dockerfile|docker-compose[^/]*|\.github\/workflows\/.*|terraform\/.*|.*\.tf|helm\/.*|k8s\/.*|\.env[^/]*)$/i;
+const KIND_WEIGHT: Record<FileKind, number> = { source: 1, test: 0.5, docs: 0.3, lockfile: 0, generated: 0, vendor: 0 };
+
+// Package names on changed lines of the common lock file formats
+const LOCKFILE_PACKAGE_PATTERNS = [
+  /^[+-]\s*"node_modules\/((?:@[^/"]+\/)?[^/"]+)":/,
+  /^[+-]"?((?:@[^@/\s"]+\/)?[^@\s",]+)@[^:]*:$/,
+  /^[+-]\s{2}'?\/?((?:@[^@/\s']+\/)?[^@/\s':]+)[@/]\d/,
+  /^[+-]name = "([^"]+)"$/,
+  /^[+-](\S+) v[\d.]+\S*(?:\/go\.mod)? h1:/,
+  /^[+-]\s{4}([\w.-]+) \(/,
+];
+const MAX_SUMMARY_PACKAGES = 15;
+
+export function classifyFile(file: ChangedFile): FileKind {
+  if (LOCKFILE.test(file.filename)) {
+    return 'lockfile';
+  }
+  if (VENDOR.test(file.filename)) {
+    return 'vendor';
+  }
+  if (GENERATED.test(file.filename) || GENERATED_HEADER.test(firstLines(file.patch, 5))) {
+    return 'generated';
+  }
+  if (TEST.test(file.filename)) {
+    return 'test';
+  }
+  return DOCS.test(file.filename) ? 'docs' : 'source';
+}
+
+/**
+ * Higher is riskier: sensitive and infrastructure paths, deletions and large
+ * changes rank up; tests and docs rank down; summarized files rank last.
+ */
+export function riskScore(file: ChangedFile): number {
+  const size = Math.log2(1 + file.additions + file.deletions);
+  const path = (pathAreas(file.filename).length > 0 ? 8 : 0) + (INFRASTRUCTURE.test(file.filename) ? 5 : 0);
+  const removed = file.status === 'removed' ? 2 : 0;
+  return (size + path + removed) * KIND_WEIGHT[classifyFile(file)];
+}
+
+/**
+ * Sensitive areas, plus infrastructure, that a pull request's source files
+ * touch. Tests and docs about them do not count. Used to check the model's
+ * risk rating against the paths actually changed.
+ */
+export function sensitiveAreas(files: ChangedFile[]): string[] {
+  const areas = new Set<string>();
+  for (const file of files.filter(file => classifyFile(file) === 'source')) {
+    pathAreas(file.filename).forEach(area => areas.add(area));
+    if (INFRASTRUCTURE.test(file.filename)) {
+      areas.add('infrastructure');
+    }
+  }
+  return [...areas];
+}
+
+/**
+ * Summarizes lock, generated and vendored files and orders the rest riskiest
+ * first.
+ */
+export function prepareFiles(files: ChangedFile[]): PromptFile[] {
+  return files
+    .map(file => ({ file, score: riskScore(file) }))
+    .sort((a, b) => b.score - a.score || a.file.filename.localeCompare(b.file.filename))
+    .map(({ file }) => {
+      const kind = classifyFile(file);
+      const base = { filename: file.filename, status: file.status, additions: file.additions, deletions: file.deletions };
+      return ['lockfile', 'generated', 'vendor'].includes(kind)
+        ? { ...base, summary: summarizeFile(file, kind) }
+        : { ...base, patch: file.patch };
+    });
+}
+
+/**
+ * Packs files, in order, into at most `maxGroups` groups of about
+ * `budgetTokens` each. A patch too large for a group on its own is cut to
+ * fit; files that do not fit in any group are returned as omitted.
+ */
+export function packFiles(files: PromptFile[], budgetTokens: number, model: string, maxGroups: number): PackedFiles {
+  const groups: PromptFile[][] = [];
+  const omitted: PromptFile[] = [];
+  let current: PromptFile[] = [];
+  let used = 0;
+
+  for (const original of files) {
+    let file = original;
+    let cost = estimateTokens(JSON.stringify(file), model);
+    if (cost > budgetTokens && file.patch) {
+      const overhead = estimateTokens(JSON.stringify({ ...file, patch: '', truncated: true }), model);
+      file = { ...file, patch: truncateToTokens(file.patch, Math.max(0, budgetTokens - overhead), model), truncated: true };
+      cost = estimateTokens(JSON.stringify(file), model);
+    }
+
+    if (used + cost > budgetTokens && current.length > 0) {
+      groups.push(current);
+      current = [];
+      used = 0;
+    }
+    if (groups.length >= maxGroups) {
+      omitted.push(file);
+      continue;
+    }
+    current.push(file);
+    used += cost;
+  }
+  if (current.length > 0 && groups.length < maxGroups) {
+    groups.push(current);
+  }
+
+  return { groups, omitted };
+}
+
+function pathAreas(filename: string): string[] {
+  const words = pathWords(filename);
+  return SENSITIVE_AREAS
+    .filter(({ area, words: areaWords }) => areaWords.some(word => words.has(word)) || (area === 'database migrations' && SQL_FILE.test(filename)))
+    .map(({ area }) => area);
+}
+
+// Lowercase words split at separators and camelCase humps: "src/JWTSessionStore.ts" is src, jwt, session, store, ts
+function pathWords(filename: string): Set<string> {
+  const split = filename.replace(/([a-z\d])([A-Z])/g, '$1 $2').replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2');
+  return new Set(split.toLowerCase().split(/[^a-z\d]+/).filter(word => word.length > 0));
+}
+
+function summarizeFile(file: ChangedFile, kind: FileKind): string {
+  const lines = `+${file.additions}/-${file.deletions} lines`;
+  if (kind !== 'lockfile') {
+    return `${kind === 'vendor' ? 'Vendored dependency' : 'Generated file'}, ${lines}; contents not reviewed`;
+  }
+
+  const packages = new Set<string>();
+  for (const line of (file.patch || '').split('\n')) {
+    for (const pattern of LOCKFILE_PACKAGE_PATTERNS) {
+      const name = pattern.exec(line)?.[1];
+      if (name) {
+        packages.add(name);
+        break;
+      }
+    }
+  }
+  const names = [...packages].sort();
+  const listed = names.slice(0, MAX_SUMMARY_PACKAGES).join(', ');
+  const more = names.length > MAX_SUMMARY_PACKAGES ? ` and ${names.length - MAX_SUMMARY_PACKAGES} more` : '';
+  return `Lock file, ${lines}${names.length > 0 ? `; packages changed: ${listed}${more}` : ''}`;
+}
+
+function firstLines(patch: string | undefined, count: number): string {
+  return (patch || '').split('\n').slice(0, count + 1).join('\n');
+}
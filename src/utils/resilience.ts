@@ -0,0 +1,355 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import logger from './logger.js';
+import { ServiceError } from '../types/index.js';
+
+export type ServiceName = ServiceError['service'];
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerConfig {
+  timeout: number;
+  threshold: number;
+  resetTimeout: number;
+}
+
+export interface RetryConfig {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface CircuitBreakerSnapshot {
+  service: ServiceName;
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalFailures: number;
+  totalSuccesses: number;
+  lastFailureAt?: string;
+  lastError?: string;
+  openedAt?: string;
+  nextAttemptAt?: string;
+}
+
+export interface ExecuteOptions {
+  timeoutMs?: number;
+  retries?: number;
+}
+
+const abortContext = new AsyncLocalStorage<AbortSignal>();
+
+/**
+ * Signal of the attempt currently running under `ResiliencePolicy.execute`.
+ * Clients that cannot be handed a signal per call read it from a request
+ * hook, so a timed-out attempt is cancelled before the next one starts.
+ */
+export function currentAbortSignal(): AbortSignal | undefined {
+  return abortContext.getStore();
+}
+
+export interface ResiliencePolicyOptions {
+  circuitBreaker: CircuitBreakerConfig;
+  retry: RetryConfig;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+  now?: () => number;
+}
+
+export class CircuitOpenError extends ServiceError {
+  public nextAttemptAt: Date;
+
+  constructor(service: ServiceName, nextAttemptAt: Date) {
+    super(`Circuit breaker for ${service} is open; next attempt after ${nextAttemptAt.toISOString()}`, {
+      service,
+      retryable: false,
+    });
+    this.name = 'CircuitOpenError';
+    this.nextAttemptAt = nextAttemptAt;
+  }
+}
+
+// Socket and DNS failures, plus Slack's wrappers for network errors and rate limits
+const RETRYABLE_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EPIPE',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'slack_webapi_request_error',
+  'slack_webapi_rate_limited_error',
+]);
+
+// The OpenAI and Anthropic SDKs report network failures with these, without a status
+const CONNECTION_ERROR_NAMES = new Set(['APIConnectionError', 'APIConnectionTimeoutError']);
+
+/**
+ * Decides whether a failure is worth retrying. `ServiceError`s carry their own
+ * decision; raw SDK errors are retried for 5xx, 408 and 429 statuses and for
+ * network error codes. Anything else, such as a model refusal, fails at once.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof CircuitOpenError) {
+    return false;
+  }
+
+  if (error instanceof ServiceError) {
+    return error.retryable;
+  }
+
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return status >= 500 || status === 408 || status === 429;
+  }
+
+  // Fetch-based clients put the socket error in `cause`
+  let current: unknown = error;
+  for (let depth = 0; depth < 5 && typeof current === 'object' && current !== null; depth++) {
+    const { code, cause } = current as { code?: unknown; cause?: unknown };
+    if (RETRYABLE_ERROR_CODES.has(String(code)) || CONNECTION_ERROR_NAMES.has(current.constructor.name)) {
+      return true;
+    }
+    current = cause;
+  }
+
+  return false;
+}
+
+export function getErrorStatus(error: unknown): number | undefined {
+  if (typeof error !== 'object' || error === null) {
+    return undefined;
+  }
+
+  const candidate = (error as any).status ?? (error as any).statusCode ?? (error as any).response?.status;
+  return typeof candidate === 'number' ? candidate : undefined;
+}
+
+export class CircuitBreaker {
+  private service: ServiceName;
+  private config: CircuitBreakerConfig;
+  private now: () => number;
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private totalFailures = 0;
+  private totalSuccesses = 0;
+  private openedAt?: number;
+  private lastFailureAt?: number;
+  private lastError?: string;
+  private halfOpenTrialInFlight = false;
+
+  constructor(service: ServiceName, config: CircuitBreakerConfig, now: () => number = Date.now) {
+    this.service = service;
+    this.config = config;
+    this.now = now;
+  }
+
+  getState(): CircuitState {
+    if (this.state === 'open' && this.openedAt !== undefined && this.now() - this.openedAt >= this.config.resetTimeout) {
+      this.state = 'half_open';
+      this.halfOpenTrialInFlight = false;
+      logger.info('Circuit breaker half-open', { service: this.service });
+    }
+    return this.state;
+  }
+
+  /**
+   * Throws `CircuitOpenError` when the call must not go through. In the
+   * half-open state only a single trial call is let through at a time.
+   */
+  acquire(): void {
+    const state = this.getState();
+
+    if (state === 'open') {
+      throw new CircuitOpenError(this.service, new Date((this.openedAt || this.now()) + this.config.resetTimeout));
+    }
+
+    if (state === 'half_open') {
+      if (this.halfOpenTrialInFlight) {
+        throw new CircuitOpenError(this.service, new Date(this.now() + this.config.resetTimeout));
+      }
+      this.halfOpenTrialInFlight = true;
+    }
+  }
+
+  recordSuccess(): void {
+    this.totalSuccesses++;
+    this.consecutiveFailures = 0;
+    this.halfOpenTrialInFlight = false;
+
+    if (this.state !== 'closed') {
+      logger.info('Circuit breaker closed', { service: this.service });
+    }
+    this.state = 'closed';
+    this.openedAt = undefined;
+  }
+
+  recordFailure(error: unknown): void {
+    this.totalFailures++;
+    this.consecutiveFailures++;
+    this.lastFailureAt = this.now();
+    this.lastError = error instanceof Error ? error.message : String(error);
+    this.halfOpenTrialInFlight = false;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.config.threshold) {
+      if (this.state !== 'open') {
+        logger.warn('Circuit breaker opened', {
+          service: this.service,
+          consecutiveFailures: this.consecutiveFailures,
+          lastError: this.lastError,
+        });
+      }
+      this.state = 'open';
+      this.openedAt = this.now();
+    }
+  }
+
+  /**
+   * Releases a half-open trial slot for a call that failed in a way that says
+   * nothing about the service's health (e.g. a 404).
+   */
+  releaseTrial(): void {
+    this.halfOpenTrialInFlight = false;
+  }
+
+  getSnapshot(): CircuitBreakerSnapshot {
+    const state = this.getState();
+
+    return {
+      service: this.service,
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      totalFailures: this.totalFailures,
+      totalSuccesses: this.totalSuccesses,
+      lastFailureAt: this.lastFailureAt !== undefined ? new Date(this.lastFailureAt).toISOString() : undefined,
+      lastError: this.lastError,
+      openedAt: this.openedAt !== undefined ? new Date(this.openedAt).toISOString() : undefined,
+      nextAttemptAt: state === 'open' && this.openedAt !== undefined
+        ? new Date(this.openedAt + this.config.resetTimeout).toISOString()
+        : undefined,
+    };
+  }
+}
+
+/**
+ * Shared retry + circuit breaker layer used by every external integration.
+ * Retryable failures are retried with full-jitter exponential backoff and
+ * count towards the per-service breaker; non-retryable failures (4xx,
+ * validation errors) are surfaced immediately and leave the breaker alone.
+ */
+export class ResiliencePolicy {
+  private options: ResiliencePolicyOptions;
+  private breakers: Map<ServiceName, CircuitBreaker> = new Map();
+  private sleep: (ms: number) => Promise<void>;
+  private random: () => number;
+
+  constructor(options: ResiliencePolicyOptions) {
+    this.options = options;
+    this.sleep = options.sleep || ((ms) => new Promise(resolve => setTimeout(resolve, ms)));
+    this.random = options.random || Math.random;
+  }
+
+  async execute<T>(service: ServiceName, operation: string, fn: (signal: AbortSignal) => Promise<T>, options: ExecuteOptions = {}): Promise<T> {
+    const breaker = this.getBreaker(service);
+    const maxRetries = options.retries ?? this.options.retry.maxRetries;
+    const timeoutMs = options.timeoutMs ?? this.options.circuitBreaker.timeout;
+
+    for (let attempt = 0; ; attempt++) {
+      breaker.acquire();
+
+      try {
+        const result = await this.withTimeout(service, operation, fn, timeoutMs);
+        breaker.recordSuccess();
+        return result;
+      } catch (error) {
+        const retryable = isRetryableError(error);
+
+        if (!retryable) {
+          breaker.releaseTrial();
+          throw error;
+        }
+
+        breaker.recordFailure(error);
+
+        if (attempt >= maxRetries || breaker.getState() === 'open') {
+          throw error;
+        }
+
+        const delay = this.getBackoffDelay(attempt);
+        logger.warn('Retrying failed service call', {
+          service,
+          operation,
+          attempt: attempt + 1,
+          maxRetries,
+          delayMs: delay,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  getStatus(): CircuitBreakerSnapshot[] {
+    return [...this.breakers.values()].map(breaker => breaker.getSnapshot());
+  }
+
+  getBreaker(service: ServiceName): CircuitBreaker {
+    let breaker = this.breakers.get(service);
+    if (!breaker) {
+      breaker = new CircuitBreaker(service, this.options.circuitBreaker, this.options.now);
+      this.breakers.set(service, breaker);
+    }
+    return breaker;
+  }
+
+  private getBackoffDelay(attempt: number): number {
+    const { baseDelayMs, maxDelayMs } = this.options.retry;
+    const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    return Math.round(this.random() * ceiling);
+  }
+
+  /**
+   * Runs one attempt. On timeout its signal is aborted, so the request is
+   * cancelled rather than left running next to the retry.
+   */
+  private async withTimeout<T>(service: ServiceName, operation: string, fn: (signal: AbortSignal) => Promise<T>, timeoutMs: number): Promise<T> {
+    const controller = new AbortController();
+    const attempt = () => abortContext.run(controller.signal, () => fn(controller.signal));
+
+    if (!timeoutMs || timeoutMs <= 0) {
+      return attempt();
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new ServiceError(`${service} ${operation} timed out after ${timeoutMs}ms`, {
+          service,
+          retryable: true,
+        });
+        controller.abort(error);
+        reject(error);
+      }, timeoutMs);
+    });
+
+    try {
+      return await Promise.race([attempt(), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Policy that calls straight through. Used when an integration is constructed
+ * without a shared policy, e.g. in unit tests.
+ */
+export function createPassthroughPolicy(): ResiliencePolicy {
+  return new ResiliencePolicy({
+    circuitBreaker: { timeout: 0, threshold: Number.MAX_SAFE_INTEGER, resetTimeout: 0 },
+    retry: { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0 },
+  });
+}
@@ -0,0 +1,177 @@
+import { unzipSync } from 'fflate';
+
+export type TestReportFormat = 'lcov' | 'cobertura' | 'junit';
+
+export interface CoverageReport {
+  name: string;
+  format: 'lcov' | 'cobertura';
+  percentage: number;
+  // Zero when the report only carries a rate
+  linesCovered: number;
+  linesValid: number;
+}
+
+export interface TestSuiteReport {
+  name: string;
+  passed: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface ParsedReports {
+  coverage: CoverageReport[];
+  suites: TestSuiteReport[];
+}
+
+/**
+ * Picks a parser from the file name, falling back to sniffing the content for
+ * files with generic names such as `report.xml`.
+ */
+export function detectReportFormat(fileName: string, content: string): TestReportFormat | null {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.info') || name.endsWith('.lcov')) {
+    return 'lcov';
+  }
+  if (!name.endsWith('.xml')) {
+    return null;
+  }
+
+  const head = content.slice(0, 2000);
+  if (/<coverage\b[^>]*line-rate=/.test(head)) {
+    return 'cobertura';
+  }
+  if (/<testsuites?\b/.test(head)) {
+    return 'junit';
+  }
+  return null;
+}
+
+export function parseLcov(name: string, content: string): CoverageReport {
+  let linesCovered = 0;
+  let linesValid = 0;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (line.startsWith('LH:')) {
+      linesCovered += parseInt(line.slice(3), 10) || 0;
+    } else if (line.startsWith('LF:')) {
+      linesValid += parseInt(line.slice(3), 10) || 0;
+    }
+  }
+
+  return { name, format: 'lcov', percentage: toPercentage(linesCovered, linesValid), linesCovered, linesValid };
+}
+
+export function parseCobertura(name: string, content: string): CoverageReport {
+  const root = parseAttributes(content.match(/<coverage\b([^>]*)>/)?.[1] || '');
+  const linesValid = parseInt(root['lines-valid'] || '', 10);
+  const linesCovered = parseInt(root['lines-covered'] || '', 10);
+
+  if (Number.isFinite(linesValid) && Number.isFinite(linesCovered)) {
+    return { name, format: 'cobertura', percentage: toPercentage(linesCovered, linesValid), linesCovered, linesValid };
+  }
+
+  // Older Cobertura writers only emit the rate
+  const lineRate = parseFloat(root['line-rate'] || '0') || 0;
+  return { name, format: 'cobertura', percentage: Math.round(lineRate * 1000) / 10, linesCovered: 0, linesValid: 0 };
+}
+
+/**
+ * Reads the per-suite counts of a JUnit XML report. Only `<testsuite>`
+ * elements are read, so `<testsuites>` totals are not added twice.
+ */
+export function parseJUnit(content: string): TestSuiteReport[] {
+  const suites: TestSuiteReport[] = [];
+
+  for (const match of content.matchAll(/<testsuite\b([^>]*?)\/?>/g)) {
+    const attributes = parseAttributes(match[1] || '');
+    const tests = parseInt(attributes.tests || '0', 10) || 0;
+    const failed = (parseInt(attributes.failures || '0', 10) || 0) + (parseInt(attributes.errors || '0', 10) || 0);
+    const skipped = (parseInt(attributes.skipped || '0', 10) || 0) + (parseInt(attributes.disabled || '0', 10) || 0);
+
+    suites.push({
+      name: attributes.name || `suite-${suites.length + 1}`,
+      passed: Math.max(0, tests - failed - skipped),
+      failed,
+      skipped,
+    });
+  }
+
+  return suites;
+}
+
+export function parseReport(fileName: string, content: string): ParsedReports {
+  switch (detectReportFormat(fileName, content)) {
+    case 'lcov':
+      return { coverage: [parseLcov(fileName, content)], suites: [] };
+    case 'cobertura':
+      return { coverage: [parseCobertura(fileName, content)], suites: [] };
+    case 'junit':
+      return { coverage: [], suites: parseJUnit(content) };
+    default:
+      return { coverage: [], suites: [] };
+  }
+}
+
+// Limits on unzipped sizes, since a small artifact can inflate to gigabytes
+const MAX_REPORT_FILE_BYTES = 10 * 1024 * 1024;
+const MAX_UNZIPPED_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Parses every recognised report inside a zipped Actions artifact. Reports
+ * larger than 10 MB unzipped are skipped, as are any beyond 50 MB in total.
+ */
+export function parseArtifactArchive(archive: Uint8Array): ParsedReports {
+  let unzippedBytes = 0;
+  const files = unzipSync(archive, {
+    filter: file => {
+      if (!/\.(info|lcov|xml)$/i.test(file.name)
+        || file.originalSize > MAX_REPORT_FILE_BYTES
+        || unzippedBytes + file.originalSize > MAX_UNZIPPED_BYTES) {
+        return false;
+      }
+      unzippedBytes += file.originalSize;
+      return true;
+    },
+  });
+  const decoder = new TextDecoder();
+  const result: ParsedReports = { coverage: [], suites: [] };
+
+  for (const [fileName, data] of Object.entries(files)) {
+    const parsed = parseReport(fileName, decoder.decode(data));
+    result.coverage.push(...parsed.coverage);
+    result.suites.push(...parsed.suites);
+  }
+
+  return result;
+}
+
+/**
+ * Line coverage across all reports, weighted by line count when every report
+ * has one and averaged otherwise.
+ */
+export function combinedCoverage(reports: CoverageReport[]): number {
+  if (reports.length === 0) {
+    return 0;
+  }
+  if (reports.every(report => report.linesValid > 0)) {
+    return toPercentage(
+      reports.reduce((sum, report) => sum + report.linesCovered, 0),
+      reports.reduce((sum, report) => sum + report.linesValid, 0)
+    );
+  }
+  return Math.round((reports.reduce((sum, report) => sum + report.percentage, 0) / reports.length) * 10) / 10;
+}
+
+function toPercentage(covered: number, valid: number): number {
+  return valid > 0 ? Math.round((covered / valid) * 1000) / 10 : 0;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, doubleQuoted, singleQuoted] of source.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    if (name) {
+      attributes[name] = doubleQuoted ?? singleQuoted ?? '';
+    }
+  }
+  return attributes;
+}
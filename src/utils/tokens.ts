@@ -0,0 +1,60 @@
+/**
+ * Token estimates for sizing prompts. No tokenizer is bundled, so text is
+ * split the way BPE tokenizers tend to split it (words, numbers in groups of
+ * three, single punctuation marks, whitespace runs) and scaled per model
+ * family. The estimate errs on the high side so budgets stay safe.
+ */
+
+interface ModelProfile {
+  pattern: RegExp;
+  contextTokens: number;
+  // Tokens this family produces relative to the split below
+  tokenRatio: number;
+}
+
+// First match wins, so more specific names come first
+const MODEL_PROFILES: ModelProfile[] = [
+  { pattern: /claude/i, contextTokens: 200000, tokenRatio: 1.15 },
+  { pattern: /gpt-4\.1|gpt-5/i, contextTokens: 400000, tokenRatio: 1 },
+  { pattern: /gpt-4o|gpt-4-turbo|^o\d/i, contextTokens: 128000, tokenRatio: 1 },
+  { pattern: /gpt-4-32k/i, contextTokens: 32768, tokenRatio: 1.1 },
+  { pattern: /gpt-4/i, contextTokens: 8192, tokenRatio: 1.1 },
+  { pattern: /gpt-3\.5/i, contextTokens: 16385, tokenRatio: 1.1 },
+  { pattern: /llama-?3\.[1-3]|qwen2\.5|mistral-(?:large|nemo)/i, contextTokens: 128000, tokenRatio: 1.1 },
+];
+// Azure deployments, local models and MCP clients whose model is not known up front
+const DEFAULT_PROFILE: Omit<ModelProfile, 'pattern'> = { contextTokens: 16000, tokenRatio: 1.2 };
+// Long words and identifiers split into pieces of roughly this many characters
+const CHARS_PER_WORD_PIECE = 4;
+const PIECES = /[A-Za-z]+|\d{1,3}|\s+|[^\sA-Za-z\d]/g;
+
+export function getModelProfile(model: string): Omit<ModelProfile, 'pattern'> {
+  const profile = MODEL_PROFILES.find(entry => entry.pattern.test(model));
+  return profile ? { contextTokens: profile.contextTokens, tokenRatio: profile.tokenRatio } : DEFAULT_PROFILE;
+}
+
+export function estimateTokens(text: string, model: string): number {
+  let pieces = 0;
+  for (const match of text.matchAll(PIECES)) {
+    const piece = match[0];
+    pieces += /^[A-Za-z]/.test(piece) ? Math.ceil(piece.length / CHARS_PER_WORD_PIECE) : 1;
+  }
+  return Math.ceil(pieces * getModelProfile(model).tokenRatio);
+}
+
+/**
+ * Cuts text to about `maxTokens`, keeping the start. Returns the text
+ * unchanged when it already fits.
+ */
+export function truncateToTokens(text: string, maxTokens: number, model: string): string {
+  const total = estimateTokens(text, model);
+  if (total <= maxTokens) {
+    return text;
+  }
+  // Cut proportionally, then trim further in case the kept part is denser than average
+  let end = Math.floor(text.length * (maxTokens / total));
+  while (end > 0 && estimateTokens(text.slice(0, end), model) > maxTokens) {
+    end = Math.floor(end * 0.9);
+  }
+  return text.slice(0, end);
+}
@@ -0,0 +1,91 @@
+import { AdfNode, markdownToAdf } from './adf.js';
+
+/**
+ * Renders Markdown as Jira wiki markup, the rich-text format of Jira Server
+ * and Data Center. Markdown is parsed with the same parser used for ADF, so
+ * both flavors support the same subset.
+ */
+export function markdownToWikiMarkup(markdown: string): string {
+  return renderBlocks(markdownToAdf(markdown).content);
+}
+
+function renderBlocks(nodes: AdfNode[]): string {
+  return nodes.map(renderBlock).filter(block => block.length > 0).join('\n\n');
+}
+
+function renderBlock(node: AdfNode): string {
+  const children = node.content || [];
+
+  switch (node.type) {
+    case 'heading':
+      return `h${node.attrs?.level || 1}. ${renderInline(children, ' ')}`;
+    case 'bulletList':
+    case 'orderedList':
+    case 'taskList':
+      return renderList(node, '');
+    case 'codeBlock': {
+      const tag = node.attrs?.language ? `{code:${node.attrs.language}}` : '{code}';
+      return `${tag}\n${children.map(child => child.text || '').join('')}\n{code}`;
+    }
+    case 'blockquote':
+      return `{quote}\n${renderBlocks(children)}\n{quote}`;
+    case 'rule':
+      return '----';
+    default:
+      return renderInline(children, '\n');
+  }
+}
+
+function renderList(node: AdfNode, parentMarker: string): string {
+  const marker = `${parentMarker}${node.type === 'orderedList' ? '#' : '*'}`;
+
+  return (node.content || []).map(item => {
+    const children = item.content || [];
+    if (item.type === 'taskItem') {
+      return `${marker} ${item.attrs?.state === 'DONE' ? '(/) ' : ''}${renderInline(children, ' \\\\ ')}`;
+    }
+
+    const [first, ...rest] = children;
+    const head = first?.type === 'paragraph' ? renderInline(first.content || [], ' \\\\ ') : '';
+    const nested = (first?.type === 'paragraph' ? rest : children).map(child => (
+      child.type === 'bulletList' || child.type === 'orderedList' || child.type === 'taskList'
+        ? renderList(child, marker)
+        : renderBlock(child)
+    ));
+    return [`${marker} ${head}`.trimEnd(), ...nested].join('\n');
+  }).join('\n');
+}
+
+// List items end at a newline, so hard breaks inside them use the wiki line break
+function renderInline(nodes: AdfNode[], lineBreak: string): string {
+  return nodes.map(node => {
+    if (node.type === 'hardBreak') {
+      return lineBreak;
+    }
+    if (node.text === undefined) {
+      return renderInline(node.content || [], lineBreak);
+    }
+
+    const marks = node.marks || [];
+    const code = marks.some(mark => mark.type === 'code');
+    const link = marks.find(mark => mark.type === 'link')?.attrs?.href;
+    let text = code ? `{{${node.text}}}` : escapeText(node.text);
+    for (const mark of marks) {
+      if (mark.type === 'strong') {
+        text = `*${text}*`;
+      } else if (mark.type === 'em') {
+        text = `_${text}_`;
+      } else if (mark.type === 'strike') {
+        text = `-${text}-`;
+      }
+    }
+    if (link) {
+      return node.text === link ? `[${link}]` : `[${text}|${link}]`;
+    }
+    return text;
+  }).join('');
+}
+
+function escapeText(text: string): string {
+  return text.replace(/[[\]{}*_|^~+\\]/g, '\\$&');
+}
@@ -0,0 +1,151 @@
+import logger from '../utils/logger.js';
+import { SlackIntegration } from '../integrations/slack.js';
+import { WorkflowOrchestrator } from '../workflows/orchestrator.js';
+import { slackMention } from '../workflows/identity.js';
+
+export type WebhookEvent =
+  | {
+      source: 'github';
+      type: 'pull_request.opened' | 'pull_request.ready_for_review';
+      deliveryId: string;
+      owner: string;
+      repo: string;
+      pullNumber: number;
+    }
+  | {
+      source: 'jira';
+      type: 'jira:issue_created';
+      deliveryId: string;
+      issueKey: string;
+    }
+  | {
+      source: 'slack';
+      type: 'app_mention';
+      deliveryId: string;
+      channel: string;
+      threadTs: string;
+      text: string;
+    };
+
+const PR_URL_PATTERN = /https:\/\/github\.com\/([\w.-]+)\/([\w.-]+)\/pull\/(\d+)/g;
+const JIRA_KEY_PATTERN = /\b[A-Z][A-Z0-9]+-\d+\b/g;
+// Keeps a single chatty mention from fanning out into many analyses
+const MAX_MENTION_TARGETS = 3;
+
+/**
+ * Maps a GitHub delivery onto a WebhookEvent. Returns null for events and
+ * actions nothing reacts to, including draft pull requests.
+ */
+export function normalizeGitHubEvent(eventName: string, deliveryId: string, payload: any): WebhookEvent | null {
+  if (eventName !== 'pull_request' || !payload?.pull_request || payload.pull_request.draft) {
+    return null;
+  }
+  if (payload.action !== 'opened' && payload.action !== 'ready_for_review') {
+    return null;
+  }
+
+  return {
+    source: 'github',
+    type: payload.action === 'opened' ? 'pull_request.opened' : 'pull_request.ready_for_review',
+    deliveryId,
+    owner: payload.repository.owner.login,
+    repo: payload.repository.name,
+    pullNumber: payload.pull_request.number,
+  };
+}
+
+export function normalizeJiraEvent(deliveryId: string, payload: any): WebhookEvent | null {
+  if (payload?.webhookEvent !== 'jira:issue_created' || !payload.issue?.key) {
+    return null;
+  }
+  return { source: 'jira', type: 'jira:issue_created', deliveryId, issueKey: payload.issue.key };
+}
+
+/**
+ * Maps a Slack Events API callback onto a WebhookEvent. Mentions posted by
+ * bots (including our own replies) are ignored to avoid loops.
+ */
+export function normalizeSlackEvent(payload: any): WebhookEvent | null {
+  const event = payload?.event;
+  if (payload?.type !== 'event_callback' || event?.type !== 'app_mention' || event.bot_id) {
+    return null;
+  }
+  return {
+    source: 'slack',
+    type: 'app_mention',
+    deliveryId: payload.event_id,
+    channel: event.channel,
+    threadTs: event.thread_ts || event.ts,
+    text: event.text || '',
+  };
+}
+
+/**
+ * Runs the workflow that corresponds to a verified, normalized webhook event.
+ */
+export class WebhookDispatcher {
+  private orchestrator: WorkflowOrchestrator;
+  private slack: SlackIntegration;
+
+  constructor(orchestrator: WorkflowOrchestrator, slack: SlackIntegration) {
+    this.orchestrator = orchestrator;
+    this.slack = slack;
+  }
+
+  async dispatch(event: WebhookEvent): Promise<void> {
+    logger.info('Dispatching webhook event', { source: event.source, type: event.type, deliveryId: event.deliveryId });
+
+    switch (event.source) {
+      case 'github':
+        await this.orchestrator.analyzePR({
+          owner: event.owner,
+          repo: event.repo,
+          pull_number: event.pullNumber,
+          include_jira_context: true,
+          apply_actions: true,
+        });
+        break;
+      case 'jira':
+        await this.orchestrator.smartTriage({ issue_key: event.issueKey });
+        break;
+      case 'slack':
+        await this.handleMention(event);
+        break;
+    }
+  }
+
+  private async handleMention(event: Extract<WebhookEvent, { source: 'slack' }>): Promise<void> {
+    const pullRequests = [...event.text.matchAll(PR_URL_PATTERN)]
+      .flatMap(([, owner, repo, pullNumber]) => owner && repo && pullNumber
+        ? [{ owner, repo, pull_number: parseInt(pullNumber, 10) }]
+        : []);
+    const textWithoutUrls = event.text.replace(PR_URL_PATTERN, '');
+    const issueKeys = [...new Set(textWithoutUrls.match(JIRA_KEY_PATTERN) || [])];
+
+    const replies: string[] = [];
+
+    for (const pr of pullRequests.slice(0, MAX_MENTION_TARGETS)) {
+      const result = await this.orchestrator.analyzePR({ ...pr, include_jira_context: true });
+      replies.push(`*${pr.owner}/${pr.repo}#${pr.pull_number}*: ${result.riskLevel} risk, ~${result.estimatedReviewTime}h review` +
+        (result.suggestedReviewers.length > 0
+          ? `, suggested reviewers: ${(result.reviewers?.map(slackMention) || result.suggestedReviewers).join(', ')}`
+          : ''));
+    }
+
+    for (const issueKey of issueKeys.slice(0, MAX_MENTION_TARGETS - replies.length)) {
+      const result = await this.orchestrator.smartTriage({ issue_key: issueKey });
+      replies.push(`*${issueKey}*: ${result.priority} priority, ${result.category}, ${result.estimatedEffort} points` +
+        (result.suggestedAssignee
+          ? `, suggested assignee: ${result.assignee ? slackMention(result.assignee) : result.suggestedAssignee}`
+          : ''));
+    }
+
+    await this.slack.sendMessage({
+      channel: event.channel,
+      thread_ts: event.threadTs,
+      text: replies.length > 0
+        ? replies.join('\n')
+        : 'Mention me with a GitHub pull request URL or a Jira issue key to analyze it.',
+    });
+  }
+}
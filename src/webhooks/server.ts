@@ -0,0 +1,223 @@
+import { Server as HttpServer } from 'node:http';
+import express, { Express, Request, Response } from 'express';
+import helmet from 'helmet';
+import logger from '../utils/logger.js';
+import { verifyGitHubSignature, verifyJiraRequest, verifySlackSignature } from './signatures.js';
+import {
+  WebhookDispatcher,
+  WebhookEvent,
+  normalizeGitHubEvent,
+  normalizeJiraEvent,
+  normalizeSlackEvent,
+} from './dispatcher.js';
+
+export interface WebhookServerConfig {
+  port: number;
+  host: string;
+  githubSecret: string;
+  jiraSecret: string;
+  slackSigningSecret: string;
+}
+
+// Delivery ids remembered for de-duplicating provider retries
+const RECENT_DELIVERY_LIMIT = 1000;
+
+/**
+ * Receives GitHub, Jira and Slack webhooks. Each request is verified against
+ * the raw body, acknowledged with 202 straight away (GitHub and Slack retry
+ * slow deliveries) and then dispatched in the background.
+ *
+ * - `POST /webhooks/github` — `X-Hub-Signature-256`
+ * - `POST /webhooks/jira` — `X-Hub-Signature` or `?secret=`
+ * - `POST /webhooks/slack` — Slack signing secret, Events API only
+ * - `GET /health`
+ */
+export class WebhookServer {
+  private app: Express;
+  private httpServer?: HttpServer;
+  private config: WebhookServerConfig;
+  private dispatcher: WebhookDispatcher;
+  private recentDeliveries: Set<string> = new Set();
+  private inFlight: Set<Promise<void>> = new Set();
+
+  constructor(config: WebhookServerConfig, dispatcher: WebhookDispatcher) {
+    this.config = config;
+    this.dispatcher = dispatcher;
+    this.app = express();
+    this.setupRoutes();
+  }
+
+  get application(): Express {
+    return this.app;
+  }
+
+  private setupRoutes(): void {
+    this.app.use(helmet());
+
+    this.app.get('/health', (_req, res) => {
+      res.json({ status: 'ok' });
+    });
+
+    // Signatures are computed over the exact bytes received, so bodies stay raw until verified
+    const rawBody = express.raw({ type: () => true, limit: '5mb' });
+    this.app.post('/webhooks/github', rawBody, (req, res) => this.handleGitHub(req, res));
+    this.app.post('/webhooks/jira', rawBody, (req, res) => this.handleJira(req, res));
+    this.app.post('/webhooks/slack', rawBody, (req, res) => this.handleSlack(req, res));
+  }
+
+  private handleGitHub(req: Request, res: Response): void {
+    if (!this.config.githubSecret) {
+      res.status(503).json({ error: 'GitHub webhook secret is not configured' });
+      return;
+    }
+    if (!verifyGitHubSignature(this.config.githubSecret, this.body(req), req.header('x-hub-signature-256'))) {
+      res.status(401).json({ error: 'Invalid signature' });
+      return;
+    }
+
+    const payload = this.parse(req, res);
+    if (payload === undefined) {
+      return;
+    }
+
+    const eventName = req.header('x-github-event') || '';
+    const deliveryId = req.header('x-github-delivery') || '';
+    this.accept(res, normalizeGitHubEvent(eventName, deliveryId, payload), `github:${eventName}`);
+  }
+
+  private handleJira(req: Request, res: Response): void {
+    if (!this.config.jiraSecret) {
+      res.status(503).json({ error: 'Jira webhook secret is not configured' });
+      return;
+    }
+
+    const verified = verifyJiraRequest(this.config.jiraSecret, this.body(req), {
+      signature: req.header('x-hub-signature'),
+      token: typeof req.query.secret === 'string' ? req.query.secret : undefined,
+    });
+    if (!verified) {
+      res.status(401).json({ error: 'Invalid signature' });
+      return;
+    }
+
+    const payload = this.parse(req, res);
+    if (payload === undefined) {
+      return;
+    }
+
+    const deliveryId = req.header('x-atlassian-webhook-identifier') || '';
+    this.accept(res, normalizeJiraEvent(deliveryId, payload), `jira:${payload?.webhookEvent}`);
+  }
+
+  private handleSlack(req: Request, res: Response): void {
+    if (!this.config.slackSigningSecret) {
+      res.status(503).json({ error: 'Slack signing secret is not configured' });
+      return;
+    }
+
+    const verified = verifySlackSignature(
+      this.config.slackSigningSecret,
+      this.body(req),
+      req.header('x-slack-request-timestamp'),
+      req.header('x-slack-signature')
+    );
+    if (!verified) {
+      res.status(401).json({ error: 'Invalid signature' });
+      return;
+    }
+
+    const payload = this.parse(req, res);
+    if (payload === undefined) {
+      return;
+    }
+
+    if (payload?.type === 'url_verification') {
+      res.json({ challenge: payload.challenge });
+      return;
+    }
+
+    this.accept(res, normalizeSlackEvent(payload), `slack:${payload?.event?.type}`);
+  }
+
+  private accept(res: Response, event: WebhookEvent | null, received: string): void {
+    if (!event) {
+      res.status(202).json({ status: 'ignored' });
+      logger.debug('Ignoring webhook event', { event: received });
+      return;
+    }
+
+    if (event.deliveryId && this.recentDeliveries.has(`${event.source}:${event.deliveryId}`)) {
+      res.status(202).json({ status: 'duplicate' });
+      return;
+    }
+    this.rememberDelivery(`${event.source}:${event.deliveryId}`);
+
+    res.status(202).json({ status: 'accepted' });
+
+    const task = this.dispatcher.dispatch(event)
+      .catch(error => {
+        logger.error('Webhook dispatch failed', {
+          source: event.source,
+          type: event.type,
+          deliveryId: event.deliveryId,
+          error: error instanceof Error ? error.message : error,
+        });
+      })
+      .finally(() => {
+        this.inFlight.delete(task);
+      });
+    this.inFlight.add(task);
+  }
+
+  private rememberDelivery(key: string): void {
+    this.recentDeliveries.add(key);
+    if (this.recentDeliveries.size > RECENT_DELIVERY_LIMIT) {
+      const oldest = this.recentDeliveries.values().next().value;
+      if (oldest !== undefined) {
+        this.recentDeliveries.delete(oldest);
+      }
+    }
+  }
+
+  private body(req: Request): Buffer {
+    return Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+  }
+
+  private parse(req: Request, res: Response): any {
+    try {
+      return JSON.parse(this.body(req).toString('utf8'));
+    } catch {
+      res.status(400).json({ error: 'Invalid JSON payload' });
+      return undefined;
+    }
+  }
+
+  /**
+   * Resolves once every dispatched event has finished.
+   */
+  async drain(): Promise<void> {
+    await Promise.allSettled([...this.inFlight]);
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      const httpServer = this.app.listen(this.config.port, this.config.host, () => resolve());
+      httpServer.once('error', reject);
+      this.httpServer = httpServer;
+    });
+
+    logger.info('Webhook receiver listening', { host: this.config.host, port: this.config.port });
+  }
+
+  async close(): Promise<void> {
+    if (this.httpServer) {
+      const httpServer = this.httpServer;
+      this.httpServer = undefined;
+      await new Promise<void>((resolve, reject) => {
+        httpServer.close(error => (error ? reject(error) : resolve()));
+      });
+    }
+
+    await this.drain();
+  }
+}
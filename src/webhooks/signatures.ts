@@ -0,0 +1,67 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+// Slack rejects requests older than five minutes to prevent replays; we do the same
+export const SLACK_MAX_REQUEST_AGE_SECONDS = 300;
+
+function safeEqual(expected: string, actual: string): boolean {
+  const expectedBuffer = Buffer.from(expected);
+  const actualBuffer = Buffer.from(actual);
+  return expectedBuffer.length === actualBuffer.length && timingSafeEqual(expectedBuffer, actualBuffer);
+}
+
+function hmacSha256(secret: string, payload: Buffer | string): string {
+  return createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+/**
+ * Verifies the `X-Hub-Signature-256` header GitHub sends with every delivery.
+ */
+export function verifyGitHubSignature(secret: string, rawBody: Buffer, signature: string | undefined): boolean {
+  if (!secret || !signature) {
+    return false;
+  }
+  return safeEqual(`sha256=${hmacSha256(secret, rawBody)}`, signature);
+}
+
+/**
+ * Verifies Slack's `X-Slack-Signature` over `v0:<timestamp>:<body>` and
+ * rejects stale timestamps.
+ */
+export function verifySlackSignature(
+  signingSecret: string,
+  rawBody: Buffer,
+  timestamp: string | undefined,
+  signature: string | undefined,
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): boolean {
+  if (!signingSecret || !timestamp || !signature) {
+    return false;
+  }
+
+  const requestTime = Number(timestamp);
+  if (!Number.isFinite(requestTime) || Math.abs(nowSeconds - requestTime) > SLACK_MAX_REQUEST_AGE_SECONDS) {
+    return false;
+  }
+
+  const baseString = Buffer.concat([Buffer.from(`v0:${timestamp}:`), rawBody]);
+  return safeEqual(`v0=${hmacSha256(signingSecret, baseString)}`, signature);
+}
+
+/**
+ * Jira Cloud webhooks registered with a secret are signed with HMAC-SHA256 in
+ * `X-Hub-Signature`. Webhooks that cannot be signed (automation rules, older
+ * Server instances) may instead carry the secret as a `secret` query parameter.
+ */
+export function verifyJiraRequest(
+  secret: string,
+  rawBody: Buffer,
+  credentials: { signature?: string; token?: string }
+): boolean {
+  if (!secret) {
+    return false;
+  }
+  if (credentials.signature) {
+    return safeEqual(`sha256=${hmacSha256(secret, rawBody)}`, credentials.signature);
+  }
+  return credentials.token !== undefined && safeEqual(secret, credentials.token);
+}
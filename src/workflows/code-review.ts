@@ -0,0 +1,176 @@
+import { createHash } from 'node:crypto';
+import logger from '../utils/logger.js';
+import { GitHubIntegration, NewReviewComment, PRDetails } from '../integrations/github.js';
+import { OpenAIAgent } from '../agents/openai.js';
+import { CodeReviewData } from '../agents/schemas.js';
+import { commentableLines } from '../utils/diff.js';
+import { CodeReviewFinding, CodeReviewResult, PullRequestActionPolicy, ReviewSeverity } from '../types/index.js';
+import { findActionPolicy } from './pr-actions.js';
+
+const SEVERITIES: ReviewSeverity[] = ['info', 'minor', 'major', 'critical'];
+// Any of these among the submitted findings makes the review request changes
+const BLOCKING_SEVERITIES = new Set<ReviewSeverity>(['major', 'critical']);
+const FINDING_MARKER_PREFIX = '<!-- idwo:finding:';
+
+export function findingMarker(fingerprint: string): string {
+  return `${FINDING_MARKER_PREFIX}${fingerprint} -->`;
+}
+
+/**
+ * Reviews a pull request's diff line by line. Model findings are anchored to
+ * lines that are really in the patch (the rest go in the review body),
+ * filtered by severity and checked against the markers of comments IDWO left
+ * on earlier runs, then optionally submitted as a single GitHub review.
+ */
+export class CodeReviewer {
+  private github: GitHubIntegration;
+  private ai: OpenAIAgent;
+  private policies: PullRequestActionPolicy[];
+
+  constructor(github: GitHubIntegration, ai: OpenAIAgent, policies: PullRequestActionPolicy[]) {
+    this.github = github;
+    this.ai = ai;
+    this.policies = policies;
+  }
+
+  /**
+   * Submits only when `submit` is set and the repository's policy allows
+   * reviews; otherwise the findings are just returned.
+   */
+  async review(
+    owner: string,
+    repo: string,
+    pr: PRDetails,
+    options: { minSeverity?: ReviewSeverity; submit?: boolean; forceRefresh?: boolean } = {}
+  ): Promise<CodeReviewResult> {
+    const minRank = SEVERITIES.indexOf(options.minSeverity ?? 'minor');
+
+    const aiReview = await this.ai.reviewPullRequest({
+      title: pr.title,
+      description: pr.body,
+      files: pr.files,
+    }, { forceRefresh: options.forceRefresh });
+    const rawFindings = (aiReview.structuredData as CodeReviewData | undefined)?.findings || [];
+    const omittedFiles: string[] = aiReview.structuredData?.omittedFiles || [];
+
+    const linesByFile = new Map(pr.files.map(file => [file.filename, file.patch ? commentableLines(file.patch) : new Map<number, string>()]));
+    const anchored = rawFindings.map(finding => anchorFinding(finding, linesByFile.get(finding.path)));
+
+    const posted = await this.postedFingerprints(owner, repo, pr);
+    const seen = new Set<string>();
+    let duplicates = 0;
+    let belowThreshold = 0;
+    const findings: CodeReviewFinding[] = [];
+    for (const finding of anchored) {
+      if (SEVERITIES.indexOf(finding.severity) < minRank) {
+        belowThreshold++;
+      } else if (posted.has(finding.fingerprint) || seen.has(finding.fingerprint)) {
+        duplicates++;
+      } else {
+        seen.add(finding.fingerprint);
+        findings.push(finding);
+      }
+    }
+
+    const result: CodeReviewResult = {
+      verdict: findings.some(finding => BLOCKING_SEVERITIES.has(finding.severity)) ? 'REQUEST_CHANGES' : 'COMMENT',
+      summary: aiReview.analysis,
+      findings,
+      duplicates,
+      belowThreshold,
+      ...(omittedFiles.length > 0 ? { omittedFiles } : {}),
+      ...(aiReview.flags?.length ? { flags: aiReview.flags } : {}),
+      submitted: false,
+    };
+
+    if (!options.submit) {
+      return result;
+    }
+    if (!findActionPolicy(this.policies, owner, repo)?.review) {
+      logger.info('Pull request reviews not allowed for repository', { repository: `${owner}/${repo}` });
+      return result;
+    }
+    if (findings.length === 0) {
+      logger.info('No new review findings to submit', { owner, repo, pullNumber: pr.number, duplicates, belowThreshold });
+      return result;
+    }
+
+    const comments: NewReviewComment[] = findings
+      .filter((finding): finding is CodeReviewFinding & { line: number } => finding.line !== undefined)
+      .map(finding => ({ path: finding.path, line: finding.line, side: 'RIGHT', body: renderFindingComment(finding) }));
+    const review = await this.github.createReview(owner, repo, pr.number, {
+      commitId: pr.headSha,
+      body: renderReviewBody(result),
+      event: result.verdict,
+      comments,
+    });
+
+    return { ...result, submitted: true, reviewUrl: review.url };
+  }
+
+  // Fingerprints in the markers of IDWO's earlier inline comments and review
+  // bodies; anyone else could copy a marker to suppress a finding
+  private async postedFingerprints(owner: string, repo: string, pr: PRDetails): Promise<Set<string>> {
+    const [login, comments] = await Promise.all([
+      this.github.getAuthenticatedLogin(),
+      this.github.listReviewComments(owner, repo, pr.number),
+    ]);
+    const fingerprints = new Set<string>();
+    const pattern = /<!-- idwo:finding:([0-9a-f]+) -->/g;
+    const texts = [
+      ...comments.filter(comment => comment.author === login).map(comment => comment.body),
+      ...pr.reviews.filter(review => review.user === login).map(review => review.body),
+    ];
+    for (const text of texts) {
+      for (const match of text.matchAll(pattern)) {
+        fingerprints.add(match[1] as string);
+      }
+    }
+    return fingerprints;
+  }
+}
+
+/**
+ * Keeps the finding's line only when it is an added or context line of the
+ * file's patch. The fingerprint uses the code on that line rather than its
+ * number, so it survives unrelated edits above it.
+ */
+function anchorFinding(finding: CodeReviewData['findings'][number], lines: Map<number, string> | undefined): CodeReviewFinding {
+  const code = finding.line > 0 ? lines?.get(finding.line) : undefined;
+  const identity = code !== undefined ? code.trim() : finding.title.trim().toLowerCase();
+  const fingerprint = createHash('sha1').update(`${finding.path}\n${finding.severity}\n${identity}`).digest('hex').slice(0, 16);
+
+  return {
+    path: finding.path,
+    ...(code !== undefined ? { line: finding.line } : {}),
+    severity: finding.severity,
+    title: finding.title.trim(),
+    body: finding.body.trim(),
+    fingerprint,
+  };
+}
+
+export function renderFindingComment(finding: CodeReviewFinding): string {
+  return [`**${finding.severity}:** ${finding.title}`, finding.body, findingMarker(finding.fingerprint)]
+    .filter(section => section.length > 0)
+    .join('\n\n');
+}
+
+export function renderReviewBody(result: CodeReviewResult): string {
+  const counts = SEVERITIES.slice().reverse()
+    .map(severity => [severity, result.findings.filter(finding => finding.severity === severity).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([severity, count]) => `${count} ${severity}`);
+  // Findings that could not be placed on a diff line
+  const general = result.findings
+    .filter(finding => finding.line === undefined)
+    .map(finding => `- **${finding.severity}:** \`${finding.path}\` ${finding.title}${finding.body ? ` ${finding.body.replace(/\s*\n\s*/g, ' ')}` : ''} ${findingMarker(finding.fingerprint)}`);
+
+  return [
+    '### 🤖 IDWO Code Review',
+    `**Findings:** ${counts.join(', ')}`,
+    result.summary,
+    ...(general.length > 0 ? [['**Not tied to a changed line**', ...general].join('\n')] : []),
+    ...(result.omittedFiles?.length ? [`**Not reviewed (too large):** ${result.omittedFiles.map(file => `\`${file}\``).join(', ')}`] : []),
+  ].filter(section => section.trim().length > 0).join('\n\n');
+}
@@ -0,0 +1,162 @@
+import logger from '../utils/logger.js';
+import { GitHubIntegration } from '../integrations/github.js';
+import { JiraIntegration } from '../integrations/jira.js';
+import { SlackIntegration } from '../integrations/slack.js';
+import { PersonIdentity } from '../types/index.js';
+
+type Platform = 'github' | 'jira' | 'slack';
+
+const PLATFORMS: Platform[] = ['github', 'jira', 'slack'];
+const IDENTITY_CACHE_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Links a person's GitHub login, Jira account and Slack user. Manual
+ * overrides win; missing accounts are matched by email address, which is
+ * read from whichever platform already knows the person. Lookups that fail
+ * are logged and leave the account unset, so resolving never throws.
+ */
+export class IdentityDirectory {
+  private github: GitHubIntegration;
+  private jira: JiraIntegration;
+  private slack: SlackIntegration;
+  private overrides: PersonIdentity[];
+  private cache = new Map<string, { expiresAt: number; identity: Promise<PersonIdentity> }>();
+
+  constructor(github: GitHubIntegration, jira: JiraIntegration, slack: SlackIntegration, overrides: PersonIdentity[] = []) {
+    this.github = github;
+    this.jira = jira;
+    this.slack = slack;
+    this.overrides = overrides;
+  }
+
+  fromGitHub(login: string): Promise<PersonIdentity> {
+    return this.resolve('github', login);
+  }
+
+  // accountId on Jira Cloud, username on Server/Data Center
+  fromJira(id: string): Promise<PersonIdentity> {
+    return this.resolve('jira', id);
+  }
+
+  fromSlack(userId: string): Promise<PersonIdentity> {
+    return this.resolve('slack', userId);
+  }
+
+  /**
+   * Matches a free-text name, such as an assignee suggested by the model,
+   * against the overrides and then Jira's user search. Returns undefined
+   * unless exactly one person matches.
+   */
+  async findByName(name: string): Promise<PersonIdentity | undefined> {
+    const needle = name.trim().replace(/^@/, '').toLowerCase();
+    if (!needle) {
+      return undefined;
+    }
+
+    const override = this.overrides.find(identity => (
+      [identity.name, identity.email, ...PLATFORMS.map(platform => identity[platform])].some(value => value?.toLowerCase() === needle)
+    ));
+    const platform = override && PLATFORMS.find(key => override[key]);
+    if (override && platform) {
+      return this.resolve(platform, override[platform] ?? '');
+    }
+
+    try {
+      const users = (await this.jira.findUsers(name.trim())).filter(user => user.active);
+      if (users.length === 1 && users[0]) {
+        return this.fromJira(users[0].id);
+      }
+    } catch (error) {
+      logger.warn('Failed to search Jira users for identity', { name, error });
+    }
+    return undefined;
+  }
+
+  private resolve(platform: Platform, id: string): Promise<PersonIdentity> {
+    const key = `${platform}:${id.toLowerCase()}`;
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.identity;
+    }
+
+    const override = this.overrides.find(identity => identity[platform]?.toLowerCase() === id.toLowerCase());
+    const identity = this.complete({ ...override, [platform]: override?.[platform] ?? id });
+    this.cache.set(key, { expiresAt: Date.now() + IDENTITY_CACHE_TTL_MS, identity });
+    return identity;
+  }
+
+  private async complete(known: PersonIdentity): Promise<PersonIdentity> {
+    const identity = { ...known };
+    if (PLATFORMS.every(platform => identity[platform])) {
+      return identity;
+    }
+
+    if (!identity.email || !identity.name) {
+      await this.readProfile(identity);
+    }
+    if (identity.email) {
+      await this.matchByEmail(identity, identity.email);
+    }
+    return identity;
+  }
+
+  // Fills in the name and email from the first platform that has them
+  private async readProfile(identity: PersonIdentity): Promise<void> {
+    const profiles: Array<[Platform, string | undefined, (id: string) => Promise<{ name?: string; email?: string } | null>]> = [
+      ['slack', identity.slack, async id => {
+        const user = await this.slack.getUserInfo(id);
+        return { name: user.realName || user.displayName || undefined, email: user.email };
+      }],
+      ['jira', identity.jira, async id => {
+        const user = await this.jira.getUser(id);
+        return user && { name: user.displayName || undefined, email: user.email };
+      }],
+      ['github', identity.github, id => this.github.getUser(id)],
+    ];
+
+    for (const [platform, id, read] of profiles) {
+      if (!id || (identity.email && identity.name)) {
+        continue;
+      }
+      try {
+        const profile = await read(id);
+        identity.name ??= profile?.name;
+        identity.email ??= profile?.email;
+      } catch (error) {
+        logger.warn('Failed to read profile for identity', { platform, id, error });
+      }
+    }
+  }
+
+  private async matchByEmail(identity: PersonIdentity, email: string): Promise<void> {
+    const matchers: Record<Platform, () => Promise<string | undefined>> = {
+      github: async () => (await this.github.findUserByEmail(email)) ?? undefined,
+      jira: async () => {
+        const users = (await this.jira.findUsers(email)).filter(user => user.active);
+        // Cloud hides most emails, so a single hit for the address is accepted as the match
+        const match = users.find(user => user.email?.toLowerCase() === email.toLowerCase()) ?? (users.length === 1 ? users[0] : undefined);
+        return match?.id;
+      },
+      slack: async () => (await this.slack.lookupUserByEmail(email))?.id,
+    };
+
+    await Promise.all(PLATFORMS.filter(platform => !identity[platform]).map(async platform => {
+      try {
+        identity[platform] = await matchers[platform]();
+      } catch (error) {
+        logger.warn('Failed to match identity by email', { platform, error });
+      }
+    }));
+  }
+}
+
+/**
+ * Renders a person for a Slack message: an @-mention when their Slack user
+ * is known, otherwise their name or GitHub login.
+ */
+export function slackMention(identity: PersonIdentity): string {
+  if (identity.slack) {
+    return `<@${identity.slack}>`;
+  }
+  return identity.name || identity.github || identity.email || identity.jira || 'unknown';
+}
@@ -1,14 +1,33 @@
 import logger from '../utils/logger.js';
 import { GitHubIntegration } from '../integrations/github.js';
-import { JiraIntegration } from '../integrations/jira.js';
+import { JiraIntegration, JiraIssue } from '../integrations/jira.js';
 import { SlackIntegration } from '../integrations/slack.js';
 import { OpenAIAgent } from '../agents/openai.js';
+import { InMemoryWorkflowStateStore, WorkflowStateStore } from '../state/store.js';
+import { ParsedReports, combinedCoverage, parseArtifactArchive } from '../utils/test-reports.js';
+import { calculateDeploymentMetrics } from '../utils/deployments.js';
+import { DoraDeployment, DoraIncident, calculateDoraMetrics } from '../utils/dora.js';
+import { and, buildJql, contains, eq, notInList, or } from '../utils/jql.js';
+import { describeFlag } from '../utils/injection.js';
+import { TeamData, TeamDataCollector, parseTimePeriod } from './team-data.js';
+import { IdentityDirectory } from './identity.js';
+import { ReviewerRecommender } from './reviewers.js';
+import { PullRequestActions } from './pr-actions.js';
+import { CodeReviewer } from './code-review.js';
 import { 
   PRAnalysisResult, 
+  CodeReviewResult,
+  ReviewSeverity,
   IssueTriageResult, 
   WorkflowStatus, 
   ReleaseAnalysis, 
   TeamInsights, 
+  TestResults,
+  DeploymentMetrics,
+  DoraMetrics,
+  TeamDefinition,
+  PersonIdentity,
+  PullRequestActionPolicy,
   ServiceError 
 } from '../types/index.js';
 
@@ -17,6 +36,16 @@ export interface WorkflowDependencies {
   jira: JiraIntegration;
   slack: SlackIntegration;
   ai: OpenAIAgent;
+  state?: WorkflowStateStore;
+  // GitHub deployment environment treated as production, defaults to "production"
+  deploymentEnvironment?: string;
+  teams?: TeamDefinition[];
+  // GitHub organization that team slugs belong to
+  organization?: string;
+  // Manual links between GitHub, Jira and Slack accounts
+  identities?: PersonIdentity[];
+  // What analyze_pr may change on pull requests when actions are requested
+  pullRequestActions?: PullRequestActionPolicy[];
 }
 
 export interface PRAnalysisParams {
@@ -24,12 +53,30 @@ export interface PRAnalysisParams {
   repo: string;
   pull_number: number;
   include_jira_context?: boolean;
+  // Request reviewers, label and comment on the PR as the repository's policy allows
+  apply_actions?: boolean;
+  // Ignore cached model responses and analyze again
+  force_refresh?: boolean;
+}
+
+export interface CodeReviewParams {
+  owner: string;
+  repo: string;
+  pull_number: number;
+  // Findings below this are dropped (default "minor")
+  min_severity?: ReviewSeverity;
+  // Submit the findings as a pull request review when the repository policy allows it
+  submit?: boolean;
+  // Ignore cached model responses and analyze again
+  force_refresh?: boolean;
 }
 
 export interface SmartTriageParams {
   issue_key: string;
   github_issue_url?: string;
   team_context?: string;
+  // Ignore cached model responses and analyze again
+  force_refresh?: boolean;
 }
 
 export interface ReleaseOrchestrationParams {
@@ -38,6 +85,8 @@ export interface ReleaseOrchestrationParams {
   jira_project: string;
   slack_channel: string;
   dry_run?: boolean;
+  // Ignore cached model responses and analyze again
+  force_refresh?: boolean;
 }
 
 export interface WorkflowStatusParams {
@@ -50,20 +99,62 @@ export interface TeamInsightsParams {
   team_name: string;
   time_period?: string;
   include_predictions?: boolean;
+  repositories?: string[];
+  // Ignore cached model responses and analyze again
+  force_refresh?: boolean;
+}
+
+export interface DoraMetricsParams {
+  repository?: string;
+  team_name?: string;
+  time_period?: string;
+  environment?: string;
+  incident_jql?: string;
 }
 
+// Actions artifacts worth downloading when looking for test and coverage reports
+const REPORT_ARTIFACT_PATTERN = /test|coverage|junit|lcov|cobertura|report/i;
+const MAX_REPORT_ARTIFACTS = 10;
+const MAX_ARTIFACT_BYTES = 25 * 1024 * 1024;
+const FAILED_CHECK_CONCLUSIONS = new Set(['failure', 'timed_out', 'cancelled', 'action_required', 'startup_failure']);
+// Window for release-time deployment metrics
+const RELEASE_DEPLOYMENT_WINDOW_DAYS = 30;
+// How far before the DORA window to look for the previous good deploy, so the first deploys in the window get a lead time
+const LEAD_TIME_LOOKBACK_DAYS = 30;
+const MAX_DORA_DEPLOYMENTS = 200;
+
 export class WorkflowOrchestrator {
   private github: GitHubIntegration;
   private jira: JiraIntegration;
   private slack: SlackIntegration;
   private ai: OpenAIAgent;
-  private workflowState: Map<string, WorkflowStatus> = new Map();
+  private workflowState: WorkflowStateStore;
+  private deploymentEnvironment: string;
+  private teams: TeamDefinition[];
+  private organization?: string;
+  private teamData: TeamDataCollector;
+  private identities: IdentityDirectory;
+  private reviewerRecommender: ReviewerRecommender;
+  private pullRequestActions: PullRequestActions;
+  private codeReviewer: CodeReviewer;
 
   constructor(dependencies: WorkflowDependencies) {
     this.github = dependencies.github;
     this.jira = dependencies.jira;
     this.slack = dependencies.slack;
     this.ai = dependencies.ai;
+    this.workflowState = dependencies.state || new InMemoryWorkflowStateStore();
+    this.deploymentEnvironment = dependencies.deploymentEnvironment || 'production';
+    this.teams = dependencies.teams || [];
+    this.organization = dependencies.organization;
+    this.teamData = new TeamDataCollector(this.github, this.jira, {
+      organization: this.organization,
+      deploymentEnvironment: this.deploymentEnvironment,
+    });
+    this.identities = new IdentityDirectory(this.github, this.jira, this.slack, dependencies.identities);
+    this.reviewerRecommender = new ReviewerRecommender(this.github, this.slack, this.identities);
+    this.pullRequestActions = new PullRequestActions(this.github, dependencies.pullRequestActions || []);
+    this.codeReviewer = new CodeReviewer(this.github, this.ai, dependencies.pullRequestActions || []);
   }
 
   async analyzePR(params: PRAnalysisParams): Promise<PRAnalysisResult> {
@@ -72,7 +163,7 @@ export class WorkflowOrchestrator {
     try {
       logger.info('Starting PR analysis', { workflowId, params });
 
-      this.updateWorkflowStatus(workflowId, {
+      await this.updateWorkflowStatus(workflowId, {
         id: workflowId,
         type: 'pr',
         status: 'analyzing',
@@ -87,7 +178,7 @@ export class WorkflowOrchestrator {
         jiraContext = await this.extractJiraContext(prDetails.title, prDetails.body);
       }
 
-      const teamMembers = await this.getTeamMembers(params.owner, params.repo);
+      const reviewerRecommendations = await this.reviewerRecommender.recommend(params.owner, params.repo, prDetails);
 
       const aiAnalysis = await this.ai.analyzePullRequest({
         title: prDetails.title,
@@ -95,19 +186,29 @@ export class WorkflowOrchestrator {
         files: prDetails.files,
         commits: prDetails.commits,
         reviews: prDetails.reviews,
-        teamMembers,
-      });
+        reviewerCandidates: reviewerRecommendations,
+      }, { forceRefresh: params.force_refresh });
 
+      const suggestedReviewers = reviewerRecommendations.map(recommendation => recommendation.login);
       const result: PRAnalysisResult = {
         summary: aiAnalysis.analysis,
-        suggestedReviewers: aiAnalysis.structuredData?.suggestedReviewers || [],
+        suggestedReviewers,
+        reviewers: await Promise.all(suggestedReviewers.map(login => this.identities.fromGitHub(login))),
+        reviewerRecommendations,
+        reviewerRationale: aiAnalysis.structuredData?.reviewerRationale || undefined,
         riskLevel: aiAnalysis.structuredData?.riskLevel || 'medium',
         estimatedReviewTime: aiAnalysis.structuredData?.estimatedReviewTime || 2,
         topics: aiAnalysis.structuredData?.topics || [],
         relatedJiraTickets: jiraContext?.tickets || [],
+        ...(aiAnalysis.structuredData?.omittedFiles?.length ? { omittedFiles: aiAnalysis.structuredData.omittedFiles } : {}),
+        ...(aiAnalysis.flags?.length ? { flags: aiAnalysis.flags } : {}),
       };
 
-      this.updateWorkflowStatus(workflowId, {
+      if (params.apply_actions) {
+        result.actions = await this.pullRequestActions.apply(params.owner, params.repo, prDetails, result);
+      }
+
+      await this.updateWorkflowStatus(workflowId, {
         id: workflowId,
         type: 'pr',
         status: 'completed',
@@ -125,7 +226,57 @@ export class WorkflowOrchestrator {
 
     } catch (error) {
       logger.error('PR analysis failed', { workflowId, error });
-      this.updateWorkflowStatus(workflowId, {
+      await this.updateWorkflowStatus(workflowId, {
+        id: workflowId,
+        type: 'pr',
+        status: 'failed',
+        lastUpdated: new Date(),
+        services: {},
+      });
+      throw error;
+    }
+  }
+
+  async reviewPR(params: CodeReviewParams): Promise<CodeReviewResult> {
+    const workflowId = `review-${params.owner}-${params.repo}-${params.pull_number}`;
+
+    try {
+      logger.info('Starting PR review', { workflowId, params });
+
+      await this.updateWorkflowStatus(workflowId, {
+        id: workflowId,
+        type: 'pr',
+        status: 'reviewing',
+        lastUpdated: new Date(),
+        services: {},
+      });
+
+      const prDetails = await this.github.getPRDetails(params.owner, params.repo, params.pull_number);
+      const result = await this.codeReviewer.review(params.owner, params.repo, prDetails, {
+        minSeverity: params.min_severity,
+        submit: params.submit,
+        forceRefresh: params.force_refresh,
+      });
+
+      await this.updateWorkflowStatus(workflowId, {
+        id: workflowId,
+        type: 'pr',
+        status: 'completed',
+        lastUpdated: new Date(),
+        services: {
+          github: {
+            status: result.submitted ? 'reviewed' : 'analyzed',
+            url: result.reviewUrl || `https://github.com/${params.owner}/${params.repo}/pull/${params.pull_number}`,
+          },
+        },
+      });
+
+      logger.info('PR review completed', { workflowId, verdict: result.verdict, findings: result.findings.length, submitted: result.submitted });
+      return result;
+
+    } catch (error) {
+      logger.error('PR review failed', { workflowId, error });
+      await this.updateWorkflowStatus(workflowId, {
         id: workflowId,
         type: 'pr',
         status: 'failed',
@@ -142,7 +293,7 @@ export class WorkflowOrchestrator {
     try {
       logger.info('Starting smart triage', { workflowId, params });
 
-      this.updateWorkflowStatus(workflowId, {
+      await this.updateWorkflowStatus(workflowId, {
         id: workflowId,
         type: 'issue',
         status: 'triaging',
@@ -168,24 +319,38 @@ export class WorkflowOrchestrator {
         component: jiraIssue.components[0],
         teamContext: params.team_context,
         similarIssues,
-      });
+      }, { forceRefresh: params.force_refresh });
 
+      const priority: IssueTriageResult['priority'] = aiAnalysis.structuredData?.priority || 'medium';
+      const suggestedAssignee: string | undefined = aiAnalysis.structuredData?.suggestedAssignee;
       const result: IssueTriageResult = {
-        priority: aiAnalysis.structuredData?.priority || 'medium',
+        priority,
         category: aiAnalysis.structuredData?.category || 'story',
         estimatedEffort: aiAnalysis.structuredData?.estimatedEffort || 3,
-        suggestedAssignee: aiAnalysis.structuredData?.suggestedAssignee,
-        suggestedSprint: await this.getSuggestedSprint(params.issue_key),
+        suggestedAssignee,
+        assignee: suggestedAssignee ? await this.identities.findByName(suggestedAssignee) : undefined,
+        suggestedSprint: await this.getSuggestedSprint(jiraIssue, priority, params.team_context),
         dependencies: aiAnalysis.structuredData?.dependencies || [],
         tags: aiAnalysis.structuredData?.tags || [],
+        ...(aiAnalysis.flags?.length ? { flags: aiAnalysis.flags } : {}),
       };
 
       await this.jira.addCommentToIssue(
         params.issue_key, 
-        `🤖 IDWO Smart Triage Analysis:\n\n${aiAnalysis.analysis}\n\nRecommended Priority: ${result.priority}\nEstimated Effort: ${result.estimatedEffort} story points`
+        [
+          '### 🤖 IDWO Smart Triage Analysis',
+          aiAnalysis.analysis,
+          [
+            `- **Recommended Priority:** ${result.priority}`,
+            `- **Estimated Effort:** ${result.estimatedEffort} story points`,
+            ...(result.suggestedAssignee ? [`- **Suggested Assignee:** ${result.assignee?.name || result.suggestedAssignee}`] : []),
+            ...(result.suggestedSprint ? [`- **Suggested Sprint:** ${result.suggestedSprint}`] : []),
+          ].join('\n'),
+          ...(result.flags?.length ? [['**⚠️ Flags**', ...result.flags.map(flag => `- ${describeFlag(flag)}`)].join('\n')] : []),
+        ].join('\n\n')
       );
 
-      this.updateWorkflowStatus(workflowId, {
+      await this.updateWorkflowStatus(workflowId, {
         id: workflowId,
         type: 'issue',
         status: 'completed',
@@ -200,7 +365,7 @@ export class WorkflowOrchestrator {
 
     } catch (error) {
       logger.error('Smart triage failed', { workflowId, error });
-      this.updateWorkflowStatus(workflowId, {
+      await this.updateWorkflowStatus(workflowId, {
         id: workflowId,
         type: 'issue',
         status: 'failed',
@@ -224,7 +389,7 @@ export class WorkflowOrchestrator {
     try {
       logger.info('Starting release orchestration', { workflowId, params });
 
-      this.updateWorkflowStatus(workflowId, {
+      await this.updateWorkflowStatus(workflowId, {
         id: workflowId,
         type: 'release',
         status: 'analyzing',
@@ -242,24 +407,30 @@ export class WorkflowOrchestrator {
         throw new Error(`Slack channel ${params.slack_channel} not found`);
       }
 
+      const testResults = await this.getTestResults(owner, repo, params.release_version);
+      const deployments = await this.getDeploymentHistory(owner, repo);
       const releaseReadinessData = {
         version: params.release_version,
         commits: [], // Would be populated with actual commit data
         openIssues: await this.getBlockingIssues(params.jira_project),
-        testResults: await this.getTestResults(owner, repo),
-        deploymentHistory: await this.getDeploymentHistory(owner, repo),
+        testResults,
+        deploymentHistory: deployments.history,
+        deploymentMetrics: deployments.metrics,
         teamVelocity: { current: 0, historical: [] }, // Would be calculated from actual data
       };
 
-      const aiAnalysis = await this.ai.assessReleaseReadiness(releaseReadinessData);
+      const aiAnalysis = await this.ai.assessReleaseReadiness(releaseReadinessData, { forceRefresh: params.force_refresh });
 
       const result: ReleaseAnalysis = {
-        readiness: aiAnalysis.structuredData?.readinessScore || 70,
+        readiness: aiAnalysis.structuredData?.readinessScore ?? 70,
         blockers: aiAnalysis.structuredData?.blockers || [],
-        testCoverage: releaseReadinessData.testResults?.coverage || 0,
+        testCoverage: testResults.coverage,
+        testResults,
+        deploymentMetrics: deployments.metrics,
         openIssues: jiraStats.totalIssues,
-        recommendation: this.determineReleaseRecommendation(aiAnalysis.structuredData?.readinessScore || 70),
+        recommendation: this.determineReleaseRecommendation(aiAnalysis.structuredData?.readinessScore ?? 70),
         suggestedActions: aiAnalysis.recommendations,
+        ...(aiAnalysis.flags?.length ? { flags: aiAnalysis.flags } : {}),
       };
 
       if (!params.dry_run && result.recommendation === 'proceed') {
@@ -273,12 +444,18 @@ export class WorkflowOrchestrator {
         fields: [
           { title: 'Readiness Score', value: `${result.readiness}%`, short: true },
           { title: 'Test Coverage', value: `${result.testCoverage}%`, short: true },
+          { title: 'Tests', value: `${testResults.passed} passed / ${testResults.failed} failed`, short: true },
           { title: 'Open Issues', value: result.openIssues.toString(), short: true },
           { title: 'Blockers', value: result.blockers.length.toString(), short: true },
+          ...(deployments.metrics ? [{
+            title: 'Change Failure Rate',
+            value: `${deployments.metrics.changeFailureRate}% (${deployments.metrics.total} deploys in ${RELEASE_DEPLOYMENT_WINDOW_DAYS}d)`,
+            short: true,
+          }] : []),
         ],
       });
 
-      this.updateWorkflowStatus(workflowId, {
+      await this.updateWorkflowStatus(workflowId, {
         id: workflowId,
         type: 'release',
         status: 'completed',
@@ -295,7 +472,7 @@ export class WorkflowOrchestrator {
 
     } catch (error) {
       logger.error('Release orchestration failed', { workflowId, error });
-      this.updateWorkflowStatus(workflowId, {
+      await this.updateWorkflowStatus(workflowId, {
         id: workflowId,
         type: 'release',
         status: 'failed',
@@ -310,7 +487,7 @@ export class WorkflowOrchestrator {
     try {
       logger.info('Syncing workflow status', params);
 
-      const existingStatus = this.workflowState.get(params.workflow_id);
+      const existingStatus = await this.workflowState.get(params.workflow_id);
       if (!existingStatus) {
         throw new Error(`Workflow ${params.workflow_id} not found`);
       }
@@ -334,7 +511,7 @@ export class WorkflowOrchestrator {
         }
       }
 
-      this.workflowState.set(params.workflow_id, updatedStatus);
+      await this.workflowState.save(updatedStatus);
       logger.info('Workflow status synced', { workflowId: params.workflow_id, status: params.status_update });
       return updatedStatus;
 
@@ -348,9 +525,9 @@ export class WorkflowOrchestrator {
     try {
       logger.info('Generating team insights', params);
 
-      const teamData = await this.gatherTeamData(params.team_name, params.time_period || '30d');
+      const teamData = await this.gatherTeamData(params.team_name, params.time_period || '30d', params.repositories);
 
-      const aiAnalysis = await this.ai.generateTeamInsights(teamData);
+      const aiAnalysis = await this.ai.generateTeamInsights(teamData, { forceRefresh: params.force_refresh });
 
       const result: TeamInsights = {
         velocity: {
@@ -365,8 +542,13 @@ export class WorkflowOrchestrator {
           deploymentFrequency: 0,
           cycleTime: 0,
         },
+        deploymentMetrics: teamData.deploymentMetrics,
       };
 
+      if (teamData.deploymentMetrics) {
+        result.teamMetrics.deploymentFrequency = teamData.deploymentMetrics.deploymentsPerWeek;
+      }
+
       logger.info('Team insights generated', { 
         team: params.team_name, 
         velocityTrend: result.velocity.trend,
@@ -380,6 +562,61 @@ export class WorkflowOrchestrator {
     }
   }
 
+  /**
+   * Deployment frequency, lead time for changes, change failure rate and time
+   * to restore for a repository and/or a team's repositories, computed from
+   * production deployments and Jira incidents without involving the model.
+   */
+  async getDoraMetrics(params: DoraMetricsParams): Promise<DoraMetrics> {
+    const team = params.team_name ? this.resolveTeam(params.team_name) : undefined;
+    const repositories = [...new Set([...(team?.repositories || []), ...(params.repository ? [params.repository] : [])])];
+    if (repositories.length === 0) {
+      throw new Error('DORA metrics need a repository or a team with repositories');
+    }
+
+    const period = params.time_period || '30d';
+    const days = parseTimePeriod(period);
+    const end = new Date();
+    const start = new Date(end.getTime() - days * 24 * 60 * 60 * 1000);
+    const environment = params.environment || this.deploymentEnvironment;
+
+    try {
+      logger.info('Calculating DORA metrics', { team: team?.name, repositories, period, environment });
+
+      const deployments: DoraDeployment[] = [];
+      for (const repository of repositories) {
+        const [owner, repo] = repository.split('/');
+        if (!owner || !repo) {
+          throw new Error(`Invalid repository format "${repository}". Expected "owner/repo"`);
+        }
+        deployments.push(...await this.getDoraDeployments(owner, repo, environment, start));
+      }
+
+      const incidentJql = params.incident_jql || (team?.jiraProject ? buildJql(and(eq('project', team.jiraProject), eq('issuetype', 'Incident'))) : undefined);
+      const incidents: DoraIncident[] = incidentJql
+        ? (await this.jira.getResolvedIssueActivity(incidentJql, start.toISOString(), 500)).map(issue => ({
+          key: issue.key,
+          created: issue.created,
+          resolvedAt: issue.resolvedAt,
+        }))
+        : [];
+
+      const result: DoraMetrics = {
+        team: team?.name,
+        environment,
+        period: { start: start.toISOString(), end: end.toISOString(), days },
+        ...calculateDoraMetrics({ deployments, incidents, start, end }),
+      };
+
+      logger.info('DORA metrics calculated', { team: team?.name, repositories, summary: result.summary });
+      return result;
+
+    } catch (error) {
+      logger.error('DORA metrics calculation failed', { params, error });
+      throw error;
+    }
+  }
+
   private async extractJiraContext(title: string, body: string): Promise<{ tickets: string[] } | null> {
     try {
       const jiraKeyPattern = /([A-Z]+-\d+)/g;
@@ -417,8 +654,11 @@ export class WorkflowOrchestrator {
   private async findSimilarIssues(title: string, description: string): Promise<Array<{ key: string; summary: string }>> {
     try {
       const keywords = this.extractKeywords(title + ' ' + description);
-      const jql = `text ~ "${keywords.slice(0, 3).join(' OR ')}" ORDER BY created DESC`;
-      const issues = await this.jira.searchIssues(jql, 5);
+      if (keywords.length === 0) {
+        return [];
+      }
+      const jql = buildJql(or(...keywords.slice(0, 3).map(keyword => contains('text', keyword))), [{ field: 'created', direction: 'DESC' }]);
+      const issues = await this.jira.searchIssues(jql, 5, { fields: ['summary'] });
       
       return issues.map(issue => ({
         key: issue.key,
@@ -436,30 +676,43 @@ export class WorkflowOrchestrator {
     return words.filter(word => word.length > 3 && !stopWords.has(word)).slice(0, 10);
   }
 
-  private async getTeamMembers(owner: string, repo: string): Promise<string[]> {
-    try {
-      const stats = await this.github.getRepositoryStats(owner, repo);
-      return stats.contributors;
-    } catch (error) {
-      logger.warn('Failed to get team members', { owner, repo, error });
-      return [];
+  /**
+   * Keeps an issue's current sprint; otherwise suggests the active sprint for
+   * high and critical issues and the next planned sprint for the rest, on the
+   * project's scrum board (preferring one named after the team).
+   */
+  private async getSuggestedSprint(issue: JiraIssue, priority: IssueTriageResult['priority'], teamContext?: string): Promise<string | undefined> {
+    if (issue.sprint) {
+      return issue.sprint;
     }
-  }
 
-  private async getSuggestedSprint(issueKey: string): Promise<string | undefined> {
     try {
-      const issue = await this.jira.getIssue(issueKey);
-      return issue.sprint || 'Next Sprint';
+      const projectKey = issue.key.split('-')[0] || issue.key;
+      const boards = (await this.jira.getBoardsForProject(projectKey)).filter(board => board.type === 'scrum');
+      const team = teamContext?.toLowerCase();
+      const board = (team && boards.find(candidate => candidate.name.toLowerCase().includes(team))) || boards[0];
+      if (!board) {
+        return undefined;
+      }
+
+      const sprints = await this.jira.getSprints(board.id, ['active', 'future']);
+      const active = sprints.find(sprint => sprint.state === 'active');
+      const next = sprints.find(sprint => sprint.state === 'future');
+
+      if ((priority === 'critical' || priority === 'high') && active) {
+        return active.name;
+      }
+      return (next || active)?.name;
     } catch (error) {
-      logger.warn('Failed to get suggested sprint', { issueKey, error });
+      logger.warn('Failed to get suggested sprint', { issueKey: issue.key, error });
       return undefined;
     }
   }
 
   private async getBlockingIssues(projectKey: string): Promise<Array<{ key: string; priority: string; summary: string }>> {
     try {
-      const jql = `project = "${projectKey}" AND status NOT IN ("Done", "Closed") AND priority = "Highest"`;
-      const issues = await this.jira.searchIssues(jql, 10);
+      const jql = buildJql(and(eq('project', projectKey), notInList('status', ['Done', 'Closed']), eq('priority', 'Highest')));
+      const issues = await this.jira.searchIssues(jql, 10, { fields: ['summary', 'priority'] });
       
       return issues.map(issue => ({
         key: issue.key,
@@ -472,12 +725,160 @@ export class WorkflowOrchestrator {
     }
   }
 
-  private async getTestResults(owner: string, repo: string): Promise<{ passed: number; failed: number; coverage: number }> {
-    return { passed: 0, failed: 0, coverage: 0 };
+  /**
+   * Collects CI results for the release ref: check runs for the overall state,
+   * plus JUnit, lcov and Cobertura reports from the Actions artifacts of the
+   * latest run of each workflow. Check runs stand in for the counts when no
+   * JUnit report was uploaded.
+   */
+  private async getTestResults(owner: string, repo: string, releaseVersion: string): Promise<TestResults> {
+    const results: TestResults = {
+      ref: releaseVersion,
+      passed: 0,
+      failed: 0,
+      skipped: 0,
+      coverage: 0,
+      suites: [],
+      coverageReports: [],
+      checks: { total: 0, passed: 0, failed: 0, pending: 0 },
+      source: 'none',
+    };
+
+    try {
+      const { ref, sha } = await this.resolveReleaseRef(owner, repo, releaseVersion);
+      results.ref = ref;
+      results.sha = sha;
+
+      const [checkRuns, workflowRuns] = await Promise.all([
+        this.github.getCheckRuns(owner, repo, sha),
+        this.github.getWorkflowRuns(owner, repo, sha),
+      ]);
+
+      for (const run of checkRuns) {
+        results.checks.total++;
+        if (run.status !== 'completed') {
+          results.checks.pending++;
+        } else if (run.conclusion === 'success') {
+          results.checks.passed++;
+        } else if (run.conclusion && FAILED_CHECK_CONCLUSIONS.has(run.conclusion)) {
+          results.checks.failed++;
+        }
+      }
+
+      // Runs are returned newest first; only the latest attempt of each workflow counts
+      const latestRuns = new Map<string, number>();
+      for (const run of workflowRuns) {
+        if (run.status === 'completed' && !latestRuns.has(run.name)) {
+          latestRuns.set(run.name, run.id);
+        }
+      }
+
+      const reports = await this.collectArtifactReports(owner, repo, [...latestRuns.values()]);
+      results.suites = reports.suites;
+      results.coverageReports = reports.coverage.map(report => ({
+        name: report.name,
+        format: report.format,
+        percentage: report.percentage,
+      }));
+      results.coverage = combinedCoverage(reports.coverage);
+
+      if (reports.suites.length > 0) {
+        results.source = 'reports';
+        results.passed = reports.suites.reduce((sum, suite) => sum + suite.passed, 0);
+        results.failed = reports.suites.reduce((sum, suite) => sum + suite.failed, 0);
+        results.skipped = reports.suites.reduce((sum, suite) => sum + suite.skipped, 0);
+      } else if (results.checks.total > 0) {
+        results.source = 'checks';
+        results.passed = results.checks.passed;
+        results.failed = results.checks.failed;
+      }
+
+      logger.info('Collected test results', {
+        owner,
+        repo,
+        ref,
+        source: results.source,
+        passed: results.passed,
+        failed: results.failed,
+        coverage: results.coverage,
+      });
+    } catch (error) {
+      logger.warn('Failed to collect test results', { owner, repo, releaseVersion, error });
+    }
+
+    return results;
   }
 
-  private async getDeploymentHistory(owner: string, repo: string): Promise<Array<{ version: string; success: boolean; date: string }>> {
-    return [];
+  private async collectArtifactReports(owner: string, repo: string, runIds: number[]): Promise<ParsedReports> {
+    const reports: ParsedReports = { coverage: [], suites: [] };
+
+    const artifacts = (await Promise.all(runIds.map(runId => this.github.getWorkflowRunArtifacts(owner, repo, runId))))
+      .flat()
+      .filter(artifact => !artifact.expired && artifact.sizeInBytes <= MAX_ARTIFACT_BYTES && REPORT_ARTIFACT_PATTERN.test(artifact.name))
+      .slice(0, MAX_REPORT_ARTIFACTS);
+
+    for (const artifact of artifacts) {
+      try {
+        const parsed = parseArtifactArchive(await this.github.downloadArtifact(owner, repo, artifact.id));
+        reports.coverage.push(...parsed.coverage.map(report => ({ ...report, name: `${artifact.name}/${report.name}` })));
+        reports.suites.push(...parsed.suites);
+      } catch (error) {
+        logger.warn('Failed to parse test report artifact', { owner, repo, artifact: artifact.name, error });
+      }
+    }
+
+    return reports;
+  }
+
+  /**
+   * Uses the release tag when it already exists (with or without a "v"
+   * prefix) and the default branch otherwise.
+   */
+  private async resolveReleaseRef(owner: string, repo: string, releaseVersion: string): Promise<{ ref: string; sha: string }> {
+    const bareVersion = releaseVersion.replace(/^v/, '');
+    for (const ref of [...new Set([releaseVersion, `v${bareVersion}`, bareVersion])]) {
+      const sha = await this.github.resolveCommitSha(owner, repo, ref);
+      if (sha) {
+        return { ref, sha };
+      }
+    }
+
+    const defaultBranch = await this.github.getDefaultBranch(owner, repo);
+    const sha = await this.github.resolveCommitSha(owner, repo, defaultBranch);
+    if (!sha) {
+      throw new Error(`Could not resolve ${defaultBranch} in ${owner}/${repo}`);
+    }
+    return { ref: defaultBranch, sha };
+  }
+
+  /**
+   * Recent production deployments and the metrics derived from them. Missing
+   * deployment data should not block a release assessment, so failures are
+   * logged and an empty history is returned.
+   */
+  private async getDeploymentHistory(owner: string, repo: string): Promise<{
+    history: Array<{ version: string; success: boolean; date: string }>;
+    metrics?: DeploymentMetrics;
+  }> {
+    try {
+      const deployments = await this.github.getDeployments(owner, repo, { environment: this.deploymentEnvironment, limit: 50 });
+      if (deployments.length === 0) {
+        return { history: [] };
+      }
+
+      return {
+        history: deployments.flatMap(deployment => (deployment.finishedAt
+          ? [{ version: deployment.ref, success: deployment.state === 'success', date: deployment.finishedAt }]
+          : [])),
+        metrics: calculateDeploymentMetrics(deployments, {
+          environment: this.deploymentEnvironment,
+          windowDays: RELEASE_DEPLOYMENT_WINDOW_DAYS,
+        }),
+      };
+    } catch (error) {
+      logger.warn('Failed to fetch deployment history', { owner, repo, environment: this.deploymentEnvironment, error });
+      return { history: [] };
+    }
   }
 
   private determineReleaseRecommendation(readinessScore: number): 'proceed' | 'caution' | 'block' {
@@ -552,20 +953,77 @@ export class WorkflowOrchestrator {
     }
   }
 
-  private async gatherTeamData(teamName: string, period: string): Promise<any> {
-    return {
+  /**
+   * Collects activity for a team. Repositories passed with the request are
+   * added to the team's own.
+   */
+  private async gatherTeamData(teamName: string, period: string, repositories: string[] = []): Promise<TeamData> {
+    const team = this.resolveTeam(teamName);
+
+    return this.teamData.collect({
+      ...team,
+      repositories: [...new Set([...team.repositories, ...repositories])],
+    }, period);
+  }
+
+  /**
+   * Finds a configured team by name or GitHub team slug. Unknown names are
+   * treated as a GitHub team slug in the configured organization.
+   */
+  private resolveTeam(teamName: string): TeamDefinition {
+    return this.teams.find(team => team.name === teamName || team.githubTeam === teamName) || {
       name: teamName,
-      members: [],
-      velocity: { current: 0, historical: [] },
-      pullRequests: [],
-      issues: [],
-      deployments: [],
-      period,
+      githubTeam: this.organization ? teamName : undefined,
+      repositories: [],
     };
   }
 
-  private updateWorkflowStatus(workflowId: string, status: WorkflowStatus): void {
-    this.workflowState.set(workflowId, status);
-    logger.debug('Workflow status updated', { workflowId, status: status.status });
+  /**
+   * Production deployments created since `start`, each successful one with
+   * its lead time: hours from the oldest commit it shipped (compared with the
+   * previous successful deployment) to the deployment succeeding.
+   */
+  private async getDoraDeployments(owner: string, repo: string, environment: string, start: Date): Promise<DoraDeployment[]> {
+    const deployments = await this.github.getDeployments(owner, repo, {
+      environment,
+      since: new Date(start.getTime() - LEAD_TIME_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+      limit: MAX_DORA_DEPLOYMENTS,
+    });
+    const chronological = [...deployments].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    const results: DoraDeployment[] = [];
+    let previousSuccess: (typeof chronological)[number] | undefined;
+    for (const deployment of chronological) {
+      let leadTimeHours: number | null = null;
+
+      if (new Date(deployment.createdAt) >= start && deployment.state === 'success' && previousSuccess && previousSuccess.sha !== deployment.sha) {
+        try {
+          const commits = await this.github.getCommitsBetween(owner, repo, previousSuccess.sha, deployment.sha);
+          const firstCommitAt = commits.map(commit => commit.authoredAt).sort()[0];
+          if (firstCommitAt) {
+            const deployedAt = new Date(deployment.finishedAt || deployment.createdAt).getTime();
+            leadTimeHours = Math.round(((deployedAt - new Date(firstCommitAt).getTime()) / (60 * 60 * 1000)) * 10) / 10;
+          }
+        } catch (error) {
+          logger.warn('Failed to compute deployment lead time', { owner, repo, deploymentId: deployment.id, error });
+        }
+      }
+
+      results.push({ repository: `${owner}/${repo}`, createdAt: deployment.createdAt, state: deployment.state, leadTimeHours });
+      if (deployment.state === 'success') {
+        previousSuccess = deployment;
+      }
+    }
+
+    return results;
+  }
+
+  private async updateWorkflowStatus(workflowId: string, status: WorkflowStatus): Promise<void> {
+    try {
+      await this.workflowState.save(status);
+      logger.debug('Workflow status updated', { workflowId, status: status.status });
+    } catch (error) {
+      logger.warn('Failed to persist workflow status', { workflowId, status: status.status, error });
+    }
   }
 }
\ No newline at end of file
@@ -0,0 +1,139 @@
+import logger from '../utils/logger.js';
+import { GitHubIntegration, PRDetails } from '../integrations/github.js';
+import { describeFlag } from '../utils/injection.js';
+import { PRAnalysisResult, PullRequestActionPolicy, PullRequestActionsResult } from '../types/index.js';
+
+// Hidden marker that identifies the sticky summary comment on re-runs
+export const SUMMARY_COMMENT_MARKER = '<!-- idwo:pr-analysis -->';
+const RISK_LABEL_PREFIX = 'risk:';
+const TOPIC_LABEL_PREFIX = 'topic:';
+const DEFAULT_MAX_REVIEWERS = 2;
+// GitHub rejects longer label names
+const MAX_LABEL_LENGTH = 50;
+
+/**
+ * Picks the policy for a repository: an exact "owner/repo" entry, then
+ * "owner/*", then "*".
+ */
+export function findActionPolicy(policies: PullRequestActionPolicy[], owner: string, repo: string): PullRequestActionPolicy | undefined {
+  const candidates = [`${owner}/${repo}`, `${owner}/*`, '*'].map(repository => repository.toLowerCase());
+  for (const candidate of candidates) {
+    const policy = policies.find(entry => entry.repository.toLowerCase() === candidate);
+    if (policy) {
+      return policy;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Writes an analysis back onto its pull request as far as the repository's
+ * policy allows: requests the suggested reviewers, labels the risk level and
+ * topics, and keeps a single summary comment that is edited on re-runs. Each
+ * action that fails is recorded and the rest still run.
+ */
+export class PullRequestActions {
+  private github: GitHubIntegration;
+  private policies: PullRequestActionPolicy[];
+
+  constructor(github: GitHubIntegration, policies: PullRequestActionPolicy[]) {
+    this.github = github;
+    this.policies = policies;
+  }
+
+  /**
+   * Returns undefined when the repository's policy allows no actions.
+   */
+  async apply(owner: string, repo: string, pr: PRDetails, analysis: PRAnalysisResult): Promise<PullRequestActionsResult | undefined> {
+    const policy = findActionPolicy(this.policies, owner, repo);
+    if (!policy || !(policy.requestReviewers || policy.labels || policy.comment)) {
+      logger.info('No pull request actions allowed for repository', { repository: `${owner}/${repo}` });
+      return undefined;
+    }
+
+    const result: PullRequestActionsResult = { reviewersRequested: [], labelsAdded: [], labelsRemoved: [], errors: [] };
+    const attempt = async (action: string, fn: () => Promise<void>): Promise<void> => {
+      try {
+        await fn();
+      } catch (error) {
+        logger.warn('Pull request action failed', { owner, repo, pullNumber: pr.number, action, error });
+        result.errors.push(`${action}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    };
+
+    if (policy.requestReviewers) {
+      // Reviewers who already reviewed are not asked again
+      const reviewed = new Set(pr.reviews.map(review => review.user.toLowerCase()));
+      const reviewers = analysis.suggestedReviewers
+        .filter(login => login.toLowerCase() !== pr.author.toLowerCase() && !reviewed.has(login.toLowerCase()))
+        .slice(0, policy.maxReviewers ?? DEFAULT_MAX_REVIEWERS);
+      if (reviewers.length > 0) {
+        await attempt('requestReviewers', async () => {
+          await this.github.requestReviewers(owner, repo, pr.number, reviewers);
+          result.reviewersRequested = reviewers;
+        });
+      }
+    }
+
+    if (policy.labels) {
+      const current = new Set(pr.labels.map(label => label.toLowerCase()));
+      const topics = analysis.topics.map(topicLabel).filter(label => label.length > TOPIC_LABEL_PREFIX.length);
+      const desired = [`${RISK_LABEL_PREFIX}${analysis.riskLevel}`, ...topics];
+      const labelsToAdd = [...new Set(desired)].filter(label => !current.has(label.toLowerCase()));
+      // A re-run can change the risk level, so the previous one is replaced; topic labels only accumulate
+      const labelsToRemove = pr.labels.filter(label => (
+        label.toLowerCase().startsWith(RISK_LABEL_PREFIX) && !desired.some(wanted => wanted.toLowerCase() === label.toLowerCase())
+      ));
+
+      if (labelsToAdd.length > 0) {
+        await attempt('addLabels', async () => {
+          await this.github.addLabels(owner, repo, pr.number, labelsToAdd);
+          result.labelsAdded = labelsToAdd;
+        });
+      }
+      for (const label of labelsToRemove) {
+        await attempt('removeLabel', async () => {
+          await this.github.removeLabel(owner, repo, pr.number, label);
+          result.labelsRemoved.push(label);
+        });
+      }
+    }
+
+    if (policy.comment) {
+      await attempt('comment', async () => {
+        const comment = await this.github.upsertComment(owner, repo, pr.number, SUMMARY_COMMENT_MARKER, renderSummaryComment(analysis));
+        result.commentUrl = comment.url;
+      });
+    }
+
+    logger.info('Applied pull request actions', { owner, repo, pullNumber: pr.number, ...result });
+    return result;
+  }
+}
+
+export function renderSummaryComment(analysis: PRAnalysisResult): string {
+  const reasons = new Map((analysis.reviewerRecommendations || []).map(recommendation => [recommendation.login, recommendation.reasons]));
+  const reviewers = analysis.suggestedReviewers.map(login => {
+    const why = reasons.get(login) || [];
+    return `- @${login}${why.length > 0 ? `: ${why.join('; ')}` : ''}`;
+  });
+
+  return [
+    '### 🤖 IDWO Pull Request Analysis',
+    `**Risk:** ${analysis.riskLevel} · **Estimated review time:** ~${analysis.estimatedReviewTime}h`,
+    analysis.summary,
+    ...(analysis.flags?.length ? [['**⚠️ Flags**', ...analysis.flags.map(flag => `- ${describeFlag(flag)}`)].join('\n')] : []),
+    ...(reviewers.length > 0 ? [['**Suggested reviewers**', ...reviewers].join('\n')] : []),
+    ...(analysis.reviewerRationale ? [analysis.reviewerRationale] : []),
+    [
+      ...(analysis.topics.length > 0 ? [`**Topics:** ${analysis.topics.join(', ')}`] : []),
+      ...(analysis.relatedJiraTickets?.length ? [`**Related Jira tickets:** ${analysis.relatedJiraTickets.join(', ')}`] : []),
+    ].join('  \n'),
+    '<sub>Updated in place each time IDWO analyzes this pull request.</sub>',
+  ].filter(section => section.trim().length > 0).join('\n\n');
+}
+
+function topicLabel(topic: string): string {
+  const slug = topic.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${TOPIC_LABEL_PREFIX}${slug}`.slice(0, MAX_LABEL_LENGTH);
+}
@@ -0,0 +1,216 @@
+import logger from '../utils/logger.js';
+import { GitHubIntegration, PRDetails } from '../integrations/github.js';
+import { SlackIntegration, SlackUser } from '../integrations/slack.js';
+import { findCodeOwners, parseCodeOwners } from '../utils/codeowners.js';
+import { ReviewerRecommendation } from '../types/index.js';
+import { IdentityDirectory } from './identity.js';
+
+interface ReviewerActivity {
+  login: string;
+  ownedFiles: number;
+  commits: number;
+  reviews: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// How far back authorship and reviews of the changed paths count
+const HISTORY_WINDOW_DAYS = 90;
+// Directories whose commit history is read, largest changes first
+const MAX_HISTORY_PATHS = 10;
+const REVIEW_HISTORY_LIMIT = 50;
+// Each signal contributes its share (0-1) times its weight
+const OWNERSHIP_WEIGHT = 3;
+const AUTHORSHIP_WEIGHT = 2;
+const REVIEW_WEIGHT = 2;
+// Every open review request divides the score by another 25%
+const LOAD_PENALTY = 0.25;
+const OUT_OF_OFFICE_TEXT = /\b(?:ooo|out of (?:the )?office|vacation|holiday|pto|on leave|parental leave|sick)\b/i;
+const OUT_OF_OFFICE_EMOJI = new Set([':palm_tree:', ':airplane:', ':desert_island:', ':beach_with_umbrella:', ':face_with_thermometer:']);
+
+/**
+ * Ranks reviewers for a pull request from the repository's CODEOWNERS, who
+ * recently authored and reviewed the changed paths, and how many reviews
+ * they already have open. The PR author, bots and people whose Slack status
+ * says they are away are left out. The ranking is deterministic; the model
+ * only explains it.
+ */
+export class ReviewerRecommender {
+  private github: GitHubIntegration;
+  private slack: SlackIntegration;
+  private identities: IdentityDirectory;
+
+  constructor(github: GitHubIntegration, slack: SlackIntegration, identities: IdentityDirectory) {
+    this.github = github;
+    this.slack = slack;
+    this.identities = identities;
+  }
+
+  async recommend(
+    owner: string,
+    repo: string,
+    pr: Pick<PRDetails, 'author' | 'files'>,
+    options: { limit?: number; now?: Date } = {}
+  ): Promise<ReviewerRecommendation[]> {
+    const limit = options.limit ?? 3;
+    const now = options.now ?? new Date();
+    const since = new Date(now.getTime() - HISTORY_WINDOW_DAYS * DAY_MS).toISOString();
+    const repository = `${owner}/${repo}`;
+    const files = pr.files.map(file => file.filename);
+    const paths = historyPaths(pr.files);
+
+    const [codeOwners, commits, history, openReviews] = await Promise.all([
+      this.fromSource(repository, 'CODEOWNERS', null, () => this.github.getCodeOwners(owner, repo)),
+      this.fromSource(repository, 'commit history', [], () => this.getCommits(owner, repo, paths, since)),
+      this.fromSource(repository, 'review history', [], () => this.github.getReviewHistory(owner, repo, { since, limit: REVIEW_HISTORY_LIMIT })),
+      this.fromSource<Record<string, number>>(repository, 'open review requests', {}, () => this.github.getOpenReviewRequests(owner, repo)),
+    ]);
+
+    const activity = new Map<string, ReviewerActivity>();
+    const record = (login: string): ReviewerActivity => {
+      const key = login.toLowerCase();
+      const existing = activity.get(key) ?? { login, ownedFiles: 0, commits: 0, reviews: 0 };
+      activity.set(key, existing);
+      return existing;
+    };
+
+    const owners = await this.ownersByFile(repository, codeOwners, files);
+    for (const fileOwners of owners) {
+      fileOwners.forEach(login => record(login).ownedFiles++);
+    }
+    commits.forEach(commit => record(commit.author).commits++);
+    const touching = history.filter(pull => pull.files.some(file => touches(file, paths)));
+    touching.forEach(pull => pull.reviewers.forEach(login => record(login).reviews++));
+
+    const openByLogin = new Map(Object.entries(openReviews).map(([login, count]) => [login.toLowerCase(), count]));
+    const ranked = [...activity.values()]
+      .filter(candidate => candidate.login.toLowerCase() !== pr.author.toLowerCase() && !candidate.login.endsWith('[bot]'))
+      .map(candidate => toRecommendation(candidate, openByLogin.get(candidate.login.toLowerCase()) ?? 0, {
+        files: files.length,
+        commits: commits.length,
+        pullRequests: touching.length,
+      }))
+      .sort((a, b) => b.score - a.score || a.login.localeCompare(b.login));
+
+    const recommendations: ReviewerRecommendation[] = [];
+    for (const candidate of ranked) {
+      if (recommendations.length >= limit) {
+        break;
+      }
+      if (await this.isAvailable(candidate.login, now)) {
+        recommendations.push(candidate);
+      }
+    }
+    return recommendations;
+  }
+
+  // Logins owning each file, with @org/team owners expanded to their members
+  private async ownersByFile(repository: string, codeOwners: string | null, files: string[]): Promise<Array<Set<string>>> {
+    const rules = codeOwners ? parseCodeOwners(codeOwners) : [];
+    const teams = new Map<string, Promise<string[]>>();
+    const expand = (owner: string): Promise<string[]> => {
+      const [org, slug] = owner.slice(1).split('/');
+      if (!org || !slug) {
+        return Promise.resolve([]);
+      }
+      const members = teams.get(owner) ?? this.fromSource(repository, `members of ${owner}`, [], () => this.github.getTeamMembers(org, slug));
+      teams.set(owner, members);
+      return members;
+    };
+
+    return Promise.all(files.map(async file => {
+      const logins = new Set<string>();
+      for (const owner of findCodeOwners(rules, file)) {
+        // Email owners have no login to request a review from
+        if (!owner.startsWith('@')) {
+          continue;
+        }
+        const members = owner.includes('/') ? await expand(owner) : [owner.slice(1)];
+        members.forEach(login => logins.add(login));
+      }
+      return logins;
+    }));
+  }
+
+  private async getCommits(owner: string, repo: string, paths: string[], since: string): Promise<Array<{ sha: string; author: string }>> {
+    const perPath = await Promise.all(paths.map(path => this.github.getCommitsForPath(owner, repo, path, since)));
+    const bySha = new Map(perPath.flat().map(commit => [commit.sha, commit]));
+    return [...bySha.values()];
+  }
+
+  private async isAvailable(login: string, now: Date): Promise<boolean> {
+    try {
+      const identity = await this.identities.fromGitHub(login);
+      if (!identity.slack) {
+        return true;
+      }
+      const user = await this.slack.getUserInfo(identity.slack);
+      if (user.deleted || isOutOfOffice(user, now)) {
+        logger.info('Skipping unavailable reviewer', { login, status: user.statusText });
+        return false;
+      }
+    } catch (error) {
+      logger.warn('Failed to check reviewer availability', { login, error });
+    }
+    return true;
+  }
+
+  private async fromSource<T>(repository: string, source: string, fallback: T, fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      logger.warn(`Failed to collect ${source} for reviewer recommendation`, { repository, error });
+      return fallback;
+    }
+  }
+}
+
+function isOutOfOffice(user: SlackUser, now: Date): boolean {
+  if (user.statusExpiresAt && new Date(user.statusExpiresAt).getTime() <= now.getTime()) {
+    return false;
+  }
+  return (!!user.statusText && OUT_OF_OFFICE_TEXT.test(user.statusText))
+    || (!!user.statusEmoji && OUT_OF_OFFICE_EMOJI.has(user.statusEmoji));
+}
+
+function toRecommendation(
+  activity: ReviewerActivity,
+  openReviews: number,
+  totals: { files: number; commits: number; pullRequests: number }
+): ReviewerRecommendation {
+  const share = (count: number, total: number) => (total > 0 ? count / total : 0);
+  const relevance = OWNERSHIP_WEIGHT * share(activity.ownedFiles, totals.files)
+    + AUTHORSHIP_WEIGHT * share(activity.commits, totals.commits)
+    + REVIEW_WEIGHT * share(activity.reviews, totals.pullRequests);
+
+  const reasons = [
+    activity.ownedFiles > 0 && `owns ${activity.ownedFiles} of ${totals.files} changed files in CODEOWNERS`,
+    activity.commits > 0 && `authored ${activity.commits} of ${totals.commits} recent commits to the changed paths`,
+    activity.reviews > 0 && `reviewed ${activity.reviews} of ${totals.pullRequests} recently merged pull requests touching the changed paths`,
+    openReviews > 0 && `${openReviews} open review request${openReviews === 1 ? '' : 's'}`,
+  ].filter((reason): reason is string => typeof reason === 'string');
+
+  return {
+    login: activity.login,
+    score: Math.round((relevance / (1 + LOAD_PENALTY * openReviews)) * 100) / 100,
+    reasons,
+    openReviews,
+  };
+}
+
+// Directories of the changed files (or the files themselves at the root), most changed first
+function historyPaths(files: PRDetails['files']): string[] {
+  const changes = new Map<string, number>();
+  for (const file of files) {
+    const slash = file.filename.lastIndexOf('/');
+    const path = slash > 0 ? file.filename.slice(0, slash) : file.filename;
+    changes.set(path, (changes.get(path) ?? 0) + (file.changes || 0));
+  }
+  return [...changes.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_HISTORY_PATHS)
+    .map(([path]) => path);
+}
+
+function touches(file: string, paths: string[]): boolean {
+  return paths.some(path => file === path || file.startsWith(`${path}/`));
+}
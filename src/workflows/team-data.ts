@@ -0,0 +1,183 @@
+import logger from '../utils/logger.js';
+import { GitHubIntegration, DeploymentInfo, PullRequestActivity } from '../integrations/github.js';
+import { JiraIntegration, JiraIssueActivity, SprintVelocity } from '../integrations/jira.js';
+import { calculateDeploymentMetrics, deploymentDurationHours } from '../utils/deployments.js';
+import { buildJql, eq } from '../utils/jql.js';
+import { DeploymentMetrics, TeamDefinition } from '../types/index.js';
+
+export interface TeamData {
+  name: string;
+  period: string;
+  since: string;
+  members: string[];
+  slackChannel?: string;
+  velocity: { current: number; historical: number[] };
+  sprints: Array<{ name: string; committedPoints: number; completedPoints: number }>;
+  pullRequests: Array<{
+    repository: string;
+    number: number;
+    author: string;
+    size: number;
+    // Hours until the first review, null when nobody else has reviewed yet
+    reviewTime: number | null;
+    mergeTime: number | null;
+  }>;
+  issues: Array<{
+    key: string;
+    issueType: string;
+    priority: string;
+    assignee?: string;
+    storyPoints?: number;
+    // Hours from creation to resolution
+    timeToResolve: number;
+    // Hours from the first status change to resolution
+    cycleTime: number | null;
+  }>;
+  deployments: Array<{
+    repository: string;
+    environment: string;
+    ref: string;
+    state: string;
+    createdAt: string;
+    deployDurationHours: number | null;
+  }>;
+  deploymentMetrics?: DeploymentMetrics;
+}
+
+const PERIOD_UNIT_DAYS: Record<string, number> = { d: 1, w: 7, m: 30, q: 91, y: 365 };
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Converts periods such as "30d", "2w" or "1q" into days.
+ */
+export function parseTimePeriod(period: string): number {
+  const [, amount, unit] = period.trim().toLowerCase().match(/^(\d+)\s*([dwmqy])$/) || [];
+  const unitDays = unit ? PERIOD_UNIT_DAYS[unit] : undefined;
+  if (!amount || !unitDays || parseInt(amount, 10) === 0) {
+    throw new Error(`Invalid time period "${period}". Expected a number followed by d, w, m, q or y (e.g. "30d")`);
+  }
+  return parseInt(amount, 10) * unitDays;
+}
+
+/**
+ * Collects a team's pull requests, resolved issues, sprint velocity and
+ * deployments for a period. Each source is optional: a source the team does
+ * not define is skipped, and one that fails is logged and left empty so the
+ * remaining data can still be analyzed.
+ */
+export class TeamDataCollector {
+  private github: GitHubIntegration;
+  private jira: JiraIntegration;
+  private organization?: string;
+  private deploymentEnvironment: string;
+
+  constructor(github: GitHubIntegration, jira: JiraIntegration, options: { organization?: string; deploymentEnvironment: string }) {
+    this.github = github;
+    this.jira = jira;
+    this.organization = options.organization;
+    this.deploymentEnvironment = options.deploymentEnvironment;
+  }
+
+  async collect(team: TeamDefinition, period: string, now: Date = new Date()): Promise<TeamData> {
+    const periodDays = parseTimePeriod(period);
+    const since = new Date(now.getTime() - periodDays * DAY_MS).toISOString();
+    const repositories = team.repositories.map(repository => {
+      const [owner, repo] = repository.split('/');
+      if (!owner || !repo) {
+        throw new Error(`Invalid repository format "${repository}". Expected "owner/repo"`);
+      }
+      return { owner, repo, repository };
+    });
+
+    const { githubTeam, jiraProject, jiraBoardId } = team;
+    const organization = this.organization;
+
+    const members = githubTeam && organization
+      ? await this.fromSource(team, 'GitHub team members', [], () => this.github.getTeamMembers(organization, githubTeam))
+      : [];
+
+    const pullRequests: PullRequestActivity[] = [];
+    const deployments: Array<DeploymentInfo & { repository: string }> = [];
+    for (const { owner, repo, repository } of repositories) {
+      pullRequests.push(...await this.fromSource(team, `pull requests for ${repository}`, [], () => this.github.getPullRequestActivity(owner, repo, {
+        since,
+        authors: members.length > 0 ? members : undefined,
+      })));
+
+      const repoDeployments = await this.fromSource(team, `deployments for ${repository}`, [], () => this.github.getDeployments(owner, repo, {
+        environment: this.deploymentEnvironment,
+        since,
+        limit: 100,
+      }));
+      deployments.push(...repoDeployments.map(deployment => ({ ...deployment, repository })));
+    }
+
+    const issues: JiraIssueActivity[] = jiraProject
+      ? await this.fromSource(team, 'resolved Jira issues', [], () => this.jira.getResolvedIssueActivity(buildJql(eq('project', jiraProject)), since))
+      : [];
+
+    const sprints: SprintVelocity[] = jiraBoardId !== undefined
+      ? await this.fromSource(team, 'sprint velocity', [], () => this.jira.getSprintVelocity(jiraBoardId, since))
+      : [];
+    const completed = sprints.map(sprint => sprint.completedPoints);
+
+    return {
+      name: team.name,
+      period,
+      since,
+      members,
+      slackChannel: team.slackChannel,
+      velocity: { current: completed[completed.length - 1] ?? 0, historical: completed },
+      sprints: sprints.map(sprint => ({
+        name: sprint.sprint.name,
+        committedPoints: sprint.committedPoints,
+        completedPoints: sprint.completedPoints,
+      })),
+      pullRequests: pullRequests.map(pull => ({
+        repository: pull.repository,
+        number: pull.number,
+        author: pull.author,
+        size: pull.additions + pull.deletions,
+        reviewTime: hoursBetween(pull.createdAt, pull.firstReviewAt),
+        mergeTime: hoursBetween(pull.createdAt, pull.mergedAt),
+      })),
+      issues: issues.map(issue => ({
+        key: issue.key,
+        issueType: issue.issueType,
+        priority: issue.priority,
+        assignee: issue.assignee,
+        storyPoints: issue.storyPoints,
+        timeToResolve: hoursBetween(issue.created, issue.resolvedAt) ?? 0,
+        cycleTime: hoursBetween(issue.startedAt, issue.resolvedAt),
+      })),
+      deployments: deployments.map(deployment => ({
+        repository: deployment.repository,
+        environment: deployment.environment,
+        ref: deployment.ref,
+        state: deployment.state,
+        createdAt: deployment.createdAt,
+        deployDurationHours: deploymentDurationHours(deployment),
+      })),
+      deploymentMetrics: repositories.length > 0
+        ? calculateDeploymentMetrics(deployments, { environment: this.deploymentEnvironment, windowDays: periodDays, now })
+        : undefined,
+    };
+  }
+
+  private async fromSource<T>(team: TeamDefinition, source: string, fallback: T, fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      logger.warn(`Failed to collect ${source}`, { team: team.name, error });
+      return fallback;
+    }
+  }
+}
+
+function hoursBetween(start: string | undefined, end: string | undefined): number | null {
+  if (!start || !end) {
+    return null;
+  }
+  return Math.round(((new Date(end).getTime() - new Date(start).getTime()) / HOUR_MS) * 10) / 10;
+}
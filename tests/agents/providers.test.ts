@@ -0,0 +1,274 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CreateMessageRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  AnthropicProvider,
+  AzureOpenAIProvider,
+  FakeLLMProvider,
+  LLMCompletionRequest,
+  OpenAICompatibleProvider,
+  OpenAIProvider,
+  SamplingClient,
+  SamplingLLMProvider,
+  createLLMProvider,
+  createSamplingClient,
+  runWithSamplingClient,
+} from '../../src/agents/providers/index.js';
+import { getAnalysisResponseSchema } from '../../src/agents/schemas.js';
+import { config } from '../../src/config/index.js';
+
+jest.mock('openai');
+jest.mock('@anthropic-ai/sdk');
+
+describe('LLM providers', () => {
+  const document = {
+    analysis: 'Small, low risk change.',
+    confidence: 80,
+    recommendations: [],
+    structured_data: { riskLevel: 'low', estimatedReviewTime: 1, reviewerRationale: '', topics: [] },
+  };
+
+  const request = (): LLMCompletionRequest => ({
+    name: 'pr_analysis',
+    messages: [
+      { role: 'system', content: 'You are a reviewer.' },
+      { role: 'user', content: 'Analyze this PR.' },
+    ],
+    schema: getAnalysisResponseSchema('pr_analysis'),
+    temperature: 0.3,
+    maxTokens: 2000,
+  });
+
+  describe('OpenAI-compatible providers', () => {
+    let createCompletion: jest.Mock;
+
+    beforeEach(() => {
+      createCompletion = jest.fn().mockResolvedValue({
+        model: 'gpt-4o-2024-08-06',
+        choices: [{ message: { content: JSON.stringify(document), refusal: null } }],
+        usage: { prompt_tokens: 120, completion_tokens: 40 },
+      });
+      const client = () => ({ chat: { completions: { create: createCompletion } } });
+      (OpenAI as unknown as jest.Mock).mockImplementation(client);
+      (AzureOpenAI as unknown as jest.Mock).mockImplementation(client);
+    });
+
+    it('should request a strict JSON schema response format from OpenAI', async () => {
+      const provider = new OpenAIProvider({ apiKey: 'test-key', model: 'gpt-4o' });
+
+      const completion = await provider.complete(request());
+
+      expect(OpenAI).toHaveBeenCalledWith({ apiKey: 'test-key', maxRetries: 0 });
+      expect(createCompletion.mock.calls[0][0]).toMatchObject({
+        model: 'gpt-4o',
+        max_tokens: 2000,
+        response_format: { type: 'json_schema', json_schema: { name: 'pr_analysis', strict: true } },
+      });
+      expect(completion).toEqual({
+        content: JSON.stringify(document),
+        model: 'gpt-4o-2024-08-06',
+        usage: { inputTokens: 120, outputTokens: 40 },
+      });
+    });
+
+    it('should address Azure OpenAI by deployment', async () => {
+      const provider = new AzureOpenAIProvider({
+        endpoint: 'https://example.openai.azure.com',
+        apiKey: 'azure-key',
+        deployment: 'analysis-gpt4o',
+        apiVersion: '2024-10-21',
+      });
+
+      await provider.complete(request());
+
+      expect(AzureOpenAI).toHaveBeenCalledWith(expect.objectContaining({
+        endpoint: 'https://example.openai.azure.com',
+        deployment: 'analysis-gpt4o',
+        apiVersion: '2024-10-21',
+      }));
+      expect(createCompletion.mock.calls[0][0].model).toBe('analysis-gpt4o');
+    });
+
+    it('should send the schema in the prompt when a local endpoint only supports JSON mode', async () => {
+      const provider = new OpenAICompatibleProvider({
+        baseUrl: 'http://localhost:11434/v1',
+        model: 'llama3.1',
+        apiKey: '',
+        responseFormat: 'json_object',
+      });
+
+      await provider.complete(request());
+
+      expect(OpenAI).toHaveBeenCalledWith(expect.objectContaining({ baseURL: 'http://localhost:11434/v1' }));
+      const sent = createCompletion.mock.calls[0][0];
+      expect(sent.response_format).toEqual({ type: 'json_object' });
+      expect(sent.messages).toHaveLength(3);
+      expect(sent.messages[0].content).toContain('"estimatedReviewTime"');
+    });
+
+    it('should fail when the model refuses', async () => {
+      createCompletion.mockResolvedValue({ choices: [{ message: { content: null, refusal: 'Cannot help' } }] });
+
+      await expect(new OpenAIProvider({ apiKey: 'test-key', model: 'gpt-4o' }).complete(request()))
+        .rejects.toThrow('Model refused the request: Cannot help');
+    });
+  });
+
+  describe('AnthropicProvider', () => {
+    let createMessage: jest.Mock;
+
+    beforeEach(() => {
+      createMessage = jest.fn().mockResolvedValue({
+        model: 'claude-sonnet-4-5',
+        stop_reason: 'tool_use',
+        content: [{ type: 'tool_use', id: 'toolu_1', name: 'pr_analysis', input: document }],
+        usage: { input_tokens: 200, output_tokens: 60 },
+      });
+      (Anthropic as unknown as jest.Mock).mockImplementation(() => ({ messages: { create: createMessage } }));
+    });
+
+    it('should force a tool call with the response schema and return its input', async () => {
+      const provider = new AnthropicProvider({ apiKey: 'test-key', model: 'claude-sonnet-4-5' });
+
+      const completion = await provider.complete(request());
+
+      const sent = createMessage.mock.calls[0][0];
+      expect(sent.system).toBe('You are a reviewer.');
+      expect(sent.messages).toEqual([{ role: 'user', content: 'Analyze this PR.' }]);
+      expect(sent.tool_choice).toEqual({ type: 'tool', name: 'pr_analysis' });
+      expect(sent.tools[0].input_schema).toMatchObject({ type: 'object', required: expect.arrayContaining(['structured_data']) });
+      expect(JSON.parse(completion.content)).toEqual(document);
+      expect(completion.usage).toEqual({ inputTokens: 200, outputTokens: 60 });
+    });
+
+    it('should fail when the response has no tool call', async () => {
+      createMessage.mockResolvedValue({
+        model: 'claude-sonnet-4-5',
+        stop_reason: 'max_tokens',
+        content: [{ type: 'text', text: 'partial' }],
+        usage: { input_tokens: 1, output_tokens: 1 },
+      });
+
+      await expect(new AnthropicProvider({ apiKey: 'test-key', model: 'claude-sonnet-4-5' }).complete(request()))
+        .rejects.toThrow('No pr_analysis tool call in Anthropic response (stop reason: max_tokens)');
+    });
+  });
+
+  describe('FakeLLMProvider', () => {
+    it('should generate a deterministic schema-valid document by default', async () => {
+      const provider = new FakeLLMProvider();
+
+      const first = await provider.complete(request());
+      const second = await provider.complete(request());
+
+      expect(first.content).toBe(second.content);
+      expect(getAnalysisResponseSchema('pr_analysis').safeParse(JSON.parse(first.content)).success).toBe(true);
+      expect(JSON.parse(first.content).structured_data.riskLevel).toBe('low');
+    });
+
+    it('should prefer queued responses over fixed responses', async () => {
+      const provider = new FakeLLMProvider({ responses: { pr_analysis: document } });
+      provider.enqueue('pr_analysis', 'not json');
+
+      expect((await provider.complete(request())).content).toBe('not json');
+      expect(JSON.parse((await provider.complete(request())).content)).toEqual(document);
+      expect(provider.requests).toHaveLength(2);
+    });
+  });
+
+  describe('SamplingLLMProvider', () => {
+    const samplingClient = (overrides: Partial<SamplingClient> = {}): SamplingClient => ({
+      supportsSampling: () => true,
+      createMessage: jest.fn().mockResolvedValue({
+        model: 'client-model',
+        role: 'assistant',
+        content: { type: 'text', text: '```json\n' + JSON.stringify(document) + '\n```' },
+      }),
+      ...overrides,
+    });
+
+    it('should sample the calling client when it supports sampling', async () => {
+      const fallback = new FakeLLMProvider();
+      const client = samplingClient();
+      const provider = new SamplingLLMProvider(fallback);
+
+      const completion = await runWithSamplingClient(client, () => provider.complete(request()));
+
+      expect(JSON.parse(completion.content)).toEqual(document);
+      expect(completion.model).toBe('client-model');
+      expect(fallback.requests).toHaveLength(0);
+      const params = (client.createMessage as jest.Mock).mock.calls[0][0];
+      expect(params.systemPrompt).toContain('You are a reviewer.');
+      expect(params.systemPrompt).toContain('"structured_data"');
+      expect(params.messages).toEqual([{ role: 'user', content: { type: 'text', text: 'Analyze this PR.' } }]);
+    });
+
+    it('should use the fallback provider when the client cannot sample', async () => {
+      const fallback = new FakeLLMProvider({ responses: { pr_analysis: document } });
+      const provider = new SamplingLLMProvider(fallback);
+
+      await runWithSamplingClient(samplingClient({ supportsSampling: () => false }), () => provider.complete(request()));
+      await provider.complete(request());
+
+      expect(fallback.requests).toHaveLength(2);
+    });
+
+    it('should not fall back when the client declines the request', async () => {
+      const fallback = new FakeLLMProvider();
+      const client = samplingClient({ createMessage: jest.fn().mockRejectedValue(new Error('User rejected sampling request')) });
+
+      await expect(runWithSamplingClient(client, () => new SamplingLLMProvider(fallback).complete(request()))).rejects.toMatchObject({
+        message: 'Client did not complete sampling for pr_analysis: User rejected sampling request',
+        retryable: false,
+      });
+      expect(fallback.requests).toHaveLength(0);
+    });
+
+    it('should fail without retry when there is neither a sampling client nor a fallback', async () => {
+      await expect(new SamplingLLMProvider().complete(request())).rejects.toMatchObject({
+        message: 'No LLM available for pr_analysis: client does not support sampling and no provider is configured',
+        retryable: false,
+      });
+    });
+
+    it('should send sampling/createMessage to a connected MCP client', async () => {
+      const server = new Server({ name: 'test-server', version: '1.0.0' }, { capabilities: { tools: {} } });
+      const client = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: { sampling: {} } });
+      client.setRequestHandler(CreateMessageRequestSchema, async () => ({
+        model: 'client-model',
+        role: 'assistant',
+        content: { type: 'text', text: JSON.stringify(document) },
+      }));
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+      const completion = await runWithSamplingClient(
+        createSamplingClient(server),
+        () => new SamplingLLMProvider().complete(request())
+      );
+
+      expect(JSON.parse(completion.content)).toEqual(document);
+      await client.close();
+      await server.close();
+    });
+  });
+
+  describe('createLLMProvider', () => {
+    it('should wrap the backend in sampling when enabled', () => {
+      expect(createLLMProvider({ ...config, llm: { ...config.llm, provider: 'none', sampling: true } }).name).toBe('mcp-sampling');
+      expect(() => createLLMProvider({ ...config, llm: { ...config.llm, provider: 'none', sampling: false } }))
+        .toThrow('LLM_PROVIDER=none requires MCP sampling to be enabled');
+    });
+
+    it('should build the configured backend', () => {
+      expect(createLLMProvider({ ...config, llm: { ...config.llm, provider: 'fake' } }).name).toBe('fake');
+      expect(createLLMProvider({ ...config, llm: { ...config.llm, provider: 'anthropic' } }).name).toBe('anthropic');
+      expect(createLLMProvider({ ...config, llm: { ...config.llm, provider: 'openai-compatible' } }).model)
+        .toBe(config.llm.openaiCompatible.model);
+      expect(createLLMProvider({ ...config, llm: { ...config.llm, provider: 'openai' } }).model).toBe(config.openai.model);
+    });
+  });
+});
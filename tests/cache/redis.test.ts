@@ -0,0 +1,55 @@
+import { RedisResponseCache } from '../../src/cache/redis.js';
+
+describe('RedisResponseCache', () => {
+  let client: { connect: jest.Mock; get: jest.Mock; set: jest.Mock; quit: jest.Mock; on: jest.Mock; isReady: boolean };
+
+  beforeEach(() => {
+    client = {
+      connect: jest.fn().mockImplementation(async () => {
+        client.isReady = true;
+      }),
+      get: jest.fn().mockResolvedValue(null),
+      set: jest.fn().mockResolvedValue('OK'),
+      quit: jest.fn().mockResolvedValue('OK'),
+      on: jest.fn(),
+      isReady: false,
+    };
+  });
+
+  it('should store entries in Redis with their TTL', async () => {
+    const cache = new RedisResponseCache({ url: 'redis://localhost:6379' }, client as any);
+    await cache.initialize();
+    client.get.mockResolvedValue('{"analysis":"cached"}');
+
+    await cache.set('idwo:llm:pr_analysis:x', '{"analysis":"cached"}', 600);
+
+    expect(client.set).toHaveBeenCalledWith('idwo:llm:pr_analysis:x', '{"analysis":"cached"}', { EX: 600 });
+    expect(await cache.get('idwo:llm:pr_analysis:x')).toBe('{"analysis":"cached"}');
+    await cache.close();
+    expect(client.quit).toHaveBeenCalled();
+  });
+
+  it('should cache in memory when Redis cannot be reached at startup', async () => {
+    client.connect.mockRejectedValue(new Error('connect ECONNREFUSED 127.0.0.1:6379'));
+    const cache = new RedisResponseCache({ url: 'redis://localhost:6379' }, client as any);
+    await cache.initialize();
+
+    await cache.set('key', 'value', 600);
+
+    expect(await cache.get('key')).toBe('value');
+    expect(client.set).not.toHaveBeenCalled();
+    await cache.close();
+    expect(client.quit).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to memory when a command fails', async () => {
+    const cache = new RedisResponseCache({ url: 'redis://localhost:6379' }, client as any);
+    await cache.initialize();
+    client.set.mockRejectedValue(new Error('READONLY You can\'t write against a read only replica'));
+    client.get.mockRejectedValue(new Error('Socket closed unexpectedly'));
+
+    await cache.set('key', 'value', 600);
+
+    expect(await cache.get('key')).toBe('value');
+  });
+});
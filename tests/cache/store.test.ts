@@ -0,0 +1,39 @@
+import { InMemoryResponseCache, contentHash } from '../../src/cache/store.js';
+
+describe('contentHash', () => {
+  it('should ignore key order, undefined fields and line endings', () => {
+    expect(contentHash({ title: 'Fix', body: 'a\r\nb', labels: ['x'], extra: undefined }))
+      .toBe(contentHash({ labels: ['x'], body: 'a\nb', title: 'Fix' }));
+    expect(contentHash({ labels: ['x', 'y'] })).not.toBe(contentHash({ labels: ['y', 'x'] }));
+  });
+});
+
+describe('InMemoryResponseCache', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should expire entries after their TTL', async () => {
+    jest.useFakeTimers({ now: new Date('2024-03-01T00:00:00Z') });
+    const cache = new InMemoryResponseCache();
+    await cache.set('a', 'one', 60);
+
+    jest.setSystemTime(new Date('2024-03-01T00:00:59Z'));
+    expect(await cache.get('a')).toBe('one');
+    jest.setSystemTime(new Date('2024-03-01T00:01:00Z'));
+    expect(await cache.get('a')).toBeNull();
+  });
+
+  it('should evict the least recently used entry when full', async () => {
+    const cache = new InMemoryResponseCache(2);
+    await cache.set('a', 'one', 60);
+    await cache.set('b', 'two', 60);
+    await cache.get('a');
+
+    await cache.set('c', 'three', 60);
+
+    expect(await cache.get('a')).toBe('one');
+    expect(await cache.get('b')).toBeNull();
+    expect(await cache.get('c')).toBe('three');
+  });
+});
@@ -2,6 +2,7 @@ import { GitHubIntegration } from '../../src/integrations/github.js';
 import { Octokit } from '@octokit/rest';
 
 jest.mock('@octokit/rest');
+jest.unmock('../../src/integrations/github.js');
 
 describe('GitHubIntegration', () => {
   let github: GitHubIntegration;
@@ -9,15 +10,23 @@ describe('GitHubIntegration', () => {
 
   beforeEach(() => {
     mockOctokit = {
+      hook: {
+        before: jest.fn(),
+      },
       pulls: {
         get: jest.fn(),
-        listFiles: jest.fn(),
-        listCommits: jest.fn(),
-        listReviews: jest.fn(),
+        listFiles: jest.fn().mockResolvedValue({ data: [] }),
+        listCommits: jest.fn().mockResolvedValue({ data: [] }),
+        listReviews: jest.fn().mockResolvedValue({ data: [] }),
       },
       issues: {
         get: jest.fn(),
         listComments: jest.fn(),
+        createComment: jest.fn(),
+        updateComment: jest.fn(),
+      },
+      users: {
+        getAuthenticated: jest.fn().mockResolvedValue({ data: { login: 'idwo-bot' } }),
       },
       repos: {
         createRelease: jest.fn(),
@@ -49,6 +58,7 @@ describe('GitHubIntegration', () => {
           changed_files: 3,
           additions: 100,
           deletions: 50,
+          labels: [],
           head: { sha: 'abc123' },
         },
       };
@@ -103,6 +113,26 @@ describe('GitHubIntegration', () => {
       expect(result.reviews).toHaveLength(1);
     });
 
+    it('should page through every changed file instead of stopping at the first 30', async () => {
+      const file = (index: number) => ({ filename: `src/file-${index}.ts`, status: 'modified', additions: 1, deletions: 0, changes: 1 });
+      const page = (start: number, count: number) => ({ data: Array.from({ length: count }, (_, i) => file(start + i)) });
+
+      mockOctokit.pulls.get.mockResolvedValue({
+        data: { number: 123, title: 'Big PR', body: '', state: 'open', user: { login: 'testuser' }, changed_files: 250, labels: [], head: { sha: 'abc123' } },
+      });
+      mockOctokit.pulls.listFiles
+        .mockResolvedValueOnce(page(0, 100))
+        .mockResolvedValueOnce(page(100, 100))
+        .mockResolvedValueOnce(page(200, 50));
+
+      const result = await github.getPRDetails('owner', 'repo', 123);
+
+      expect(result.files).toHaveLength(250);
+      expect(result.files[249]?.filename).toBe('src/file-249.ts');
+      expect(mockOctokit.pulls.listFiles).toHaveBeenCalledTimes(3);
+      expect(mockOctokit.pulls.listFiles).toHaveBeenLastCalledWith({ owner: 'owner', repo: 'repo', pull_number: 123, per_page: 100, page: 3 });
+    });
+
     it('should handle API errors gracefully', async () => {
       mockOctokit.pulls.get.mockRejectedValue(new Error('API Error'));
 
@@ -111,6 +141,53 @@ describe('GitHubIntegration', () => {
     });
   });
 
+  describe('upsertComment', () => {
+    const marker = '<!-- idwo:summary -->';
+    const comment = (id: number, login: string, body: string) => ({ id, user: { login }, body });
+
+    beforeEach(() => {
+      mockOctokit.issues.createComment.mockResolvedValue({ data: { id: 99, html_url: 'https://github.com/owner/repo/pull/7#issuecomment-99' } });
+      mockOctokit.issues.updateComment.mockImplementation(({ comment_id }: { comment_id: number }) =>
+        Promise.resolve({ data: { id: comment_id, html_url: `https://github.com/owner/repo/pull/7#issuecomment-${comment_id}` } }));
+    });
+
+    it('should edit its own marked comment', async () => {
+      mockOctokit.issues.listComments.mockResolvedValue({
+        data: [comment(1, 'someone', 'Looks good'), comment(2, 'idwo-bot', `${marker}\nOld summary`)],
+      });
+
+      const result = await github.upsertComment('owner', 'repo', 7, marker, 'New summary');
+
+      expect(result).toEqual({ id: 2, url: 'https://github.com/owner/repo/pull/7#issuecomment-2', created: false });
+      expect(mockOctokit.issues.updateComment).toHaveBeenCalledWith({ owner: 'owner', repo: 'repo', comment_id: 2, body: `${marker}\nNew summary` });
+      expect(mockOctokit.issues.createComment).not.toHaveBeenCalled();
+    });
+
+    it("should ignore another user's marked comment", async () => {
+      mockOctokit.issues.listComments.mockResolvedValue({
+        data: [comment(3, 'mallory', `${marker}\nForged summary`)],
+      });
+
+      const result = await github.upsertComment('owner', 'repo', 7, marker, 'New summary');
+
+      expect(result.created).toBe(true);
+      expect(mockOctokit.issues.updateComment).not.toHaveBeenCalled();
+      expect(mockOctokit.issues.createComment).toHaveBeenCalledWith({ owner: 'owner', repo: 'repo', issue_number: 7, body: `${marker}\nNew summary` });
+    });
+
+    it('should find its comment on a later page', async () => {
+      mockOctokit.issues.listComments
+        .mockResolvedValueOnce({ data: Array.from({ length: 100 }, (_, i) => comment(100 + i, 'someone', 'Noise')) })
+        .mockResolvedValueOnce({ data: [comment(250, 'idwo-bot', `${marker}\nOld summary`)] });
+
+      const result = await github.upsertComment('owner', 'repo', 7, marker, 'New summary');
+
+      expect(result).toMatchObject({ id: 250, created: false });
+      expect(mockOctokit.issues.listComments).toHaveBeenLastCalledWith(expect.objectContaining({ per_page: 100, page: 2 }));
+      expect(mockOctokit.issues.createComment).not.toHaveBeenCalled();
+    });
+  });
+
   describe('createRelease', () => {
     it('should create a release successfully', async () => {
       const mockReleaseData = {
@@ -1,18 +1,36 @@
 import axios from 'axios';
 import { JiraIntegration } from '../../src/integrations/jira.js';
+import { ServiceError } from '../../src/types/index.js';
 
 jest.mock('axios');
+jest.unmock('../../src/integrations/jira.js');
 const mockedAxios = axios as jest.Mocked<typeof axios>;
 
 describe('JiraIntegration', () => {
   let jira: JiraIntegration;
   let mockAxiosInstance: jest.Mocked<any>;
 
+  const siteFields = [
+    { id: 'summary', name: 'Summary', custom: false, schema: { type: 'string' } },
+    { id: 'customfield_10020', name: 'Sprint', custom: true, schema: { type: 'array', custom: 'com.pyxis.greenhopper.jira:gh-sprint' } },
+    { id: 'customfield_10016', name: 'Story point estimate', custom: true, schema: { type: 'number' } },
+    { id: 'customfield_10021', name: 'Story Points', custom: true, schema: { type: 'number' } },
+    { id: 'customfield_10014', name: 'Epic Link', custom: true, schema: { type: 'any', custom: 'com.pyxis.greenhopper.jira:gh-epic-link' } },
+    { id: 'customfield_10001', name: 'Team', custom: true, schema: { type: 'team', custom: 'com.atlassian.jira.plugin.system.customfieldtypes:atlassian-team' } },
+    { id: 'customfield_10015', name: 'Start date', custom: true, schema: { type: 'date' } },
+  ];
+  // Answers /field with the site's fields and everything else with `data`
+  const withFields = (data: unknown) => async (path: string) => (path === '/field' ? { data: siteFields } : { data });
+
   beforeEach(() => {
     mockAxiosInstance = {
       get: jest.fn(),
       post: jest.fn(),
+      put: jest.fn(),
       interceptors: {
+        request: {
+          use: jest.fn(),
+        },
         response: {
           use: jest.fn(),
         },
@@ -51,8 +69,11 @@ describe('JiraIntegration', () => {
             labels: ['bug', 'urgent'],
             components: [{ name: 'frontend' }],
             fixVersions: [{ name: '1.0.0' }],
-            customfield_10020: [{ name: 'Sprint 1' }],
+            customfield_10020: [{ name: 'Sprint 0', state: 'closed' }, { name: 'Sprint 1', state: 'active' }],
             customfield_10021: 5,
+            customfield_10014: 'PROJ-1',
+            customfield_10001: { id: 'team-1', name: 'Payments' },
+            customfield_10015: '2023-01-02',
             comment: {
               comments: [{
                 author: { displayName: 'Commenter' },
@@ -72,7 +93,7 @@ describe('JiraIntegration', () => {
         }
       };
 
-      mockAxiosInstance.get.mockResolvedValue(mockIssueData);
+      mockAxiosInstance.get.mockImplementation(withFields(mockIssueData.data));
 
       const result = await jira.getIssue('PROJ-123');
 
@@ -91,6 +112,12 @@ describe('JiraIntegration', () => {
         fixVersions: ['1.0.0'],
         sprint: 'Sprint 1',
         storyPoints: 5,
+        epicLink: 'PROJ-1',
+        team: 'Payments',
+        startDate: '2023-01-02',
+      });
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/issue/PROJ-123', {
+        params: expect.objectContaining({ fields: expect.stringContaining('customfield_10020') }),
       });
 
       expect(result.comments).toHaveLength(1);
@@ -223,45 +250,385 @@ describe('JiraIntegration', () => {
     });
   });
 
+  describe('addCommentToIssue', () => {
+    it('should convert Markdown comments to ADF', async () => {
+      mockAxiosInstance.post.mockResolvedValue({ data: {} });
+
+      await jira.addCommentToIssue('PROJ-123', '### Analysis\n\n- one\n- two');
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/issue/PROJ-123/comment', {
+        body: {
+          type: 'doc',
+          version: 1,
+          content: [
+            { type: 'heading', attrs: { level: 3 }, content: [{ type: 'text', text: 'Analysis' }] },
+            {
+              type: 'bulletList',
+              content: [
+                { type: 'listItem', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'one' }] }] },
+                { type: 'listItem', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'two' }] }] },
+              ],
+            },
+          ],
+        },
+      });
+    });
+  });
+
   describe('searchIssues', () => {
-    it('should search and return issues', async () => {
-      const mockSearchResponse = {
-        data: {
-          issues: [
-            { key: 'PROJ-123' },
-            { key: 'PROJ-124' }
-          ]
+    const searchHit = (key: string) => ({
+      key,
+      id: key.replace('PROJ-', ''),
+      fields: {
+        summary: `Issue ${key}`,
+        issuetype: { name: 'Bug' },
+        status: { name: 'Open' },
+        priority: { name: 'High' },
+      },
+    });
+
+    it('should map search results without fetching each issue', async () => {
+      mockAxiosInstance.post.mockResolvedValue({
+        data: { issues: [searchHit('PROJ-123'), searchHit('PROJ-124')], isLast: true },
+      });
+
+      const result = await jira.searchIssues('project = PROJ', 10, { fields: ['summary', 'status', 'priority'] });
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/search/jql', {
+        jql: 'project = PROJ',
+        maxResults: 10,
+        fields: ['summary', 'status', 'priority'],
+      });
+      expect(mockAxiosInstance.get).not.toHaveBeenCalledWith(expect.stringMatching(/^\/issue\//), expect.anything());
+      expect(result.map(issue => [issue.key, issue.summary, issue.priority])).toEqual([
+        ['PROJ-123', 'Issue PROJ-123', 'High'],
+        ['PROJ-124', 'Issue PROJ-124', 'High'],
+      ]);
+    });
+
+    it('should follow nextPageToken until the limit is reached', async () => {
+      mockAxiosInstance.post
+        .mockResolvedValueOnce({ data: { issues: Array.from({ length: 100 }, (_, i) => searchHit(`PROJ-${i}`)), nextPageToken: 'page-2' } })
+        .mockResolvedValueOnce({ data: { issues: Array.from({ length: 20 }, (_, i) => searchHit(`PROJ-${100 + i}`)), nextPageToken: 'page-3' } });
+
+      const result = await jira.searchIssues('project = PROJ', 120, { expand: ['changelog'] });
+
+      expect(result).toHaveLength(120);
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2);
+      expect(mockAxiosInstance.post).toHaveBeenLastCalledWith('/search/jql', expect.objectContaining({
+        maxResults: 20,
+        expand: 'changelog',
+        nextPageToken: 'page-2',
+      }));
+    });
+
+    it('should page by startAt when the response reports a total', async () => {
+      mockAxiosInstance.post
+        .mockResolvedValueOnce({ data: { issues: [searchHit('PROJ-1'), searchHit('PROJ-2')], startAt: 0, total: 3 } })
+        .mockResolvedValueOnce({ data: { issues: [searchHit('PROJ-3')], startAt: 2, total: 3 } });
+
+      const keys: string[] = [];
+      for await (const issue of jira.iterateIssues('project = PROJ', { fields: ['summary'] })) {
+        keys.push(issue.key);
+      }
+
+      expect(keys).toEqual(['PROJ-1', 'PROJ-2', 'PROJ-3']);
+      expect(mockAxiosInstance.post).toHaveBeenLastCalledWith('/search/jql', expect.objectContaining({ startAt: 2 }));
+    });
+  });
+
+  describe('getProjectIssueStats', () => {
+    it('should use JQL counts for totals and break down unresolved issues by the fields it groups by', async () => {
+      mockAxiosInstance.post.mockImplementation(async (path: string, body: any) => {
+        if (path === '/search/approximate-count') {
+          return { data: { count: body.jql.includes('created >=') ? 4 : body.jql.includes('status CHANGED TO') ? 3 : 2500 } };
         }
-      };
+        return {
+          data: {
+            issues: [
+              { key: 'PROJ-1', fields: { status: { name: 'Open' }, priority: { name: 'High' }, assignee: { displayName: 'Dev' } } },
+              { key: 'PROJ-2', fields: { status: { name: 'Open' }, priority: { name: 'Low' } } },
+            ],
+            isLast: true,
+          },
+        };
+      });
 
-      const mockIssueResponse = {
-        data: {
-          key: 'PROJ-123',
-          id: '12345',
-          fields: {
-            summary: 'Found Issue',
-            issuetype: { name: 'Bug' },
-            status: { name: 'Open' },
-            reporter: { displayName: 'Reporter' },
-            created: '2023-01-01T00:00:00Z',
-            updated: '2023-01-01T00:00:00Z',
-          }
+      const stats = await jira.getProjectIssueStats('PROJ');
+
+      expect(stats).toEqual({
+        totalIssues: 2500,
+        byStatus: { Open: 2 },
+        byPriority: { High: 1, Low: 1 },
+        byAssignee: { Dev: 1, Unassigned: 1 },
+        completedInPeriod: 3,
+        createdInPeriod: 4,
+      });
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/search/jql', expect.objectContaining({
+        jql: 'project = "PROJ" AND resolution IS EMPTY',
+        fields: ['status', 'priority', 'assignee'],
+      }));
+    });
+  });
+
+  describe('concurrency', () => {
+    it('should keep no more requests in flight than maxConcurrency', async () => {
+      jira = new JiraIntegration({
+        url: 'https://test.atlassian.net',
+        username: 'test@example.com',
+        apiToken: 'test-token',
+        maxConcurrency: 2,
+      });
+      let inFlight = 0;
+      let maxInFlight = 0;
+      mockAxiosInstance.post.mockImplementation(async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        return { data: { count: 1 } };
+      });
+
+      await Promise.all(Array.from({ length: 6 }, () => jira.countIssues('project = PROJ')));
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(6);
+      expect(maxInFlight).toBe(2);
+    });
+  });
+
+  describe('Agile API', () => {
+    it('should create a client for the Agile REST API', () => {
+      expect(mockedAxios.create).toHaveBeenCalledWith(expect.objectContaining({ baseURL: 'https://test.atlassian.net/rest/agile/1.0' }));
+    });
+
+    it('should page through boards and list scrum boards first', async () => {
+      mockAxiosInstance.get
+        .mockResolvedValueOnce({ data: { isLast: false, values: [{ id: 1, name: 'Kanban', type: 'kanban' }] } })
+        .mockResolvedValueOnce({ data: { isLast: true, values: [{ id: 2, name: 'Team A', type: 'scrum', location: { projectKey: 'PROJ' } }] } });
+
+      const boards = await jira.getBoardsForProject('PROJ');
+
+      expect(mockAxiosInstance.get).toHaveBeenNthCalledWith(2, '/board', { params: { projectKeyOrId: 'PROJ', startAt: 1, maxResults: 50 } });
+      expect(boards).toEqual([
+        { id: 2, name: 'Team A', type: 'scrum', projectKey: 'PROJ' },
+        { id: 1, name: 'Kanban', type: 'kanban', projectKey: undefined },
+      ]);
+    });
+
+    it('should request sprints by state', async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: { isLast: true, values: [{ id: 5, name: 'Sprint 5', state: 'future' }] } });
+
+      const sprints = await jira.getSprints(7, ['active', 'future']);
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/board/7/sprint', { params: { state: 'active,future', startAt: 0, maxResults: 50 } });
+      expect(sprints).toEqual([expect.objectContaining({ id: 5, name: 'Sprint 5', state: 'future' })]);
+    });
+
+    it('should move issues into a sprint in batches of 50', async () => {
+      mockAxiosInstance.post.mockResolvedValue({ data: {} });
+      const keys = Array.from({ length: 60 }, (_, i) => `PROJ-${i + 1}`);
+
+      await jira.moveIssuesToSprint(9, keys);
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2);
+      expect(mockAxiosInstance.post).toHaveBeenNthCalledWith(2, '/sprint/9/issue', { issues: keys.slice(50) });
+    });
+
+    it('should keep the order when ranking more than one batch', async () => {
+      mockAxiosInstance.put.mockResolvedValue({ data: {} });
+      const keys = Array.from({ length: 55 }, (_, i) => `PROJ-${i + 1}`);
+
+      await jira.rankIssues(keys, { before: 'PROJ-100' });
+
+      expect(mockAxiosInstance.put).toHaveBeenNthCalledWith(1, '/issue/rank', { issues: keys.slice(0, 50), rankBeforeIssue: 'PROJ-100' });
+      expect(mockAxiosInstance.put).toHaveBeenNthCalledWith(2, '/issue/rank', { issues: keys.slice(50), rankAfterIssue: 'PROJ-50' });
+    });
+
+    it('should split a sprint report into completed and incomplete work', async () => {
+      const sprintIssues = withFields({
+        total: 2,
+        issues: [
+          { key: 'PROJ-1', fields: { summary: 'Done', status: { name: 'Done', statusCategory: { key: 'done' } }, customfield_10021: 5 } },
+          { key: 'PROJ-2', fields: { summary: 'Open', status: { name: 'In Progress', statusCategory: { key: 'indeterminate' } }, customfield_10021: 3 } },
+        ],
+      });
+      mockAxiosInstance.get.mockImplementation(async (path: string) => (path === '/sprint/3'
+        ? { data: { id: 3, name: 'Sprint 3', state: 'closed' } }
+        : sprintIssues(path)));
+
+      const report = await jira.getSprintReport(7, 3);
+
+      expect(report).toMatchObject({
+        sprint: { id: 3, name: 'Sprint 3' },
+        committedPoints: 8,
+        completedPoints: 5,
+        completedIssues: [expect.objectContaining({ key: 'PROJ-1', done: true })],
+        incompleteIssues: [expect.objectContaining({ key: 'PROJ-2', done: false })],
+      });
+    });
+  });
+
+  describe('field discovery', () => {
+    it('should map logical fields by custom type, then by preferred name', async () => {
+      mockAxiosInstance.get.mockImplementation(withFields(null));
+
+      const { mappings, fields } = await jira.getFieldMappings();
+
+      expect(fields).toHaveLength(siteFields.length);
+      expect(mappings).toEqual([
+        { key: 'sprint', id: 'customfield_10020', name: 'Sprint', source: 'discovered' },
+        { key: 'storyPoints', id: 'customfield_10021', name: 'Story Points', source: 'discovered' },
+        { key: 'epicLink', id: 'customfield_10014', name: 'Epic Link', source: 'discovered' },
+        { key: 'team', id: 'customfield_10001', name: 'Team', source: 'discovered' },
+        { key: 'startDate', id: 'customfield_10015', name: 'Start date', source: 'discovered' },
+      ]);
+    });
+
+    it('should prefer configured ids and cache discovery', async () => {
+      jira = new JiraIntegration({
+        url: 'https://test.atlassian.net',
+        username: 'test@example.com',
+        apiToken: 'test-token',
+        fields: { storyPoints: 'customfield_10016' },
+      });
+      mockAxiosInstance.get.mockImplementation(withFields({ key: 'PROJ-1', fields: { customfield_10016: 3, customfield_10021: 8 } }));
+
+      const first = await jira.getIssue('PROJ-1');
+      await jira.getIssue('PROJ-1');
+      const { mappings } = await jira.getFieldMappings();
+
+      expect(first.storyPoints).toBe(3);
+      expect(mappings).toContainEqual({ key: 'storyPoints', id: 'customfield_10016', name: 'Story point estimate', source: 'config' });
+      expect(mockAxiosInstance.get.mock.calls.filter(([path]: [string]) => path === '/field')).toHaveLength(1);
+    });
+
+    it('should fall back to configured ids when fields cannot be read', async () => {
+      jira = new JiraIntegration({
+        url: 'https://test.atlassian.net',
+        username: 'test@example.com',
+        apiToken: 'test-token',
+        fields: { sprint: 'customfield_10100' },
+      });
+      mockAxiosInstance.get.mockImplementation(async (path: string) => {
+        if (path === '/field') {
+          throw new Error('Forbidden');
         }
-      };
+        return { data: { key: 'PROJ-1', fields: { customfield_10100: [{ name: 'Sprint 7' }], customfield_10021: 8 } } };
+      });
 
-      mockAxiosInstance.post.mockResolvedValue(mockSearchResponse);
-      mockAxiosInstance.get.mockResolvedValue(mockIssueResponse);
+      const issue = await jira.getIssue('PROJ-1');
+
+      expect(issue.sprint).toBe('Sprint 7');
+      expect(issue.storyPoints).toBeUndefined();
+    });
+  });
 
-      const result = await jira.searchIssues('project = PROJ', 10);
+  describe.each([
+    {
+      flavor: 'Cloud',
+      config: { username: 'test@example.com', apiToken: 'test-token' },
+      baseURL: 'https://jira.example.com/rest/api/3',
+      auth: { auth: { username: 'test@example.com', password: 'test-token' } },
+      searchPath: '/search/jql',
+      expand: 'changelog',
+      assignee: { accountId: '5b10ac8d82e05b22cc7d4ef5' },
+      sprintValue: [{ id: 3, name: 'Sprint 3', state: 'active' }],
+    },
+    {
+      flavor: 'Server/Data Center',
+      config: { deployment: 'server' as const, username: '', apiToken: '', personalAccessToken: 'pat-token' },
+      baseURL: 'https://jira.example.com/rest/api/2',
+      auth: { headers: expect.objectContaining({ Authorization: 'Bearer pat-token' }) },
+      searchPath: '/search',
+      expand: ['changelog'],
+      assignee: { name: 'jdoe' },
+      sprintValue: ['com.atlassian.greenhopper.service.sprint.Sprint@1f[id=3,rapidViewId=1,state=ACTIVE,name=Sprint 3,startDate=2024-01-01]'],
+    },
+  ])('$flavor', ({ flavor, config, baseURL, auth, searchPath, expand, assignee, sprintValue }) => {
+    const server = flavor !== 'Cloud';
+
+    beforeEach(() => {
+      mockedAxios.create.mockClear();
+      jira = new JiraIntegration({ url: 'https://jira.example.com', ...config });
+    });
 
-      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/search', {
-        jql: 'project = PROJ',
-        maxResults: 10,
-        fields: ['key', 'summary', 'status', 'assignee', 'priority', 'created', 'updated'],
+    it('should use the matching REST API version and authentication', () => {
+      const [clientOptions] = mockedAxios.create.mock.calls[0] as [any];
+
+      expect(clientOptions).toMatchObject({ baseURL, ...auth });
+      expect('auth' in clientOptions).toBe(!server);
+      expect(mockedAxios.create).toHaveBeenCalledWith(expect.objectContaining({ baseURL: 'https://jira.example.com/rest/agile/1.0' }));
+    });
+
+    it('should send descriptions in the site format and reference users the site way', async () => {
+      mockAxiosInstance.post.mockResolvedValue({ data: { key: 'PROJ-1' } });
+      mockAxiosInstance.get.mockImplementation(withFields({ key: 'PROJ-1', fields: { summary: 'New' } }));
+
+      await jira.createIssue('PROJ', {
+        summary: 'New',
+        description: '## Steps\n\n- **open** the app',
+        issueType: 'Bug',
+        assignee: 'accountId' in assignee ? assignee.accountId : assignee.name,
+      });
+
+      const [, payload] = mockAxiosInstance.post.mock.calls[0];
+      expect(payload.fields.assignee).toEqual(assignee);
+      if (server) {
+        expect(payload.fields.description).toBe('h2. Steps\n\n* *open* the app');
+      } else {
+        expect(payload.fields.description).toMatchObject({ type: 'doc', version: 1 });
+      }
+    });
+
+    it('should read plain-text descriptions and sprint values', async () => {
+      mockAxiosInstance.get.mockImplementation(withFields({
+        key: 'PROJ-1',
+        fields: {
+          description: server ? 'h2. Steps\n* open the app' : { type: 'doc', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Steps' }] }] },
+          assignee: { displayName: 'Jane Doe', ...assignee },
+          customfield_10020: sprintValue,
+        },
+      }));
+
+      const issue = await jira.getIssue('PROJ-1');
+
+      expect(issue).toMatchObject({
+        description: server ? 'h2. Steps\n* open the app' : 'Steps',
+        assignee: 'Jane Doe',
+        assigneeId: 'accountId' in assignee ? assignee.accountId : assignee.name,
+        sprint: 'Sprint 3',
+      });
+    });
+
+    it('should search and count with the site search API', async () => {
+      mockAxiosInstance.post.mockImplementation(async (path: string) => (path === '/search/approximate-count'
+        ? { data: { count: 7 } }
+        : { data: { issues: [{ key: 'PROJ-1', fields: {} }], startAt: 0, total: 7, isLast: true } }));
+
+      await jira.searchIssues('project = PROJ', 1, { fields: ['summary'], expand: ['changelog'] });
+      const count = await jira.countIssues('project = PROJ');
+
+      expect(mockAxiosInstance.post).toHaveBeenNthCalledWith(1, searchPath, expect.objectContaining({ expand }));
+      expect(count).toBe(7);
+      if (server) {
+        expect(mockAxiosInstance.post).toHaveBeenLastCalledWith('/search', { jql: 'project = PROJ', maxResults: 0, fields: ['key'] });
+      }
+    });
+
+    it('should look users up by the site user id', async () => {
+      const id = 'accountId' in assignee ? assignee.accountId : assignee.name;
+      mockAxiosInstance.get.mockResolvedValue({ data: [{ ...assignee, displayName: 'Jane Doe', emailAddress: 'jane@example.com', active: true }] });
+
+      const users = await jira.findUsers('jane@example.com');
+
+      expect(users).toEqual([{ id, displayName: 'Jane Doe', email: 'jane@example.com', active: true }]);
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/user/search', {
+        params: server ? { username: 'jane@example.com', maxResults: 10 } : { query: 'jane@example.com', maxResults: 10 },
       });
 
-      expect(result).toHaveLength(2);
-      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+      mockAxiosInstance.get.mockRejectedValue(new ServiceError('JIRA API error: Not Found', { service: 'jira', statusCode: 404, retryable: false }));
+      await expect(jira.getUser(id)).resolves.toBeNull();
+      expect(mockAxiosInstance.get).toHaveBeenLastCalledWith('/user', { params: server ? { username: id } : { accountId: id } });
     });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,114 @@
+import { PostgresWorkflowStateStore } from '../../src/state/postgres.js';
+
+describe('PostgresWorkflowStateStore', () => {
+  let mockClient: { query: jest.Mock; release: jest.Mock };
+  let mockPool: { connect: jest.Mock; query: jest.Mock; end: jest.Mock };
+  let store: PostgresWorkflowStateStore;
+
+  beforeEach(() => {
+    mockClient = {
+      query: jest.fn().mockResolvedValue({ rows: [] }),
+      release: jest.fn(),
+    };
+    mockPool = {
+      connect: jest.fn().mockResolvedValue(mockClient),
+      query: jest.fn().mockResolvedValue({ rows: [] }),
+      end: jest.fn(),
+    };
+
+    store = new PostgresWorkflowStateStore({ url: 'postgresql://localhost/test' }, mockPool as any);
+  });
+
+  const executedSql = () => mockClient.query.mock.calls.map(call => String(call[0]));
+
+  describe('initialize', () => {
+    it('should apply pending migrations under an advisory lock', async () => {
+      await store.initialize();
+
+      const sql = executedSql();
+      expect(sql[0]).toContain('pg_advisory_lock');
+      expect(sql.some(q => q.includes('CREATE TABLE IF NOT EXISTS idwo_workflows'))).toBe(true);
+      expect(sql.some(q => q.includes('CREATE TABLE IF NOT EXISTS idwo_workflow_transitions'))).toBe(true);
+      expect(sql.filter(q => q.includes('INSERT INTO idwo_schema_migrations'))).toHaveLength(2);
+      expect(sql[sql.length - 1]).toContain('pg_advisory_unlock');
+      expect(mockClient.release).toHaveBeenCalled();
+    });
+
+    it('should skip migrations that were already applied', async () => {
+      mockClient.query.mockImplementation(async (sql: string) =>
+        sql.startsWith('SELECT version') ? { rows: [{ version: 1 }, { version: 2 }] } : { rows: [] }
+      );
+
+      await store.initialize();
+
+      expect(executedSql().some(q => q.includes('INSERT INTO idwo_schema_migrations'))).toBe(false);
+    });
+  });
+
+  describe('save', () => {
+    it('should upsert the workflow and record the transition from the previous status', async () => {
+      mockClient.query.mockImplementation(async (sql: string) =>
+        sql.includes('FOR UPDATE') ? { rows: [{ status: 'analyzing' }] } : { rows: [] }
+      );
+
+      await store.save({
+        id: 'triage-PROJ-1',
+        type: 'issue',
+        status: 'completed',
+        lastUpdated: new Date('2024-01-01T00:00:00Z'),
+        services: { jira: { status: 'triaged', key: 'PROJ-1' } },
+      });
+
+      const upsert = mockClient.query.mock.calls.find(call => String(call[0]).includes('INSERT INTO idwo_workflows'));
+      const transition = mockClient.query.mock.calls.find(call => String(call[0]).includes('INSERT INTO idwo_workflow_transitions'));
+
+      expect(upsert?.[1]).toEqual(expect.arrayContaining(['triage-PROJ-1', 'issue', 'completed', 'PROJ-1']));
+      expect(transition?.[1]).toEqual(expect.arrayContaining(['triage-PROJ-1', 'analyzing', 'completed']));
+      expect(executedSql()).toContain('COMMIT');
+    });
+
+    it('should roll back when persisting fails', async () => {
+      mockClient.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('INSERT INTO idwo_workflow_transitions')) {
+          throw new Error('connection lost');
+        }
+        return { rows: [] };
+      });
+
+      await expect(store.save({
+        id: 'pr-org-repo-1',
+        type: 'pr',
+        status: 'analyzing',
+        lastUpdated: new Date(),
+        services: {},
+      })).rejects.toThrow('connection lost');
+
+      expect(executedSql()).toContain('ROLLBACK');
+      expect(mockClient.release).toHaveBeenCalled();
+    });
+  });
+
+  describe('get', () => {
+    it('should map rows to workflow statuses', async () => {
+      mockPool.query.mockResolvedValue({
+        rows: [{
+          id: 'release-v1.0.0',
+          type: 'release',
+          status: 'completed',
+          services: { slack: { channel: 'C123', messageId: '1' } },
+          last_updated: '2024-01-01T00:00:00Z',
+        }],
+      });
+
+      const result = await store.get('release-v1.0.0');
+
+      expect(result).toEqual({
+        id: 'release-v1.0.0',
+        type: 'release',
+        status: 'completed',
+        services: { slack: { channel: 'C123', messageId: '1' } },
+        lastUpdated: new Date('2024-01-01T00:00:00Z'),
+      });
+    });
+  });
+});
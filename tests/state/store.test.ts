@@ -0,0 +1,69 @@
+import { InMemoryWorkflowStateStore } from '../../src/state/store.js';
+import { WorkflowStatus } from '../../src/types/index.js';
+
+describe('InMemoryWorkflowStateStore', () => {
+  let store: InMemoryWorkflowStateStore;
+
+  const prWorkflow = (status: string, lastUpdated: Date): WorkflowStatus => ({
+    id: 'pr-org-repo-1',
+    type: 'pr',
+    status,
+    lastUpdated,
+    services: {
+      github: { status, url: 'https://github.com/org/repo/pull/1' },
+    },
+  });
+
+  beforeEach(async () => {
+    store = new InMemoryWorkflowStateStore();
+    await store.initialize();
+  });
+
+  it('should return null for unknown workflows', async () => {
+    expect(await store.get('missing')).toBeNull();
+    expect(await store.getHistory('missing')).toEqual([]);
+  });
+
+  it('should record every status transition', async () => {
+    await store.save(prWorkflow('analyzing', new Date('2024-01-01T00:00:00Z')));
+    await store.save(prWorkflow('completed', new Date('2024-01-01T00:05:00Z')));
+
+    const current = await store.get('pr-org-repo-1');
+    const history = await store.getHistory('pr-org-repo-1');
+
+    expect(current?.status).toBe('completed');
+    expect(history.map(t => [t.fromStatus, t.toStatus])).toEqual([
+      [undefined, 'analyzing'],
+      ['analyzing', 'completed'],
+    ]);
+  });
+
+  it('should not leak mutations of stored workflows', async () => {
+    const workflow = prWorkflow('analyzing', new Date());
+    await store.save(workflow);
+
+    workflow.services.github!.status = 'mutated';
+    const stored = await store.get(workflow.id);
+    stored!.status = 'mutated';
+
+    expect((await store.get(workflow.id))?.services.github?.status).toBe('analyzing');
+    expect((await store.get(workflow.id))?.status).toBe('analyzing');
+  });
+
+  it('should look up workflows by type and service key', async () => {
+    await store.save(prWorkflow('completed', new Date('2024-01-01T00:00:00Z')));
+    await store.save({
+      id: 'triage-PROJ-1',
+      type: 'issue',
+      status: 'completed',
+      lastUpdated: new Date('2024-01-02T00:00:00Z'),
+      services: { jira: { status: 'triaged', key: 'PROJ-1' } },
+    });
+
+    expect((await store.findByType('issue')).map(w => w.id)).toEqual(['triage-PROJ-1']);
+    expect((await store.findByServiceKey('jira', 'PROJ-1')).map(w => w.id)).toEqual(['triage-PROJ-1']);
+    expect((await store.findByServiceKey('github', 'https://github.com/org/repo/pull/1')).map(w => w.id))
+      .toEqual(['pr-org-repo-1']);
+    expect(await store.findByServiceKey('slack', 'C123')).toEqual([]);
+  });
+});
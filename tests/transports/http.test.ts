@@ -0,0 +1,148 @@
+import { createHmac } from 'node:crypto';
+import request from 'supertest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { HttpTransportConfig, HttpTransportServer } from '../../src/transports/http.js';
+
+const SECRET = 'test-jwt-secret';
+
+function signToken(claims: Record<string, unknown>, secret = SECRET, alg = 'HS256'): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode({ alg, typ: 'JWT' })}.${encode(claims)}`;
+  return `${unsigned}.${createHmac('sha256', secret).update(unsigned).digest('base64url')}`;
+}
+
+describe('HttpTransportServer', () => {
+  let transport: HttpTransportServer;
+  let createServer: jest.Mock<Server, []>;
+  const token = signToken({ sub: 'client', exp: Math.floor(Date.now() / 1000) + 3600 });
+
+  const initializeRequest = {
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: {
+      protocolVersion: '2025-03-26',
+      capabilities: {},
+      clientInfo: { name: 'test-client', version: '1.0.0' },
+    },
+  };
+
+  const config: HttpTransportConfig = {
+    port: 0,
+    host: '127.0.0.1',
+    jwtSecret: SECRET,
+    allowedHosts: ['localhost:3000'],
+    maxSessions: 10,
+    sessionIdleTimeoutMs: 60000,
+  };
+
+  const post = (path: string, authorization = `Bearer ${token}`) => request(transport.application)
+    .post(path)
+    .set('Host', 'localhost:3000')
+    .set('Authorization', authorization);
+
+  const initialize = () => post('/mcp')
+    .set('Accept', 'application/json, text/event-stream')
+    .send(initializeRequest);
+
+  beforeEach(() => {
+    createServer = jest.fn(() => new Server(
+      { name: 'test-server', version: '1.0.0' },
+      { capabilities: { tools: {} } }
+    ));
+    transport = new HttpTransportServer(config, createServer);
+  });
+
+  afterEach(async () => {
+    await transport.close();
+  });
+
+  it('should answer health and readiness probes', async () => {
+    await request(transport.application).get('/health').expect(200, { status: 'ok' });
+    await request(transport.application).get('/ready').expect(200, { status: 'ready', sessions: 0 });
+  });
+
+  it('should reject non-initialize requests without a session', async () => {
+    const response = await post('/mcp')
+      .send({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+      .expect(400);
+
+    expect(response.body.error.message).toContain('No valid session ID');
+    expect(createServer).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown session ids', async () => {
+    await post('/mcp')
+      .set('mcp-session-id', 'unknown-session')
+      .send({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+      .expect(404);
+  });
+
+  it('should open a separate session per initializing client', async () => {
+    const first = await initialize().expect(200);
+    const second = await initialize().expect(200);
+
+    expect(first.headers['mcp-session-id']).toBeDefined();
+    expect(second.headers['mcp-session-id']).toBeDefined();
+    expect(first.headers['mcp-session-id']).not.toBe(second.headers['mcp-session-id']);
+    expect(createServer).toHaveBeenCalledTimes(2);
+    expect(transport.sessionCount).toBe(2);
+  });
+
+  it('should reject legacy SSE messages for unknown sessions', async () => {
+    await post('/messages').send({}).expect(400);
+    await post('/messages?sessionId=missing').send({}).expect(404);
+  });
+
+  it('should require a bearer token signed with the JWT secret', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const rejected = [
+      '',
+      token,
+      `Bearer ${signToken({ sub: 'client' }, 'other-secret')}`,
+      `Bearer ${signToken({ sub: 'client', exp: now - 60 })}`,
+      `Bearer ${signToken({ sub: 'client', nbf: now + 60 })}`,
+      `Bearer ${signToken({ sub: 'client' }, SECRET, 'none')}`,
+    ];
+
+    for (const authorization of rejected) {
+      const response = await post('/mcp', authorization).send(initializeRequest).expect(401);
+      expect(response.headers['www-authenticate']).toBe('Bearer');
+    }
+    await request(transport.application).get('/sse').set('Host', 'localhost:3000').expect(401);
+    await request(transport.application).post('/messages?sessionId=missing').set('Host', 'localhost:3000').send({}).expect(401);
+    expect(createServer).not.toHaveBeenCalled();
+  });
+
+  it('should reject Host headers that are not allowed', async () => {
+    await initialize().set('Host', 'attacker.example:3000').expect(403);
+    await request(transport.application).get('/sse').set('Host', 'attacker.example:3000').set('Authorization', `Bearer ${token}`).expect(403);
+    expect(transport.sessionCount).toBe(0);
+  });
+
+  it('should refuse new sessions at the cap', async () => {
+    await transport.close();
+    transport = new HttpTransportServer({ ...config, maxSessions: 1 }, createServer);
+
+    await initialize().expect(200);
+    const response = await initialize().expect(503);
+
+    expect(response.body.error.message).toBe('Too many sessions');
+    expect(transport.sessionCount).toBe(1);
+  });
+
+  it('should close idle sessions to make room for new ones', async () => {
+    await transport.close();
+    transport = new HttpTransportServer({ ...config, maxSessions: 1, sessionIdleTimeoutMs: 20 }, createServer);
+
+    const first = await initialize().expect(200);
+    await new Promise(resolve => setTimeout(resolve, 40));
+    await initialize().expect(200);
+
+    expect(transport.sessionCount).toBe(1);
+    await post('/mcp')
+      .set('mcp-session-id', first.headers['mcp-session-id'] as string)
+      .send({ jsonrpc: '2.0', id: 2, method: 'tools/list' })
+      .expect(404);
+  });
+});
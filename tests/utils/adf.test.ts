@@ -0,0 +1,182 @@
+import { adfToMarkdown, markdownToAdf } from '../../src/utils/adf.js';
+
+describe('ADF conversion', () => {
+  const text = (value: string, marks?: Array<{ type: string; attrs?: Record<string, any> }>) => (
+    marks ? { type: 'text', text: value, marks } : { type: 'text', text: value }
+  );
+  const paragraph = (...content: any[]) => ({ type: 'paragraph', content });
+
+  describe('adfToMarkdown', () => {
+    it('should keep every paragraph, mention and mark', () => {
+      const markdown = adfToMarkdown({
+        type: 'doc',
+        content: [
+          paragraph(text('Login fails for '), { type: 'mention', attrs: { id: '123', text: '@Jane Doe' } }),
+          paragraph(
+            text('See '),
+            text('the runbook', [{ type: 'link', attrs: { href: 'https://wiki.example.com/runbook' } }]),
+            text(' and run '),
+            text('npm test', [{ type: 'code' }]),
+            { type: 'hardBreak' },
+            text('urgent', [{ type: 'strong' }])
+          ),
+        ],
+      });
+
+      expect(markdown).toBe([
+        'Login fails for @Jane Doe',
+        '',
+        'See [the runbook](https://wiki.example.com/runbook) and run `npm test`',
+        '**urgent**',
+      ].join('\n'));
+    });
+
+    it('should render headings, nested lists and code blocks', () => {
+      const markdown = adfToMarkdown({
+        type: 'doc',
+        content: [
+          { type: 'heading', attrs: { level: 2 }, content: [text('Steps')] },
+          {
+            type: 'orderedList',
+            attrs: { order: 1 },
+            content: [
+              { type: 'listItem', content: [paragraph(text('Open the app'))] },
+              {
+                type: 'listItem',
+                content: [
+                  paragraph(text('Sign in')),
+                  { type: 'bulletList', content: [{ type: 'listItem', content: [paragraph(text('with SSO'))] }] },
+                ],
+              },
+            ],
+          },
+          { type: 'codeBlock', attrs: { language: 'ts' }, content: [text('const a = 1;\nconst b = 2;')] },
+        ],
+      });
+
+      expect(markdown).toBe([
+        '## Steps',
+        '',
+        '1. Open the app',
+        '2. Sign in',
+        '   - with SSO',
+        '',
+        '```ts',
+        'const a = 1;',
+        'const b = 2;',
+        '```',
+      ].join('\n'));
+    });
+
+    it('should render tables and task lists', () => {
+      const cell = (value: string) => ({ type: 'tableCell', content: [paragraph(text(value))] });
+      const markdown = adfToMarkdown({
+        type: 'doc',
+        content: [
+          {
+            type: 'table',
+            content: [
+              { type: 'tableRow', content: [cell('Browser'), cell('Result')] },
+              { type: 'tableRow', content: [cell('Firefox'), cell('a | b')] },
+            ],
+          },
+          {
+            type: 'taskList',
+            content: [
+              { type: 'taskItem', attrs: { state: 'DONE' }, content: [text('Reproduce')] },
+              { type: 'taskItem', attrs: { state: 'TODO' }, content: [text('Fix')] },
+            ],
+          },
+        ],
+      });
+
+      expect(markdown).toBe([
+        '| Browser | Result |',
+        '| --- | --- |',
+        '| Firefox | a \\| b |',
+        '',
+        '- [x] Reproduce',
+        '- [ ] Fix',
+      ].join('\n'));
+    });
+
+    it('should pass plain strings through and keep text of untyped nodes', () => {
+      expect(adfToMarkdown('Plain description')).toBe('Plain description');
+      expect(adfToMarkdown(null)).toBe('');
+      expect(adfToMarkdown({ content: [{ content: [{ text: 'Issue description' }] }] })).toBe('Issue description');
+    });
+  });
+
+  describe('markdownToAdf', () => {
+    it('should build headings, lists, code blocks and hard breaks', () => {
+      const document = markdownToAdf([
+        '### Analysis',
+        'First line',
+        'second line',
+        '',
+        '- **Priority:** high',
+        '  - nested',
+        '',
+        '```js',
+        'run();',
+        '```',
+      ].join('\n'));
+
+      expect(document).toEqual({
+        type: 'doc',
+        version: 1,
+        content: [
+          { type: 'heading', attrs: { level: 3 }, content: [text('Analysis')] },
+          paragraph(text('First line'), { type: 'hardBreak' }, text('second line')),
+          {
+            type: 'bulletList',
+            content: [{
+              type: 'listItem',
+              content: [
+                paragraph(text('Priority:', [{ type: 'strong' }]), text(' high')),
+                { type: 'bulletList', content: [{ type: 'listItem', content: [paragraph(text('nested'))] }] },
+              ],
+            }],
+          },
+          { type: 'codeBlock', attrs: { language: 'js' }, content: [text('run();')] },
+        ],
+      });
+    });
+
+    it('should parse links and inline marks', () => {
+      const [block] = markdownToAdf('See [docs](https://example.com/docs), ~~old~~ *new* `code` https://example.com.').content;
+
+      expect(block?.content).toEqual([
+        text('See '),
+        text('docs', [{ type: 'link', attrs: { href: 'https://example.com/docs' } }]),
+        text(', '),
+        text('old', [{ type: 'strike' }]),
+        text(' '),
+        text('new', [{ type: 'em' }]),
+        text(' '),
+        text('code', [{ type: 'code' }]),
+        text(' '),
+        text('https://example.com', [{ type: 'link', attrs: { href: 'https://example.com' } }]),
+        text('.'),
+      ]);
+    });
+
+    it('should round-trip through Markdown', () => {
+      const markdown = [
+        '## Summary',
+        '',
+        'Crash on **save** in <https://app.example.com>',
+        '',
+        '1. Open',
+        '2. Save',
+        '',
+        '> Quoted',
+        '',
+        '- [x] Done',
+        '- [ ] Todo',
+      ].join('\n');
+
+      expect(adfToMarkdown(markdownToAdf(markdown))).toBe(markdown);
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { findCodeOwners, parseCodeOwners } from '../../src/utils/codeowners.js';
+
+describe('CODEOWNERS', () => {
+  const rules = parseCodeOwners([
+    '# Default owners',
+    '*       @acme/platform',
+    '*.js    @js-owner # inline comment',
+    '/build/logs/ @doctocat',
+    'docs/*  docs@example.com',
+    'apps/   @octocat',
+    '**/migrations @dba',
+    '/scripts/',
+  ].join('\n'));
+
+  it('should let the last matching rule win', () => {
+    expect(findCodeOwners(rules, 'src/index.ts')).toEqual(['@acme/platform']);
+    expect(findCodeOwners(rules, 'src/app.js')).toEqual(['@js-owner']);
+    expect(findCodeOwners(rules, 'scripts/deploy.sh')).toEqual([]);
+  });
+
+  it('should anchor patterns with a leading or inner slash', () => {
+    expect(findCodeOwners(rules, 'build/logs/today.log')).toEqual(['@doctocat']);
+    expect(findCodeOwners(rules, 'vendor/build/logs/today.log')).toEqual(['@acme/platform']);
+    expect(findCodeOwners(rules, 'docs/getting-started.md')).toEqual(['docs@example.com']);
+    expect(findCodeOwners(rules, 'docs/build-app/troubleshooting.md')).toEqual(['@acme/platform']);
+  });
+
+  it('should match unanchored directories at any depth', () => {
+    expect(findCodeOwners(rules, 'web/apps/main.ts')).toEqual(['@octocat']);
+    expect(findCodeOwners(rules, 'db/migrations/001_init.sql')).toEqual(['@dba']);
+  });
+
+  it('should return no owners without rules', () => {
+    expect(findCodeOwners(parseCodeOwners('\n# nothing here\n'), 'README.md')).toEqual([]);
+  });
+});
@@ -0,0 +1,53 @@
+import { DeploymentInfo } from '../../src/integrations/github.js';
+import { calculateDeploymentMetrics, deploymentDurationHours } from '../../src/utils/deployments.js';
+
+describe('deployment metrics', () => {
+  const now = new Date('2024-03-31T12:00:00Z');
+  const deployment = (overrides: Partial<DeploymentInfo>): DeploymentInfo => ({
+    id: 1,
+    environment: 'production',
+    ref: 'main',
+    sha: 'abc',
+    creator: 'ci',
+    createdAt: '2024-03-30T12:00:00Z',
+    state: 'success',
+    finishedAt: '2024-03-30T12:30:00Z',
+    ...overrides,
+  });
+
+  it('should compute change-failure rate over finished deployments only', () => {
+    const metrics = calculateDeploymentMetrics([
+      deployment({ id: 1 }),
+      deployment({ id: 2, state: 'failure' }),
+      deployment({ id: 3, state: 'error' }),
+      deployment({ id: 4 }),
+      deployment({ id: 5, state: 'in_progress', finishedAt: undefined }),
+    ], { windowDays: 7, now });
+
+    expect(metrics).toMatchObject({ total: 5, successful: 2, failed: 2, changeFailureRate: 50, deploymentsPerWeek: 2 });
+  });
+
+  it('should filter by environment and window but look back further for the last good deploy', () => {
+    const metrics = calculateDeploymentMetrics([
+      deployment({ id: 1, state: 'failure', createdAt: '2024-03-30T00:00:00Z' }),
+      deployment({ id: 2, environment: 'staging', createdAt: '2024-03-31T00:00:00Z', finishedAt: '2024-03-31T00:10:00Z' }),
+      deployment({ id: 3, createdAt: '2024-03-01T00:00:00Z', finishedAt: '2024-03-01T12:00:00Z' }),
+    ], { environment: 'production', windowDays: 14, now });
+
+    expect(metrics).toMatchObject({
+      environment: 'production',
+      total: 1,
+      successful: 0,
+      failed: 1,
+      changeFailureRate: 100,
+      lastSuccessfulAt: '2024-03-01T12:00:00Z',
+      hoursSinceLastSuccess: 720,
+      deploymentsPerWeek: 0,
+    });
+  });
+
+  it('should measure duration only for finished deployments', () => {
+    expect(deploymentDurationHours(deployment({}))).toBe(0.5);
+    expect(deploymentDurationHours(deployment({ finishedAt: undefined }))).toBeNull();
+  });
+});
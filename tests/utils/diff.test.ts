@@ -0,0 +1,46 @@
+import { commentableLines, numberPatch, parsePatch } from '../../src/utils/diff.js';
+
+describe('diff utils', () => {
+  const patch = [
+    '@@ -1,4 +1,5 @@ import',
+    ' const a = 1;',
+    '-const b = 2;',
+    '+const b = 3;',
+    '+const c = 4;',
+    ' ',
+    ' export { a };',
+    '@@ -20 +21,2 @@ function run() {',
+    '-  return a;',
+    '+  return a + b;',
+    '+}',
+    '\\ No newline at end of file',
+  ].join('\n');
+
+  it('should parse hunks with old and new line numbers', () => {
+    const hunks = parsePatch(patch);
+
+    expect(hunks).toHaveLength(2);
+    expect(hunks[0]).toMatchObject({ oldStart: 1, oldLines: 4, newStart: 1, newLines: 5 });
+    expect(hunks[0]?.lines[1]).toEqual({ type: 'delete', content: 'const b = 2;', oldLine: 2 });
+    expect(hunks[0]?.lines[5]).toEqual({ type: 'context', content: 'export { a };', oldLine: 4, newLine: 5 });
+    expect(hunks[1]).toMatchObject({ oldStart: 20, oldLines: 1, newStart: 21, newLines: 2 });
+    expect(hunks[1]?.lines).toHaveLength(3);
+  });
+
+  it('should only allow comments on added and context lines', () => {
+    const lines = commentableLines(patch);
+
+    expect([...lines.keys()]).toEqual([1, 2, 3, 4, 5, 21, 22]);
+    expect(lines.get(2)).toBe('const b = 3;');
+    expect(lines.get(22)).toBe('}');
+  });
+
+  it('should number lines by their new-file position', () => {
+    expect(numberPatch(patch).split('\n').slice(0, 4)).toEqual([
+      '@@ -1,4 +1,5 @@ import',
+      ' 1  const a = 1;',
+      '   -const b = 2;',
+      ' 2 +const b = 3;',
+    ]);
+  });
+});
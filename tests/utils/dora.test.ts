@@ -0,0 +1,55 @@
+import { calculateDoraMetrics, median, startOfWeek } from '../../src/utils/dora.js';
+
+describe('DORA metrics', () => {
+  const start = new Date('2024-03-04T00:00:00Z'); // Monday
+  const end = new Date('2024-03-18T00:00:00Z');
+
+  it('should start weeks on Monday in UTC', () => {
+    expect(startOfWeek(new Date('2024-03-10T23:59:00Z'))).toBe('2024-03-04');
+    expect(startOfWeek(new Date('2024-03-11T00:00:00Z'))).toBe('2024-03-11');
+  });
+
+  it('should take the middle value or the mean of the two middle values', () => {
+    expect(median([])).toBeNull();
+    expect(median([5, 1, 3])).toBe(3);
+    expect(median([4, 1, 2, 10])).toBe(3);
+  });
+
+  it('should compute summary, per-repository and weekly metrics within the window', () => {
+    const metrics = calculateDoraMetrics({
+      start,
+      end,
+      deployments: [
+        { repository: 'acme/api', createdAt: '2024-03-01T10:00:00Z', state: 'failure' }, // before the window
+        { repository: 'acme/api', createdAt: '2024-03-05T10:00:00Z', state: 'success', leadTimeHours: 10 },
+        { repository: 'acme/api', createdAt: '2024-03-06T10:00:00Z', state: 'failure' },
+        { repository: 'acme/web', createdAt: '2024-03-12T10:00:00Z', state: 'success', leadTimeHours: 30 },
+        { repository: 'acme/web', createdAt: '2024-03-13T10:00:00Z', state: 'success', leadTimeHours: null },
+        { repository: 'acme/web', createdAt: '2024-03-14T10:00:00Z', state: 'in_progress' },
+      ],
+      incidents: [
+        { key: 'OPS-1', created: '2024-03-06T11:00:00Z', resolvedAt: '2024-03-06T15:00:00Z' },
+        { key: 'OPS-2', created: '2024-03-01T00:00:00Z', resolvedAt: '2024-03-02T00:00:00Z' }, // resolved before the window
+      ],
+    });
+
+    expect(metrics.summary).toEqual({
+      deploymentsPerWeek: 1.5,
+      successfulDeployments: 3,
+      leadTimeHours: 20,
+      leadTimeSamples: 2,
+      changeFailureRate: 25,
+      failedDeployments: 1,
+      timeToRestoreHours: 4,
+      incidents: 1,
+    });
+    expect(metrics.repositories).toEqual([
+      expect.objectContaining({ repository: 'acme/api', successfulDeployments: 1, changeFailureRate: 50, leadTimeHours: 10 }),
+      expect.objectContaining({ repository: 'acme/web', successfulDeployments: 2, changeFailureRate: 0, leadTimeHours: 30 }),
+    ]);
+    expect(metrics.weekly).toEqual([
+      { weekStart: '2024-03-04', deployments: 1, failedDeployments: 1, changeFailureRate: 50, leadTimeHours: 10, timeToRestoreHours: 4, incidents: 1 },
+      { weekStart: '2024-03-11', deployments: 2, failedDeployments: 0, changeFailureRate: 0, leadTimeHours: 30, timeToRestoreHours: null, incidents: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,107 @@
+import {
+  and,
+  buildJql,
+  changedTo,
+  compare,
+  contains,
+  eq,
+  inList,
+  isEmpty,
+  jqlField,
+  jqlValue,
+  not,
+  notInList,
+  or,
+  quote,
+  raw,
+} from '../../src/utils/jql.js';
+
+describe('JQL builder', () => {
+  describe('values', () => {
+    it('should quote strings and escape quotes and backslashes', () => {
+      expect(quote('PROJ')).toBe('"PROJ"');
+      expect(quote('say "hi" \\ bye')).toBe('"say \\"hi\\" \\\\ bye"');
+    });
+
+    it('should keep injected JQL inside the string literal', () => {
+      expect(buildJql(eq('project', 'X" OR project = "Y'))).toBe('project = "X\\" OR project = \\"Y"');
+    });
+
+    it('should quote reserved words and functions used as values', () => {
+      expect(buildJql(eq('assignee', 'empty'))).toBe('assignee = "empty"');
+      expect(buildJql(eq('assignee', 'currentUser()'))).toBe('assignee = "currentUser()"');
+    });
+
+    it('should render numbers bare and dates as days', () => {
+      expect(jqlValue(5)).toBe('5');
+      expect(jqlValue(new Date('2024-03-01T15:00:00Z'))).toBe('"2024-03-01"');
+      expect(() => jqlValue(Number.NaN)).toThrow('Invalid JQL number');
+    });
+  });
+
+  describe('fields', () => {
+    it('should leave plain fields bare and quote reserved or unusual names', () => {
+      expect(jqlField('project')).toBe('project');
+      expect(jqlField('cf[10021]')).toBe('cf[10021]');
+      expect(jqlField('Story Points')).toBe('"Story Points"');
+      expect(jqlField('order')).toBe('"order"');
+    });
+  });
+
+  describe('clauses', () => {
+    it('should build comparison, list and empty clauses', () => {
+      expect(buildJql(compare('created', '>=', '2024-01-01'))).toBe('created >= "2024-01-01"');
+      expect(buildJql(inList('status', ['Done', 'Closed']))).toBe('status IN ("Done", "Closed")');
+      expect(buildJql(notInList('priority', ['Low']))).toBe('priority NOT IN ("Low")');
+      expect(buildJql(isEmpty('assignee'))).toBe('assignee IS EMPTY');
+      expect(() => inList('status', [])).toThrow('IN needs at least one value');
+    });
+
+    it('should build CHANGED TO with an optional AFTER', () => {
+      expect(buildJql(changedTo('status', ['Done'], { after: '2024-01-01' })))
+        .toBe('status CHANGED TO ("Done") AFTER "2024-01-01"');
+    });
+
+    it('should escape Lucene syntax in text searches', () => {
+      expect(buildJql(contains('text', 'fix* (login) "quoted"'))).toBe('text ~ "fix\\\\* \\\\(login\\\\) \\\\\\"quoted\\\\\\""');
+      expect(buildJql(contains('summary', 'payment'))).toBe('summary ~ "payment"');
+    });
+  });
+
+  describe('composition', () => {
+    it('should join clauses and parenthesise mixed groups', () => {
+      const clause = and(
+        eq('project', 'PROJ'),
+        or(eq('priority', 'High'), eq('priority', 'Highest')),
+        not(or(eq('status', 'Done'), isEmpty('assignee')))
+      );
+
+      expect(buildJql(clause)).toBe(
+        'project = "PROJ" AND (priority = "High" OR priority = "Highest") AND NOT (status = "Done" OR assignee IS EMPTY)'
+      );
+    });
+
+    it('should skip undefined clauses and unwrap single clauses', () => {
+      expect(buildJql(and(eq('project', 'PROJ'), undefined))).toBe('project = "PROJ"');
+      expect(() => or()).toThrow('OR needs at least one clause');
+    });
+
+    it('should add ORDER BY', () => {
+      expect(buildJql(eq('project', 'PROJ'), [{ field: 'resolved', direction: 'DESC' }, { field: 'key' }]))
+        .toBe('project = "PROJ" ORDER BY resolved DESC, key');
+    });
+  });
+
+  describe('raw', () => {
+    it('should parenthesise operator-written JQL', () => {
+      expect(buildJql(and(raw('project = OPS OR labels = incident'), compare('resolved', '>=', '2024-01-01'))))
+        .toBe('(project = OPS OR labels = incident) AND resolved >= "2024-01-01"');
+    });
+
+    it('should reject empty JQL and ORDER BY outside strings', () => {
+      expect(() => raw('  ')).toThrow('JQL must not be empty');
+      expect(() => raw('project = OPS ORDER BY created')).toThrow('must not contain ORDER BY');
+      expect(buildJql(raw('summary ~ "order by"'))).toBe('(summary ~ "order by")');
+    });
+  });
+});
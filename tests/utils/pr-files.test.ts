@@ -0,0 +1,80 @@
+import { classifyFile, packFiles, prepareFiles, sensitiveAreas } from '../../src/utils/pr-files.js';
+
+describe('pr file utils', () => {
+  const patchOf = (lines: number) => `@@ -0,0 +1,${lines} @@\n${Array.from({ length: lines }, (_, index) => `+const value${index} = ${index};`).join('\n')}`;
+
+  it('should classify lock, generated, vendored, test and doc files', () => {
+    const file = (filename: string, patch?: string) => ({ filename, additions: 1, deletions: 0, patch });
+
+    expect(classifyFile(file('web/package-lock.json'))).toBe('lockfile');
+    expect(classifyFile(file('vendor/github.com/pkg/errors/errors.go'))).toBe('vendor');
+    expect(classifyFile(file('dist/bundle.min.js'))).toBe('generated');
+    expect(classifyFile(file('src/api.ts', '@@ -0,0 +1 @@\n+// Code generated by protoc. DO NOT EDIT.'))).toBe('generated');
+    expect(classifyFile(file('src/api.test.ts'))).toBe('test');
+    expect(classifyFile(file('docs/setup.md'))).toBe('docs');
+    expect(classifyFile(file('src/api.ts'))).toBe('source');
+  });
+
+  it('should summarize lock files and order the rest riskiest first', () => {
+    const files = prepareFiles([
+      { filename: 'README.md', status: 'modified', additions: 200, deletions: 0, patch: patchOf(5) },
+      {
+        filename: 'package-lock.json',
+        status: 'modified',
+        additions: 4,
+        deletions: 2,
+        patch: '@@ -10,4 +10,6 @@\n-    "node_modules/lodash": {\n+    "node_modules/lodash": {\n+    "node_modules/@types/node": {',
+      },
+      { filename: 'src/ui/button.tsx', status: 'modified', additions: 30, deletions: 5, patch: patchOf(5) },
+      { filename: 'src/auth/session.ts', status: 'modified', additions: 3, deletions: 1, patch: patchOf(3) },
+    ]);
+
+    expect(files.map(file => file.filename)).toEqual(['src/auth/session.ts', 'src/ui/button.tsx', 'README.md', 'package-lock.json']);
+    expect(files[3]).toEqual({
+      filename: 'package-lock.json',
+      status: 'modified',
+      additions: 4,
+      deletions: 2,
+      summary: 'Lock file, +4/-2 lines; packages changed: @types/node, lodash',
+    });
+  });
+
+  it('should list the sensitive areas touched by source files only', () => {
+    const file = (filename: string) => ({ filename, additions: 1, deletions: 0 });
+
+    expect(sensitiveAreas([
+      file('src/auth/session.ts'),
+      file('.github/workflows/deploy.yml'),
+      file('tests/payments/refund.test.ts'),
+      file('docs/billing.md'),
+      file('src/ui/button.tsx'),
+    ])).toEqual(['authentication', 'infrastructure']);
+    expect(sensitiveAreas([file('src/ui/button.tsx')])).toEqual([]);
+    expect(sensitiveAreas([file('src/JWTSessionStore.ts'), file('db/migrate/20240301_add_index.rb')])).toEqual(['authentication', 'database migrations']);
+  });
+
+  it('should not mistake look-alike names for sensitive areas', () => {
+    const file = (filename: string) => ({ filename, additions: 1, deletions: 0 });
+
+    expect(sensitiveAreas([
+      file('components/AuthorList.tsx'),
+      file('src/ui/AuthorCard.tsx'),
+      file('src/utils/tokens.ts'),
+      file('src/db/oracle.ts'),
+      file('src/config/defaults.ts'),
+      file('src/sessionless/cache.ts'),
+    ])).toEqual([]);
+  });
+
+  it('should pack files into groups, cut oversized patches and omit what does not fit', () => {
+    const files = ['a.ts', 'b.ts', 'c.ts', 'd.ts'].map(filename => ({ filename, additions: 40, deletions: 0, patch: patchOf(40) }));
+    files[0] = { filename: 'huge.ts', additions: 400, deletions: 0, patch: patchOf(400) };
+
+    const { groups, omitted } = packFiles(files, 1200, 'gpt-4o', 2);
+
+    expect(groups).toHaveLength(2);
+    expect(groups[0]?.[0]).toMatchObject({ filename: 'huge.ts', truncated: true });
+    expect(groups.map(group => group.map(file => file.filename))).toEqual([['huge.ts'], ['b.ts']]);
+    expect(omitted.map(file => file.filename)).toEqual(['c.ts', 'd.ts']);
+  });
+});
@@ -0,0 +1,137 @@
+import { CircuitOpenError, ResiliencePolicy, currentAbortSignal, isRetryableError } from '../../src/utils/resilience.js';
+import { ServiceError } from '../../src/types/index.js';
+
+describe('ResiliencePolicy', () => {
+  let now: number;
+  let sleep: jest.Mock<Promise<void>, [number]>;
+  let policy: ResiliencePolicy;
+
+  const retryableError = () => new ServiceError('Service unavailable', { service: 'jira', statusCode: 503, retryable: true });
+
+  beforeEach(() => {
+    now = Date.parse('2024-01-01T00:00:00Z');
+    sleep = jest.fn().mockResolvedValue(undefined);
+    policy = new ResiliencePolicy({
+      circuitBreaker: { timeout: 0, threshold: 3, resetTimeout: 30000 },
+      retry: { maxRetries: 2, baseDelayMs: 100, maxDelayMs: 1000 },
+      sleep,
+      random: () => 0.5,
+      now: () => now,
+    });
+  });
+
+  it('should retry retryable errors with exponential backoff', async () => {
+    const fn = jest.fn()
+      .mockRejectedValueOnce(retryableError())
+      .mockRejectedValueOnce(retryableError())
+      .mockResolvedValue('ok');
+
+    await expect(policy.execute('jira', 'getIssue', fn)).resolves.toBe('ok');
+
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(sleep.mock.calls.map(call => call[0])).toEqual([50, 100]);
+    expect(policy.getBreaker('jira').getSnapshot().state).toBe('closed');
+  });
+
+  it('should not retry non-retryable errors or count them against the breaker', async () => {
+    const error = new ServiceError('Not found', { service: 'jira', statusCode: 404, retryable: false });
+    const fn = jest.fn().mockRejectedValue(error);
+
+    await expect(policy.execute('jira', 'getIssue', fn)).rejects.toBe(error);
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(policy.getBreaker('jira').getSnapshot().consecutiveFailures).toBe(0);
+  });
+
+  it('should open the breaker after the threshold and fail fast', async () => {
+    const fn = jest.fn().mockRejectedValue(retryableError());
+
+    await expect(policy.execute('jira', 'getIssue', fn)).rejects.toThrow('Service unavailable');
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(policy.getBreaker('jira').getSnapshot().state).toBe('open');
+
+    await expect(policy.execute('jira', 'getIssue', fn)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('should keep breakers independent per service', async () => {
+    await expect(policy.execute('jira', 'getIssue', jest.fn().mockRejectedValue(retryableError()))).rejects.toThrow();
+
+    await expect(policy.execute('github', 'getPRDetails', jest.fn().mockResolvedValue('ok'))).resolves.toBe('ok');
+    expect(policy.getBreaker('github').getSnapshot().state).toBe('closed');
+  });
+
+  it('should allow a trial call after the reset timeout and close on success', async () => {
+    await expect(policy.execute('slack', 'postMessage', jest.fn().mockRejectedValue(retryableError()))).rejects.toThrow();
+    expect(policy.getBreaker('slack').getSnapshot().state).toBe('open');
+
+    now += 30000;
+    expect(policy.getBreaker('slack').getSnapshot().state).toBe('half_open');
+
+    await expect(policy.execute('slack', 'postMessage', jest.fn().mockResolvedValue('sent'))).resolves.toBe('sent');
+    expect(policy.getBreaker('slack').getSnapshot().state).toBe('closed');
+  });
+
+  it('should reopen the breaker when the trial call fails', async () => {
+    await expect(policy.execute('llm', 'pr_analysis', jest.fn().mockRejectedValue(retryableError()))).rejects.toThrow();
+
+    now += 30000;
+    const fn = jest.fn().mockRejectedValue(retryableError());
+    await expect(policy.execute('llm', 'pr_analysis', fn)).rejects.toThrow('Service unavailable');
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(policy.getBreaker('llm').getSnapshot().state).toBe('open');
+  });
+
+  it('should time out slow calls as retryable failures', async () => {
+    const slowPolicy = new ResiliencePolicy({
+      circuitBreaker: { timeout: 10, threshold: 5, resetTimeout: 30000 },
+      retry: { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0 },
+    });
+
+    await expect(slowPolicy.execute('github', 'getPRDetails', () => new Promise(resolve => setTimeout(resolve, 200))))
+      .rejects.toThrow('github getPRDetails timed out after 10ms');
+    expect(slowPolicy.getBreaker('github').getSnapshot().consecutiveFailures).toBe(1);
+  });
+
+  it('should abort a timed-out attempt before retrying', async () => {
+    const slowPolicy = new ResiliencePolicy({
+      circuitBreaker: { timeout: 10, threshold: 5, resetTimeout: 30000 },
+      retry: { maxRetries: 1, baseDelayMs: 0, maxDelayMs: 0 },
+    });
+    const signals: AbortSignal[] = [];
+    const contextSignals: Array<AbortSignal | undefined> = [];
+
+    await expect(slowPolicy.execute('jira', 'getIssue', signal => {
+      signals.push(signal);
+      contextSignals.push(currentAbortSignal());
+      return new Promise((_, reject) => signal.addEventListener('abort', () => reject(signal.reason)));
+    })).rejects.toThrow('jira getIssue timed out after 10ms');
+
+    expect(signals).toHaveLength(2);
+    expect(signals.every(signal => signal.aborted)).toBe(true);
+    expect(contextSignals).toEqual(signals);
+    expect(currentAbortSignal()).toBeUndefined();
+  });
+});
+
+describe('isRetryableError', () => {
+  it('should classify raw errors by HTTP status', () => {
+    expect(isRetryableError(Object.assign(new Error('Server error'), { status: 502 }))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('Rate limited'), { status: 429 }))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('Bad request'), { status: 400 }))).toBe(false);
+  });
+
+  it('should only retry errors without a status when they are network failures', () => {
+    expect(isRetryableError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))).toBe(true);
+    expect(isRetryableError(new TypeError('fetch failed', { cause: Object.assign(new Error('getaddrinfo'), { code: 'ENOTFOUND' }) }))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('Rate limited'), { code: 'slack_webapi_rate_limited_error' }))).toBe(true);
+    expect(isRetryableError(new Error('Model refused the request: unsafe'))).toBe(false);
+    expect(isRetryableError(new Error('No pr_analysis tool call in Anthropic response (stop reason: end_turn)'))).toBe(false);
+  });
+
+  it('should honour ServiceError.retryable', () => {
+    expect(isRetryableError(new ServiceError('x', { service: 'github', retryable: false }))).toBe(false);
+    expect(isRetryableError(new ServiceError('x', { service: 'github', retryable: true }))).toBe(true);
+  });
+});
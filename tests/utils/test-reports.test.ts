@@ -0,0 +1,86 @@
+import { strToU8, zipSync } from 'fflate';
+import {
+  combinedCoverage,
+  detectReportFormat,
+  parseArtifactArchive,
+  parseCobertura,
+  parseJUnit,
+  parseLcov,
+} from '../../src/utils/test-reports.js';
+
+describe('test report parsing', () => {
+  const cobertura = `<?xml version="1.0" ?>
+<coverage line-rate="0.9" lines-covered="90" lines-valid="100" branch-rate="0.5" version="7.4">
+  <packages><package name="app" line-rate="0.9"/></packages>
+</coverage>`;
+
+  const junit = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="jest tests" tests="6" failures="2" errors="0">
+  <testsuite name="orchestrator" tests="4" failures="1" errors="1" skipped="0" time="1.2">
+    <testcase classname="orchestrator" name="works"/>
+  </testsuite>
+  <testsuite name='resilience' tests='2' failures='0' skipped='1'/>
+</testsuites>`;
+
+  it('should detect formats by file name and content', () => {
+    expect(detectReportFormat('coverage/lcov.info', '')).toBe('lcov');
+    expect(detectReportFormat('reports/coverage.xml', cobertura)).toBe('cobertura');
+    expect(detectReportFormat('report.xml', junit)).toBe('junit');
+    expect(detectReportFormat('index.html', junit)).toBeNull();
+  });
+
+  it('should sum lcov line totals across files', () => {
+    const report = parseLcov('lcov.info', 'SF:a.ts\nLF:10\nLH:5\nend_of_record\nSF:b.ts\nLF:30\nLH:30\nend_of_record\n');
+
+    expect(report).toEqual({ name: 'lcov.info', format: 'lcov', percentage: 87.5, linesCovered: 35, linesValid: 40 });
+  });
+
+  it('should read Cobertura totals and fall back to the line rate', () => {
+    expect(parseCobertura('coverage.xml', cobertura)).toMatchObject({ percentage: 90, linesCovered: 90, linesValid: 100 });
+    expect(parseCobertura('coverage.xml', '<coverage line-rate="0.734" branch-rate="0">')).toMatchObject({
+      percentage: 73.4,
+      linesValid: 0,
+    });
+  });
+
+  it('should count JUnit suites without double counting the testsuites totals', () => {
+    expect(parseJUnit(junit)).toEqual([
+      { name: 'orchestrator', passed: 2, failed: 2, skipped: 0 },
+      { name: 'resilience', passed: 1, failed: 0, skipped: 1 },
+    ]);
+  });
+
+  it('should weight combined coverage by lines and average rate-only reports', () => {
+    const lcov = parseLcov('a', 'LF:100\nLH:50\n');
+    const cob = parseCobertura('b', cobertura);
+
+    expect(combinedCoverage([lcov, cob])).toBe(70);
+    expect(combinedCoverage([lcov, parseCobertura('c', '<coverage line-rate="1">')])).toBe(75);
+    expect(combinedCoverage([])).toBe(0);
+  });
+
+  it('should parse every report inside an artifact archive', () => {
+    const archive = zipSync({
+      'junit.xml': strToU8(junit),
+      'coverage/cobertura-coverage.xml': strToU8(cobertura),
+      'coverage/index.html': strToU8('<html></html>'),
+    });
+
+    const parsed = parseArtifactArchive(archive);
+
+    expect(parsed.suites).toHaveLength(2);
+    expect(parsed.coverage).toEqual([expect.objectContaining({ name: 'coverage/cobertura-coverage.xml', percentage: 90 })]);
+  });
+
+  it('should skip reports that are too large once unzipped', () => {
+    const archive = zipSync({
+      'junit.xml': strToU8(junit),
+      // Compresses to a few kilobytes but unzips past the per-file limit
+      'huge/junit.xml': strToU8(`<testsuite name="huge" tests="1"/>${' '.repeat(11 * 1024 * 1024)}`),
+    });
+
+    const parsed = parseArtifactArchive(archive);
+
+    expect(parsed.suites.map(suite => suite.name)).toEqual(['orchestrator', 'resilience']);
+  });
+});
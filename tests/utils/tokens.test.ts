@@ -0,0 +1,27 @@
+import { estimateTokens, getModelProfile, truncateToTokens } from '../../src/utils/tokens.js';
+
+describe('token utils', () => {
+  it('should look up context windows by model family', () => {
+    expect(getModelProfile('gpt-4o-2024-08-06').contextTokens).toBe(128000);
+    expect(getModelProfile('claude-sonnet-4-5').contextTokens).toBe(200000);
+    expect(getModelProfile('gpt-4').contextTokens).toBe(8192);
+    expect(getModelProfile('my-azure-deployment').contextTokens).toBe(16000);
+  });
+
+  it('should count words, number groups and punctuation', () => {
+    expect(estimateTokens('const total = 1234;', 'gpt-4o')).toBe(11);
+    // Long identifiers count as several pieces
+    expect(estimateTokens('internationalization', 'gpt-4o')).toBe(5);
+    expect(estimateTokens('hello world', 'claude-sonnet-4-5')).toBe(6);
+  });
+
+  it('should keep the start of text that exceeds the budget', () => {
+    const text = Array.from({ length: 200 }, (_, index) => `line ${index}`).join('\n');
+
+    const truncated = truncateToTokens(text, 100, 'gpt-4o');
+
+    expect(text.startsWith(truncated)).toBe(true);
+    expect(estimateTokens(truncated, 'gpt-4o')).toBeLessThanOrEqual(100);
+    expect(truncateToTokens('short', 100, 'gpt-4o')).toBe('short');
+  });
+});
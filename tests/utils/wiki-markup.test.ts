@@ -0,0 +1,51 @@
+import { markdownToWikiMarkup } from '../../src/utils/wiki-markup.js';
+
+describe('markdownToWikiMarkup', () => {
+  it('should render headings, nested lists and code blocks', () => {
+    const wiki = markdownToWikiMarkup([
+      '### 🤖 IDWO Smart Triage Analysis',
+      '',
+      '1. Reproduce',
+      '   - on staging',
+      '2. Fix',
+      '',
+      '```ts',
+      'retry();',
+      '```',
+    ].join('\n'));
+
+    expect(wiki).toBe([
+      'h3. 🤖 IDWO Smart Triage Analysis',
+      '',
+      '# Reproduce',
+      '#* on staging',
+      '# Fix',
+      '',
+      '{code:ts}',
+      'retry();',
+      '{code}',
+    ].join('\n'));
+  });
+
+  it('should render marks and links and escape wiki syntax in text', () => {
+    expect(markdownToWikiMarkup('**Priority:** high, see [runbook](https://wiki.example.com) or https://example.com'))
+      .toBe('*Priority:* high, see [runbook|https://wiki.example.com] or [https://example.com]');
+    expect(markdownToWikiMarkup('Use `a_b` not {a_b} [x]')).toBe('Use {{a_b}} not \\{a\\_b\\} \\[x\\]');
+  });
+
+  it('should render quotes, rules, task lists and line breaks', () => {
+    expect(markdownToWikiMarkup('> quoted\n\n---\n\n- [x] done\n- [ ] todo\n\nfirst\nsecond')).toBe([
+      '{quote}',
+      'quoted',
+      '{quote}',
+      '',
+      '----',
+      '',
+      '* (/) done',
+      '* todo',
+      '',
+      'first',
+      'second',
+    ].join('\n'));
+  });
+});
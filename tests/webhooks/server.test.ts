@@ -0,0 +1,233 @@
+import { createHmac } from 'node:crypto';
+import request from 'supertest';
+import { SlackIntegration } from '../../src/integrations/slack.js';
+import { WorkflowOrchestrator } from '../../src/workflows/orchestrator.js';
+import { WebhookDispatcher } from '../../src/webhooks/dispatcher.js';
+import { WebhookServer } from '../../src/webhooks/server.js';
+
+jest.mock('../../src/workflows/orchestrator.js');
+
+describe('WebhookServer', () => {
+  let server: WebhookServer;
+  let dispatch: jest.Mock;
+
+  const secrets = { githubSecret: 'gh-secret', jiraSecret: 'jira-secret', slackSigningSecret: 'slack-secret' };
+  const sign = (secret: string, body: string) => createHmac('sha256', secret).update(body).digest('hex');
+
+  const pullRequestOpened = JSON.stringify({
+    action: 'opened',
+    pull_request: { number: 42, draft: false },
+    repository: { name: 'api', owner: { login: 'acme' } },
+  });
+
+  beforeEach(() => {
+    dispatch = jest.fn().mockResolvedValue(undefined);
+    server = new WebhookServer({ port: 0, host: '127.0.0.1', ...secrets }, { dispatch } as unknown as WebhookDispatcher);
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  const postGitHub = (body: string, signature: string, deliveryId = 'delivery-1') => request(server.application)
+    .post('/webhooks/github')
+    .set('Content-Type', 'application/json')
+    .set('X-GitHub-Event', 'pull_request')
+    .set('X-GitHub-Delivery', deliveryId)
+    .set('X-Hub-Signature-256', signature)
+    .send(body);
+
+  describe('GitHub', () => {
+    it('should dispatch pull_request.opened when the signature is valid', async () => {
+      await postGitHub(pullRequestOpened, `sha256=${sign('gh-secret', pullRequestOpened)}`).expect(202, { status: 'accepted' });
+      await server.drain();
+
+      expect(dispatch).toHaveBeenCalledWith({
+        source: 'github',
+        type: 'pull_request.opened',
+        deliveryId: 'delivery-1',
+        owner: 'acme',
+        repo: 'api',
+        pullNumber: 42,
+      });
+    });
+
+    it('should reject an invalid signature', async () => {
+      await postGitHub(pullRequestOpened, `sha256=${sign('wrong-secret', pullRequestOpened)}`).expect(401);
+      expect(dispatch).not.toHaveBeenCalled();
+    });
+
+    it('should ignore redelivered events and draft pull requests', async () => {
+      const signature = `sha256=${sign('gh-secret', pullRequestOpened)}`;
+      await postGitHub(pullRequestOpened, signature).expect(202);
+      await postGitHub(pullRequestOpened, signature).expect(202, { status: 'duplicate' });
+
+      const draft = JSON.stringify({ ...JSON.parse(pullRequestOpened), pull_request: { number: 43, draft: true } });
+      await postGitHub(draft, `sha256=${sign('gh-secret', draft)}`, 'delivery-2').expect(202, { status: 'ignored' });
+
+      await server.drain();
+      expect(dispatch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse deliveries when no secret is configured', async () => {
+      const unsigned = new WebhookServer({ port: 0, host: '127.0.0.1', ...secrets, githubSecret: '' }, { dispatch } as unknown as WebhookDispatcher);
+
+      await request(unsigned.application).post('/webhooks/github').send(pullRequestOpened).expect(503);
+    });
+  });
+
+  describe('Jira', () => {
+    const issueCreated = JSON.stringify({ webhookEvent: 'jira:issue_created', issue: { key: 'PROJ-7' } });
+
+    it('should accept a signed jira:issue_created event', async () => {
+      await request(server.application)
+        .post('/webhooks/jira')
+        .set('Content-Type', 'application/json')
+        .set('X-Hub-Signature', `sha256=${sign('jira-secret', issueCreated)}`)
+        .send(issueCreated)
+        .expect(202, { status: 'accepted' });
+      await server.drain();
+
+      expect(dispatch).toHaveBeenCalledWith(expect.objectContaining({ source: 'jira', issueKey: 'PROJ-7' }));
+    });
+
+    it('should accept the secret as a query parameter and reject a wrong one', async () => {
+      await request(server.application).post('/webhooks/jira?secret=jira-secret').set('Content-Type', 'application/json').send(issueCreated).expect(202);
+      await request(server.application).post('/webhooks/jira?secret=nope').set('Content-Type', 'application/json').send(issueCreated).expect(401);
+    });
+  });
+
+  describe('Slack', () => {
+    const postSlack = (body: string, timestamp = Math.floor(Date.now() / 1000).toString()) => request(server.application)
+      .post('/webhooks/slack')
+      .set('Content-Type', 'application/json')
+      .set('X-Slack-Request-Timestamp', timestamp)
+      .set('X-Slack-Signature', `v0=${sign('slack-secret', `v0:${timestamp}:${body}`)}`)
+      .send(body);
+
+    it('should answer the url_verification challenge', async () => {
+      await postSlack(JSON.stringify({ type: 'url_verification', challenge: 'abc123' })).expect(200, { challenge: 'abc123' });
+    });
+
+    it('should dispatch app mentions', async () => {
+      const body = JSON.stringify({
+        type: 'event_callback',
+        event_id: 'Ev1',
+        event: { type: 'app_mention', channel: 'C1', ts: '1700000000.000100', text: '<@U1> triage PROJ-9' },
+      });
+
+      await postSlack(body).expect(202);
+      await server.drain();
+
+      expect(dispatch).toHaveBeenCalledWith({
+        source: 'slack',
+        type: 'app_mention',
+        deliveryId: 'Ev1',
+        channel: 'C1',
+        threadTs: '1700000000.000100',
+        text: '<@U1> triage PROJ-9',
+      });
+    });
+
+    it('should reject stale timestamps', async () => {
+      const stale = (Math.floor(Date.now() / 1000) - 600).toString();
+      await postSlack(JSON.stringify({ type: 'url_verification', challenge: 'abc123' }), stale).expect(401);
+    });
+  });
+});
+
+describe('WebhookDispatcher', () => {
+  let orchestrator: jest.Mocked<WorkflowOrchestrator>;
+  let slack: { sendMessage: jest.Mock };
+  let dispatcher: WebhookDispatcher;
+
+  beforeEach(() => {
+    orchestrator = new WorkflowOrchestrator({} as any) as jest.Mocked<WorkflowOrchestrator>;
+    orchestrator.analyzePR.mockResolvedValue({
+      summary: 'Adds caching',
+      suggestedReviewers: ['alice'],
+      riskLevel: 'low',
+      estimatedReviewTime: 1,
+      topics: [],
+    });
+    orchestrator.smartTriage.mockResolvedValue({
+      priority: 'high',
+      category: 'bug',
+      estimatedEffort: 3,
+      dependencies: [],
+      tags: [],
+    });
+    slack = { sendMessage: jest.fn().mockResolvedValue({ ok: true }) };
+    dispatcher = new WebhookDispatcher(orchestrator, slack as unknown as SlackIntegration);
+  });
+
+  it('should analyze opened pull requests with actions enabled', async () => {
+    await dispatcher.dispatch({ source: 'github', type: 'pull_request.opened', deliveryId: 'd0', owner: 'acme', repo: 'api', pullNumber: 5 });
+
+    expect(orchestrator.analyzePR).toHaveBeenCalledWith({
+      owner: 'acme',
+      repo: 'api',
+      pull_number: 5,
+      include_jira_context: true,
+      apply_actions: true,
+    });
+  });
+
+  it('should run smartTriage for created Jira issues', async () => {
+    await dispatcher.dispatch({ source: 'jira', type: 'jira:issue_created', deliveryId: 'd1', issueKey: 'PROJ-7' });
+
+    expect(orchestrator.smartTriage).toHaveBeenCalledWith({ issue_key: 'PROJ-7' });
+  });
+
+  it('should analyze mentioned pull requests and issues and reply in the thread', async () => {
+    await dispatcher.dispatch({
+      source: 'slack',
+      type: 'app_mention',
+      deliveryId: 'Ev1',
+      channel: 'C1',
+      threadTs: '1700000000.000100',
+      text: '<@U1> look at <https://github.com/acme/api/pull/42> and PROJ-9',
+    });
+
+    expect(orchestrator.analyzePR).toHaveBeenCalledWith({ owner: 'acme', repo: 'api', pull_number: 42, include_jira_context: true });
+    expect(orchestrator.smartTriage).toHaveBeenCalledWith({ issue_key: 'PROJ-9' });
+    expect(slack.sendMessage).toHaveBeenCalledWith({
+      channel: 'C1',
+      thread_ts: '1700000000.000100',
+      text: '*acme/api#42*: low risk, ~1h review, suggested reviewers: alice\n*PROJ-9*: high priority, bug, 3 points',
+    });
+  });
+
+  it('should @-mention reviewers and assignees with a linked Slack account', async () => {
+    orchestrator.analyzePR.mockResolvedValue({
+      summary: 'Adds caching',
+      suggestedReviewers: ['alice', 'bob'],
+      reviewers: [{ github: 'alice', slack: 'U2' }, { github: 'bob', name: 'Bob Stone' }],
+      riskLevel: 'low',
+      estimatedReviewTime: 1,
+      topics: [],
+    });
+    orchestrator.smartTriage.mockResolvedValue({
+      priority: 'high',
+      category: 'bug',
+      estimatedEffort: 3,
+      suggestedAssignee: 'Dana',
+      assignee: { name: 'Dana Lee', slack: 'U3' },
+      dependencies: [],
+      tags: [],
+    });
+
+    await dispatcher.dispatch({
+      source: 'slack',
+      type: 'app_mention',
+      deliveryId: 'Ev2',
+      channel: 'C1',
+      threadTs: '1700000000.000200',
+      text: 'https://github.com/acme/api/pull/43 PROJ-10',
+    });
+
+    expect(slack.sendMessage).toHaveBeenCalledWith(expect.objectContaining({
+      text: '*acme/api#43*: low risk, ~1h review, suggested reviewers: <@U2>, Bob Stone\n*PROJ-10*: high priority, bug, 3 points, suggested assignee: <@U3>',
+    }));
+  });
+});
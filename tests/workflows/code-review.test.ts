@@ -0,0 +1,150 @@
+import { GitHubIntegration, PRDetails } from '../../src/integrations/github.js';
+import { OpenAIAgent } from '../../src/agents/openai.js';
+import { CodeReviewer, findingMarker, renderReviewBody } from '../../src/workflows/code-review.js';
+
+describe('CodeReviewer', () => {
+  const pr = {
+    number: 42,
+    title: 'Add refunds',
+    body: 'Refund support',
+    author: 'dave',
+    headSha: 'abc123',
+    files: [
+      {
+        filename: 'src/refund.ts',
+        status: 'modified',
+        additions: 2,
+        deletions: 1,
+        changes: 3,
+        patch: '@@ -10,3 +10,4 @@ export function refund() {\n   const amount = input.amount;\n-  charge(amount);\n+  charge(-amount);\n+  log(amount);\n   return amount;',
+      },
+      { filename: 'assets/logo.png', status: 'added', additions: 0, deletions: 0, changes: 0 },
+    ],
+    reviews: [{ user: 'idwo-bot', state: 'COMMENTED', submittedAt: '2024-03-01T00:00:00Z', body: '' }],
+  } as PRDetails;
+  const findings = [
+    { path: 'src/refund.ts', line: 11, severity: 'critical', title: 'Refund charges the customer', body: 'The amount is negated.' },
+    { path: 'src/refund.ts', line: 12, severity: 'minor', title: 'Logs the amount', body: 'Consider a structured log.' },
+    { path: 'src/refund.ts', line: 30, severity: 'major', title: 'No tests for refunds', body: '' },
+    { path: 'src/refund.ts', line: 13, severity: 'info', title: 'Nice', body: '' },
+  ];
+  let github: jest.Mocked<GitHubIntegration>;
+  let ai: jest.Mocked<OpenAIAgent>;
+
+  beforeEach(() => {
+    github = {
+      getAuthenticatedLogin: jest.fn().mockResolvedValue('idwo-bot'),
+      listReviewComments: jest.fn().mockResolvedValue([]),
+      createReview: jest.fn().mockResolvedValue({ id: 7, url: 'https://github.com/acme/api/pull/42#pullrequestreview-7' }),
+    } as any;
+    ai = {
+      reviewPullRequest: jest.fn().mockResolvedValue({
+        analysis: 'Refunds charge instead of crediting.',
+        confidence: 80,
+        recommendations: [],
+        structuredData: { findings },
+        structuredSource: 'model',
+      }),
+    } as any;
+  });
+
+  it('should anchor findings to diff lines and filter by severity without submitting', async () => {
+    const reviewer = new CodeReviewer(github, ai, [{ repository: 'acme/api', review: true }]);
+
+    const result = await reviewer.review('acme', 'api', pr);
+
+    expect(result.verdict).toBe('REQUEST_CHANGES');
+    expect(result.belowThreshold).toBe(1);
+    expect(result.findings.map(finding => [finding.title, finding.line])).toEqual([
+      ['Refund charges the customer', 11],
+      ['Logs the amount', 12],
+      // Line 30 is not in the diff, so the finding goes in the review body
+      ['No tests for refunds', undefined],
+    ]);
+    expect(result.submitted).toBe(false);
+    expect(github.createReview).not.toHaveBeenCalled();
+  });
+
+  it('should submit one review with inline comments and skip findings posted before', async () => {
+    const reviewer = new CodeReviewer(github, ai, [{ repository: 'acme/*', review: true }]);
+    const first = await reviewer.review('acme', 'api', pr, { minSeverity: 'major' });
+    github.listReviewComments.mockResolvedValue([
+      { id: 1, author: 'idwo-bot', path: 'src/refund.ts', line: 11, body: `**critical:** ... ${findingMarker(first.findings[0]?.fingerprint ?? '')}` },
+    ]);
+
+    const result = await reviewer.review('acme', 'api', pr, { minSeverity: 'major', submit: true });
+
+    expect(result.duplicates).toBe(1);
+    expect(result).toMatchObject({ verdict: 'REQUEST_CHANGES', submitted: true, reviewUrl: 'https://github.com/acme/api/pull/42#pullrequestreview-7' });
+    expect(github.createReview).toHaveBeenCalledWith('acme', 'api', 42, {
+      commitId: 'abc123',
+      body: expect.stringContaining('`src/refund.ts` No tests for refunds'),
+      event: 'REQUEST_CHANGES',
+      comments: [],
+    });
+  });
+
+  it('should ignore finding markers in comments IDWO did not write', async () => {
+    const reviewer = new CodeReviewer(github, ai, []);
+    const first = await reviewer.review('acme', 'api', pr, { minSeverity: 'major' });
+    github.listReviewComments.mockResolvedValue([
+      { id: 2, author: 'dave', path: 'src/refund.ts', line: 11, body: `Looks fine ${findingMarker(first.findings[0]?.fingerprint ?? '')}` },
+    ]);
+
+    const result = await reviewer.review('acme', 'api', pr, { minSeverity: 'major' });
+
+    expect(result.duplicates).toBe(0);
+    expect(result.findings.map(finding => finding.fingerprint)).toEqual(first.findings.map(finding => finding.fingerprint));
+  });
+
+  it('should keep the fingerprint when the finding moves with its code line', async () => {
+    const reviewer = new CodeReviewer(github, ai, []);
+    const shifted = {
+      ...pr,
+      files: [{ ...pr.files[0], patch: '@@ -20,2 +20,2 @@\n-  charge(amount);\n+  charge(-amount);\n   return amount;' }],
+    };
+    const original = await reviewer.review('acme', 'api', pr);
+    ai.reviewPullRequest.mockResolvedValueOnce({
+      analysis: '',
+      confidence: 80,
+      recommendations: [],
+      structuredData: { findings: [{ ...findings[0], line: 20 }] },
+      structuredSource: 'model',
+    });
+
+    const moved = await reviewer.review('acme', 'api', shifted);
+
+    expect(moved.findings[0]?.line).toBe(20);
+    expect(moved.findings[0]?.fingerprint).toBe(original.findings[0]?.fingerprint);
+  });
+
+  it('should not submit without a policy that allows reviews', async () => {
+    const reviewer = new CodeReviewer(github, ai, [{ repository: 'acme/api', comment: true }]);
+
+    const result = await reviewer.review('acme', 'api', pr, { submit: true });
+
+    expect(result.submitted).toBe(false);
+    expect(result.findings).toHaveLength(3);
+    expect(github.createReview).not.toHaveBeenCalled();
+  });
+});
+
+describe('renderReviewBody', () => {
+  it('should count findings by severity and list the ones without a line', () => {
+    const body = renderReviewBody({
+      verdict: 'COMMENT',
+      summary: 'Looks fine overall.',
+      findings: [
+        { path: 'a.ts', line: 3, severity: 'minor', title: 'Typo', body: '', fingerprint: 'aaa' },
+        { path: 'b.ts', severity: 'minor', title: 'Missing docs', body: 'Add a\nREADME entry.', fingerprint: 'bbb' },
+      ],
+      duplicates: 0,
+      belowThreshold: 0,
+      submitted: false,
+    });
+
+    expect(body).toContain('**Findings:** 2 minor');
+    expect(body).toContain('- **minor:** `b.ts` Missing docs Add a README entry. <!-- idwo:finding:bbb -->');
+    expect(body).not.toContain('Typo');
+  });
+});
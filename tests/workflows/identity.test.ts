@@ -0,0 +1,93 @@
+import { GitHubIntegration } from '../../src/integrations/github.js';
+import { JiraIntegration } from '../../src/integrations/jira.js';
+import { SlackIntegration } from '../../src/integrations/slack.js';
+import { IdentityDirectory, slackMention } from '../../src/workflows/identity.js';
+
+describe('IdentityDirectory', () => {
+  let github: jest.Mocked<GitHubIntegration>;
+  let jira: jest.Mocked<JiraIntegration>;
+  let slack: jest.Mocked<SlackIntegration>;
+
+  beforeEach(() => {
+    github = {
+      getUser: jest.fn().mockResolvedValue({ login: 'alice', name: 'Alice Doe', email: 'alice@example.com' }),
+      findUserByEmail: jest.fn().mockResolvedValue(null),
+    } as any;
+    jira = {
+      findUsers: jest.fn().mockResolvedValue([{ id: 'acc-alice', displayName: 'Alice Doe', active: true }]),
+      getUser: jest.fn().mockResolvedValue(null),
+    } as any;
+    slack = {
+      getUserInfo: jest.fn(),
+      lookupUserByEmail: jest.fn().mockResolvedValue({ id: 'U1' }),
+    } as any;
+  });
+
+  it('should match a GitHub login to Jira and Slack by email', async () => {
+    const directory = new IdentityDirectory(github, jira, slack);
+
+    await expect(directory.fromGitHub('alice')).resolves.toEqual({
+      github: 'alice',
+      name: 'Alice Doe',
+      email: 'alice@example.com',
+      jira: 'acc-alice',
+      slack: 'U1',
+    });
+    expect(jira.findUsers).toHaveBeenCalledWith('alice@example.com');
+    expect(slack.lookupUserByEmail).toHaveBeenCalledWith('alice@example.com');
+  });
+
+  it('should prefer overrides and only look up what they leave out', async () => {
+    const directory = new IdentityDirectory(github, jira, slack, [
+      { github: 'alice', jira: 'acc-override', email: 'alice@corp.example.com' },
+    ]);
+
+    await expect(directory.fromGitHub('Alice')).resolves.toMatchObject({ github: 'alice', jira: 'acc-override', slack: 'U1' });
+    expect(jira.findUsers).not.toHaveBeenCalled();
+    expect(slack.lookupUserByEmail).toHaveBeenCalledWith('alice@corp.example.com');
+  });
+
+  it('should skip ambiguous matches and keep going when a platform fails', async () => {
+    jira.findUsers.mockResolvedValue([
+      { id: 'acc-1', displayName: 'Alice Doe', active: true },
+      { id: 'acc-2', displayName: 'Alice Dobbs', active: true },
+    ]);
+    slack.lookupUserByEmail.mockRejectedValue(new Error('missing_scope'));
+    const directory = new IdentityDirectory(github, jira, slack);
+
+    const identity = await directory.fromGitHub('alice');
+
+    expect(identity.jira).toBeUndefined();
+    expect(identity.slack).toBeUndefined();
+    expect(identity.email).toBe('alice@example.com');
+  });
+
+  it('should cache resolved identities', async () => {
+    const directory = new IdentityDirectory(github, jira, slack);
+
+    await directory.fromGitHub('alice');
+    await directory.fromGitHub('alice');
+
+    expect(github.getUser).toHaveBeenCalledTimes(1);
+  });
+
+  it('should find people by name through overrides, then Jira user search', async () => {
+    jira.getUser.mockResolvedValue({ id: 'acc-alice', displayName: 'Alice Doe', email: 'alice@example.com', active: true });
+    const directory = new IdentityDirectory(github, jira, slack, [{ name: 'Bob Stone', github: 'bob', jira: 'acc-bob', slack: 'U2' }]);
+
+    await expect(directory.findByName('bob stone')).resolves.toEqual({ name: 'Bob Stone', github: 'bob', jira: 'acc-bob', slack: 'U2' });
+    await expect(directory.findByName('@bob')).resolves.toMatchObject({ slack: 'U2' });
+    await expect(directory.findByName('Alice')).resolves.toMatchObject({ jira: 'acc-alice', slack: 'U1' });
+
+    jira.findUsers.mockResolvedValue([]);
+    await expect(directory.findByName('Nobody')).resolves.toBeUndefined();
+  });
+});
+
+describe('slackMention', () => {
+  it('should mention linked Slack users and fall back to a name', () => {
+    expect(slackMention({ github: 'alice', slack: 'U1' })).toBe('<@U1>');
+    expect(slackMention({ github: 'bob', name: 'Bob Stone' })).toBe('Bob Stone');
+    expect(slackMention({ github: 'carol' })).toBe('carol');
+  });
+});
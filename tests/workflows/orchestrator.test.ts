@@ -3,6 +3,7 @@ import { GitHubIntegration } from '../../src/integrations/github.js';
 import { JiraIntegration } from '../../src/integrations/jira.js';
 import { SlackIntegration } from '../../src/integrations/slack.js';
 import { OpenAIAgent } from '../../src/agents/openai.js';
+import { strToU8, zipSync } from 'fflate';
 
 // Mock all integrations
 jest.mock('../../src/integrations/github.js');
@@ -23,6 +24,29 @@ describe('WorkflowOrchestrator', () => {
       getRepositoryStats: jest.fn(),
       updatePRStatus: jest.fn(),
       createRelease: jest.fn(),
+      resolveCommitSha: jest.fn().mockResolvedValue(null),
+      getDefaultBranch: jest.fn().mockResolvedValue('main'),
+      getCheckRuns: jest.fn().mockResolvedValue([]),
+      getWorkflowRuns: jest.fn().mockResolvedValue([]),
+      getWorkflowRunArtifacts: jest.fn().mockResolvedValue([]),
+      downloadArtifact: jest.fn(),
+      getDeployments: jest.fn().mockResolvedValue([]),
+      getTeamMembers: jest.fn().mockResolvedValue([]),
+      getPullRequestActivity: jest.fn().mockResolvedValue([]),
+      getCommitsBetween: jest.fn().mockResolvedValue([]),
+      getUser: jest.fn().mockResolvedValue(null),
+      findUserByEmail: jest.fn().mockResolvedValue(null),
+      getCodeOwners: jest.fn().mockResolvedValue(null),
+      getCommitsForPath: jest.fn().mockResolvedValue([]),
+      getReviewHistory: jest.fn().mockResolvedValue([]),
+      getOpenReviewRequests: jest.fn().mockResolvedValue({}),
+      requestReviewers: jest.fn(),
+      addLabels: jest.fn(),
+      removeLabel: jest.fn(),
+      upsertComment: jest.fn().mockResolvedValue({ id: 1, url: 'https://github.com/testorg/testrepo/pull/7#issuecomment-1', created: true }),
+      getAuthenticatedLogin: jest.fn().mockResolvedValue('idwo-bot'),
+      listReviewComments: jest.fn().mockResolvedValue([]),
+      createReview: jest.fn().mockResolvedValue({ id: 3, url: 'https://github.com/testorg/testrepo/pull/7#pullrequestreview-3' }),
     } as any;
 
     mockJira = {
@@ -30,15 +54,24 @@ describe('WorkflowOrchestrator', () => {
       addCommentToIssue: jest.fn(),
       searchIssues: jest.fn(),
       getProjectIssueStats: jest.fn(),
+      getResolvedIssueActivity: jest.fn().mockResolvedValue([]),
+      getSprintVelocity: jest.fn().mockResolvedValue([]),
+      getBoardsForProject: jest.fn().mockResolvedValue([]),
+      getSprints: jest.fn().mockResolvedValue([]),
+      findUsers: jest.fn().mockResolvedValue([]),
+      getUser: jest.fn().mockResolvedValue(null),
     } as any;
 
     mockSlack = {
       findChannelByName: jest.fn(),
       sendNotification: jest.fn(),
+      getUserInfo: jest.fn(),
+      lookupUserByEmail: jest.fn().mockResolvedValue(null),
     } as any;
 
     mockAI = {
       analyzePullRequest: jest.fn(),
+      reviewPullRequest: jest.fn(),
       triageIssue: jest.fn(),
       assessReleaseReadiness: jest.fn(),
       generateTeamInsights: jest.fn(),
@@ -80,7 +113,7 @@ describe('WorkflowOrchestrator', () => {
         confidence: 85,
         recommendations: ['Review the error handling', 'Add more tests'],
         structuredData: {
-          suggestedReviewers: ['senior-dev', 'team-lead'],
+          reviewerRationale: 'Both own src/ in CODEOWNERS.',
           riskLevel: 'medium',
           estimatedReviewTime: 3,
           topics: ['feature', 'backend'],
@@ -97,6 +130,7 @@ describe('WorkflowOrchestrator', () => {
 
       mockGitHub.getPRDetails.mockResolvedValue(mockPRDetails);
       mockGitHub.getRepositoryStats.mockResolvedValue(mockRepoStats);
+      mockGitHub.getCodeOwners.mockResolvedValue('src/ @senior-dev @team-lead @developer\n');
       mockAI.analyzePullRequest.mockResolvedValue(mockAIAnalysis);
 
       const result = await orchestrator.analyzePR({
@@ -112,13 +146,72 @@ describe('WorkflowOrchestrator', () => {
         riskLevel: 'medium',
         estimatedReviewTime: 3,
         topics: ['feature', 'backend'],
-        relatedJiraTickets: ['PROJ-456']
+        relatedJiraTickets: ['PROJ-456'],
+        reviewerRationale: 'Both own src/ in CODEOWNERS.',
       });
+      expect(mockAI.analyzePullRequest).toHaveBeenCalledWith(expect.objectContaining({
+        reviewerCandidates: [
+          expect.objectContaining({ login: 'senior-dev', reasons: ['owns 1 of 1 changed files in CODEOWNERS'] }),
+          expect.objectContaining({ login: 'team-lead' }),
+        ],
+      }), { forceRefresh: undefined });
 
       expect(mockGitHub.getPRDetails).toHaveBeenCalledWith('testorg', 'testrepo', 123);
       expect(mockAI.analyzePullRequest).toHaveBeenCalled();
     });
 
+    it('should link suggested reviewers to their Jira and Slack accounts', async () => {
+      orchestrator = new WorkflowOrchestrator({
+        github: mockGitHub,
+        jira: mockJira,
+        slack: mockSlack,
+        ai: mockAI,
+        identities: [{ github: 'senior-dev', slack: 'U100' }],
+      });
+      mockGitHub.getPRDetails.mockResolvedValue({ title: 'Refactor', body: '', author: 'dev', files: [{ filename: 'README.md', changes: 2 }], commits: [], reviews: [] } as any);
+      mockGitHub.getRepositoryStats.mockResolvedValue({ contributors: [] } as any);
+      mockAI.analyzePullRequest.mockResolvedValue({
+        analysis: 'Small refactor',
+        confidence: 90,
+        recommendations: [],
+        structuredData: { reviewerRationale: '' },
+      });
+      mockGitHub.getCodeOwners.mockResolvedValue('* @senior-dev');
+      mockSlack.getUserInfo.mockResolvedValue({ id: 'U100', realName: 'Sam Senior', email: 'sam@example.com' } as any);
+      mockJira.findUsers.mockResolvedValue([{ id: '5b10ac8d82e05b22cc7d4ef5', displayName: 'Sam Senior', active: true }]);
+
+      const result = await orchestrator.analyzePR({ owner: 'testorg', repo: 'testrepo', pull_number: 7 });
+
+      expect(result.reviewers).toEqual([{
+        github: 'senior-dev',
+        slack: 'U100',
+        jira: '5b10ac8d82e05b22cc7d4ef5',
+        name: 'Sam Senior',
+        email: 'sam@example.com',
+      }]);
+      expect(mockJira.findUsers).toHaveBeenCalledWith('sam@example.com');
+    });
+
+    it('should only write to the pull request when actions are requested and allowed', async () => {
+      orchestrator = new WorkflowOrchestrator({
+        github: mockGitHub,
+        jira: mockJira,
+        slack: mockSlack,
+        ai: mockAI,
+        pullRequestActions: [{ repository: 'testorg/testrepo', comment: true }],
+      });
+      mockGitHub.getPRDetails.mockResolvedValue({ number: 7, title: 'Refactor', body: '', author: 'dev', labels: [], files: [], commits: [], reviews: [] } as any);
+      mockAI.analyzePullRequest.mockResolvedValue({ analysis: 'Small refactor', confidence: 90, recommendations: [], structuredData: { riskLevel: 'low' } });
+
+      const readOnly = await orchestrator.analyzePR({ owner: 'testorg', repo: 'testrepo', pull_number: 7 });
+      const withActions = await orchestrator.analyzePR({ owner: 'testorg', repo: 'testrepo', pull_number: 7, apply_actions: true });
+
+      expect(readOnly.actions).toBeUndefined();
+      expect(withActions.actions).toMatchObject({ commentUrl: 'https://github.com/testorg/testrepo/pull/7#issuecomment-1', errors: [] });
+      expect(mockGitHub.upsertComment).toHaveBeenCalledTimes(1);
+      expect(mockGitHub.requestReviewers).not.toHaveBeenCalled();
+    });
+
     it('should handle analysis failure gracefully', async () => {
       mockGitHub.getPRDetails.mockRejectedValue(new Error('GitHub API error'));
 
@@ -130,6 +223,44 @@ describe('WorkflowOrchestrator', () => {
     });
   });
 
+  describe('reviewPR', () => {
+    it('should submit new findings only when asked and allowed by policy', async () => {
+      orchestrator = new WorkflowOrchestrator({
+        github: mockGitHub,
+        jira: mockJira,
+        slack: mockSlack,
+        ai: mockAI,
+        pullRequestActions: [{ repository: 'testorg/*', review: true }],
+      });
+      mockGitHub.getPRDetails.mockResolvedValue({
+        number: 7,
+        title: 'Retry payments',
+        body: '',
+        headSha: 'def456',
+        files: [{ filename: 'src/pay.ts', status: 'modified', patch: '@@ -1 +1 @@\n-retry(0)\n+retry(-1)' }],
+        reviews: [],
+      } as any);
+      mockAI.reviewPullRequest.mockResolvedValue({
+        analysis: 'Retries never stop.',
+        confidence: 80,
+        recommendations: [],
+        structuredData: { findings: [{ path: 'src/pay.ts', line: 1, severity: 'major', title: 'Infinite retries', body: '-1 retries forever.' }] },
+      });
+
+      const preview = await orchestrator.reviewPR({ owner: 'testorg', repo: 'testrepo', pull_number: 7 });
+      const submitted = await orchestrator.reviewPR({ owner: 'testorg', repo: 'testrepo', pull_number: 7, submit: true });
+
+      expect(preview).toMatchObject({ verdict: 'REQUEST_CHANGES', submitted: false, findings: [{ path: 'src/pay.ts', line: 1 }] });
+      expect(submitted).toMatchObject({ submitted: true, reviewUrl: 'https://github.com/testorg/testrepo/pull/7#pullrequestreview-3' });
+      expect(mockGitHub.createReview).toHaveBeenCalledTimes(1);
+      expect(mockGitHub.createReview).toHaveBeenCalledWith('testorg', 'testrepo', 7, expect.objectContaining({
+        commitId: 'def456',
+        event: 'REQUEST_CHANGES',
+        comments: [expect.objectContaining({ path: 'src/pay.ts', line: 1, side: 'RIGHT' })],
+      }));
+    });
+  });
+
   describe('smartTriage', () => {
     it('should triage issue successfully', async () => {
       const mockJiraIssue = {
@@ -174,10 +305,19 @@ describe('WorkflowOrchestrator', () => {
       mockJira.searchIssues.mockResolvedValue([]);
       mockAI.triageIssue.mockResolvedValue(mockAIAnalysis);
       mockJira.addCommentToIssue.mockResolvedValue();
+      mockJira.getBoardsForProject.mockResolvedValue([
+        { id: 1, name: 'Frontend board', type: 'scrum' },
+        { id: 2, name: 'Backend-Team board', type: 'scrum' },
+      ]);
+      mockJira.getSprints.mockResolvedValue([
+        { id: 10, name: 'Sprint 10', state: 'active' },
+        { id: 11, name: 'Sprint 11', state: 'future' },
+      ]);
 
       const result = await orchestrator.smartTriage({
         issue_key: 'PROJ-789',
-        team_context: 'backend-team'
+        team_context: 'backend-team',
+        force_refresh: true,
       });
 
       expect(result).toMatchObject({
@@ -185,16 +325,44 @@ describe('WorkflowOrchestrator', () => {
         category: 'bug',
         estimatedEffort: 8,
         suggestedAssignee: 'backend-lead',
+        suggestedSprint: 'Sprint 10',
         dependencies: [],
         tags: ['urgent', 'payment']
       });
 
+      expect(mockJira.getBoardsForProject).toHaveBeenCalledWith('PROJ');
+      expect(mockJira.getSprints).toHaveBeenCalledWith(2, ['active', 'future']);
       expect(mockJira.getIssue).toHaveBeenCalledWith('PROJ-789');
+      expect(mockAI.triageIssue).toHaveBeenCalledWith(expect.objectContaining({ teamContext: 'backend-team' }), { forceRefresh: true });
+      expect(mockJira.searchIssues).toHaveBeenCalledWith(
+        'text ~ "critical" OR text ~ "payment" OR text ~ "system" ORDER BY created DESC',
+        5,
+        { fields: ['summary'] }
+      );
       expect(mockJira.addCommentToIssue).toHaveBeenCalledWith(
         'PROJ-789',
         expect.stringContaining('🤖 IDWO Smart Triage Analysis')
       );
     });
+
+    it('should resolve the suggested assignee through Jira user search', async () => {
+      mockJira.getIssue.mockResolvedValue({ key: 'PROJ-790', summary: 'Login fails', description: '', labels: [], comments: [], components: [] } as any);
+      mockJira.searchIssues.mockResolvedValue([]);
+      mockAI.triageIssue.mockResolvedValue({
+        analysis: 'Auth regression',
+        confidence: 80,
+        recommendations: [],
+        structuredData: { priority: 'high', suggestedAssignee: 'Dana Lee' },
+      });
+      mockJira.findUsers.mockResolvedValue([{ id: 'acc-dana', displayName: 'Dana Lee', email: 'dana@example.com', active: true }]);
+      mockJira.getUser.mockResolvedValue({ id: 'acc-dana', displayName: 'Dana Lee', email: 'dana@example.com', active: true });
+      mockSlack.lookupUserByEmail.mockResolvedValue({ id: 'U200' } as any);
+
+      const result = await orchestrator.smartTriage({ issue_key: 'PROJ-790' });
+
+      expect(result.assignee).toMatchObject({ jira: 'acc-dana', slack: 'U200', name: 'Dana Lee' });
+      expect(mockJira.addCommentToIssue).toHaveBeenCalledWith('PROJ-790', expect.stringContaining('- **Suggested Assignee:** Dana Lee'));
+    });
   });
 
   describe('orchestrateRelease', () => {
@@ -273,6 +441,117 @@ describe('WorkflowOrchestrator', () => {
       );
     });
 
+    it('should populate test results from check runs and report artifacts', async () => {
+      mockGitHub.getRepositoryStats.mockResolvedValue({} as any);
+      mockJira.getProjectIssueStats.mockResolvedValue({ totalIssues: 0 } as any);
+      mockJira.searchIssues.mockResolvedValue([]);
+      mockSlack.findChannelByName.mockResolvedValue({ id: 'C123456', name: 'releases' } as any);
+      mockAI.assessReleaseReadiness.mockResolvedValue({ analysis: '', confidence: 80, recommendations: [], structuredData: { readinessScore: 90, blockers: [] } });
+      mockGitHub.resolveCommitSha.mockImplementation(async (_owner, _repo, ref) => (ref === 'v2.1.0' ? 'abc123' : null));
+      mockGitHub.getCheckRuns.mockResolvedValue([
+        { name: 'build', status: 'completed', conclusion: 'success' },
+        { name: 'e2e', status: 'completed', conclusion: 'failure' },
+        { name: 'deploy-preview', status: 'in_progress', conclusion: null },
+      ]);
+      mockGitHub.getWorkflowRuns.mockResolvedValue([
+        { id: 2, name: 'CI', status: 'completed', conclusion: 'success', headSha: 'abc123', createdAt: '2024-01-02T00:00:00Z' },
+        { id: 1, name: 'CI', status: 'completed', conclusion: 'failure', headSha: 'abc123', createdAt: '2024-01-01T00:00:00Z' },
+      ]);
+      mockGitHub.getWorkflowRunArtifacts.mockResolvedValue([
+        { id: 10, name: 'test-results', sizeInBytes: 1024, expired: false },
+        { id: 11, name: 'dist-bundle', sizeInBytes: 1024, expired: false },
+      ]);
+      mockGitHub.downloadArtifact.mockResolvedValue(zipSync({
+        'junit.xml': strToU8('<testsuites><testsuite name="api" tests="10" failures="1" skipped="1"/><testsuite name="web" tests="5" failures="0"/></testsuites>'),
+        'coverage/lcov.info': strToU8('SF:src/a.ts\nLF:200\nLH:150\nend_of_record\n'),
+      }));
+
+      const result = await orchestrator.orchestrateRelease({
+        release_version: 'v2.1.0',
+        repository: 'testorg/testrepo',
+        jira_project: 'PROJ',
+        slack_channel: '#releases',
+        dry_run: true
+      });
+
+      expect(mockGitHub.getWorkflowRunArtifacts).toHaveBeenCalledTimes(1);
+      expect(mockGitHub.getWorkflowRunArtifacts).toHaveBeenCalledWith('testorg', 'testrepo', 2);
+      expect(mockGitHub.downloadArtifact).toHaveBeenCalledWith('testorg', 'testrepo', 10);
+      expect(result.testCoverage).toBe(75);
+      expect(result.testResults).toMatchObject({
+        ref: 'v2.1.0',
+        sha: 'abc123',
+        passed: 13,
+        failed: 1,
+        skipped: 1,
+        source: 'reports',
+        checks: { total: 3, passed: 1, failed: 1, pending: 1 },
+        suites: [
+          { name: 'api', passed: 8, failed: 1, skipped: 1 },
+          { name: 'web', passed: 5, failed: 0, skipped: 0 },
+        ],
+      });
+      expect(mockAI.assessReleaseReadiness).toHaveBeenCalledWith(expect.objectContaining({
+        testResults: expect.objectContaining({ passed: 13, failed: 1, coverage: 75 }),
+      }), { forceRefresh: undefined });
+    });
+
+    it('should feed production deployment history into the readiness assessment', async () => {
+      const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+      mockGitHub.getRepositoryStats.mockResolvedValue({} as any);
+      mockJira.getProjectIssueStats.mockResolvedValue({ totalIssues: 0 } as any);
+      mockJira.searchIssues.mockResolvedValue([]);
+      mockSlack.findChannelByName.mockResolvedValue({ id: 'C123456', name: 'releases' } as any);
+      mockAI.assessReleaseReadiness.mockResolvedValue({ analysis: '', confidence: 80, recommendations: [], structuredData: { readinessScore: 90, blockers: [] } });
+      mockGitHub.getDeployments.mockResolvedValue([
+        { id: 3, environment: 'production', ref: 'v2.0.1', sha: 'c', creator: 'ci', createdAt: hoursAgo(5), state: 'failure', finishedAt: hoursAgo(4) },
+        { id: 2, environment: 'production', ref: 'v2.0.0', sha: 'b', creator: 'ci', createdAt: hoursAgo(49), state: 'success', finishedAt: hoursAgo(48) },
+        { id: 1, environment: 'production', ref: 'v1.9.0', sha: 'a', creator: 'ci', createdAt: hoursAgo(100), state: 'in_progress' },
+      ]);
+
+      const result = await orchestrator.orchestrateRelease({
+        release_version: 'v2.1.0',
+        repository: 'testorg/testrepo',
+        jira_project: 'PROJ',
+        slack_channel: '#releases',
+        dry_run: true
+      });
+
+      expect(mockGitHub.getDeployments).toHaveBeenCalledWith('testorg', 'testrepo', { environment: 'production', limit: 50 });
+      expect(result.deploymentMetrics).toMatchObject({
+        environment: 'production',
+        total: 3,
+        successful: 1,
+        failed: 1,
+        changeFailureRate: 50,
+        hoursSinceLastSuccess: 48,
+      });
+      expect(mockAI.assessReleaseReadiness).toHaveBeenCalledWith(expect.objectContaining({
+        deploymentHistory: [
+          { version: 'v2.0.1', success: false, date: expect.any(String) },
+          { version: 'v2.0.0', success: true, date: expect.any(String) },
+        ],
+      }), { forceRefresh: undefined });
+    });
+
+    it('should block a release the assessment scores 0', async () => {
+      mockGitHub.getRepositoryStats.mockResolvedValue({} as any);
+      mockJira.getProjectIssueStats.mockResolvedValue({ totalIssues: 0 } as any);
+      mockJira.searchIssues.mockResolvedValue([]);
+      mockSlack.findChannelByName.mockResolvedValue({ id: 'C123456', name: 'releases' } as any);
+      mockAI.assessReleaseReadiness.mockResolvedValue({ analysis: '', confidence: 80, recommendations: [], structuredData: { readinessScore: 0, blockers: [] } });
+
+      const result = await orchestrator.orchestrateRelease({
+        release_version: 'v2.1.0',
+        repository: 'testorg/testrepo',
+        jira_project: 'PROJ',
+        slack_channel: '#releases',
+        dry_run: true
+      });
+
+      expect(result).toMatchObject({ readiness: 0, recommendation: 'block' });
+    });
+
     it('should handle missing Slack channel', async () => {
       mockGitHub.getRepositoryStats.mockResolvedValue({} as any);
       mockJira.getProjectIssueStats.mockResolvedValue({} as any);
@@ -387,8 +666,126 @@ describe('WorkflowOrchestrator', () => {
         expect.objectContaining({
           name: 'backend-team',
           period: '30d'
-        })
+        }),
+        { forceRefresh: undefined }
       );
     });
+
+    it('should report deployment frequency from the team repositories', async () => {
+      const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+      mockAI.generateTeamInsights.mockResolvedValue({
+        analysis: '',
+        confidence: 75,
+        recommendations: [],
+        structuredData: {
+          velocityTrend: 'stable',
+          bottlenecks: [],
+          teamMetrics: { avgPRSize: 0, avgReviewTime: 0, deploymentFrequency: 0, cycleTime: 0 },
+        },
+      });
+      mockGitHub.getDeployments
+        .mockResolvedValueOnce([
+          { id: 1, environment: 'production', ref: 'main', sha: 'a', creator: 'ci', createdAt: daysAgo(3), state: 'success', finishedAt: daysAgo(3) },
+          { id: 2, environment: 'production', ref: 'main', sha: 'b', creator: 'ci', createdAt: daysAgo(10), state: 'error', finishedAt: daysAgo(10) },
+        ])
+        .mockResolvedValueOnce([
+          { id: 3, environment: 'production', ref: 'main', sha: 'c', creator: 'ci', createdAt: daysAgo(1), state: 'success', finishedAt: daysAgo(1) },
+        ]);
+
+      const result = await orchestrator.getTeamInsights({
+        team_name: 'backend-team',
+        time_period: '2w',
+        repositories: ['acme/api', 'acme/web'],
+      });
+
+      expect(mockGitHub.getDeployments).toHaveBeenCalledWith('acme', 'api', expect.objectContaining({ environment: 'production', since: expect.any(String) }));
+      expect(result.teamMetrics.deploymentFrequency).toBe(1);
+      expect(result.deploymentMetrics).toMatchObject({ total: 3, failed: 1, changeFailureRate: 33.3 });
+      expect(mockAI.generateTeamInsights).toHaveBeenCalledWith(expect.objectContaining({
+        deployments: expect.arrayContaining([expect.objectContaining({ state: 'error', deployDurationHours: 0 })]),
+      }), { forceRefresh: undefined });
+    });
+
+    it('should collect data for a configured team', async () => {
+      orchestrator = new WorkflowOrchestrator({
+        github: mockGitHub,
+        jira: mockJira,
+        slack: mockSlack,
+        ai: mockAI,
+        organization: 'acme',
+        teams: [{ name: 'Backend', githubTeam: 'backend', repositories: ['acme/api'], jiraProject: 'BE', jiraBoardId: 7 }],
+      });
+      mockAI.generateTeamInsights.mockResolvedValue({ analysis: '', confidence: 75, recommendations: [], structuredData: { velocityTrend: 'stable', bottlenecks: [] } });
+      mockGitHub.getTeamMembers.mockResolvedValue(['alice', 'bob']);
+      mockJira.getSprintVelocity.mockResolvedValue([
+        { sprint: { id: 1, name: 'Sprint 1', state: 'closed' }, committedPoints: 20, completedPoints: 18 },
+        { sprint: { id: 2, name: 'Sprint 2', state: 'closed' }, committedPoints: 22, completedPoints: 21 },
+      ]);
+
+      const result = await orchestrator.getTeamInsights({ team_name: 'backend', time_period: '1q', repositories: ['acme/web'] });
+
+      expect(mockGitHub.getTeamMembers).toHaveBeenCalledWith('acme', 'backend');
+      expect(mockGitHub.getPullRequestActivity).toHaveBeenCalledWith('acme', 'api', expect.objectContaining({ authors: ['alice', 'bob'] }));
+      expect(mockGitHub.getPullRequestActivity).toHaveBeenCalledWith('acme', 'web', expect.any(Object));
+      expect(mockJira.getResolvedIssueActivity).toHaveBeenCalledWith('project = "BE"', expect.any(String));
+      expect(result.velocity).toMatchObject({ current: 21, historical: [18, 21] });
+      expect(mockAI.generateTeamInsights).toHaveBeenCalledWith(expect.objectContaining({ name: 'Backend', members: ['alice', 'bob'] }), { forceRefresh: undefined });
+    });
+
+    it('should reject unknown time periods', async () => {
+      await expect(orchestrator.getTeamInsights({ team_name: 'backend-team', time_period: 'last month' }))
+        .rejects.toThrow('Invalid time period "last month"');
+    });
+  });
+
+  describe('getDoraMetrics', () => {
+    const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    it('should measure lead time from the first commit since the previous good deploy', async () => {
+      orchestrator = new WorkflowOrchestrator({
+        github: mockGitHub,
+        jira: mockJira,
+        slack: mockSlack,
+        ai: mockAI,
+        teams: [{ name: 'Backend', repositories: ['acme/api'], jiraProject: 'OPS' }],
+      });
+      mockGitHub.getDeployments.mockResolvedValue([
+        { id: 3, environment: 'production', ref: 'main', sha: 'c3', creator: 'ci', createdAt: daysAgo(2), state: 'success', finishedAt: daysAgo(2) },
+        { id: 2, environment: 'production', ref: 'main', sha: 'b2', creator: 'ci', createdAt: daysAgo(5), state: 'failure', finishedAt: daysAgo(5) },
+        { id: 1, environment: 'production', ref: 'main', sha: 'a1', creator: 'ci', createdAt: daysAgo(40), state: 'success', finishedAt: daysAgo(40) },
+      ]);
+      mockGitHub.getCommitsBetween.mockResolvedValue([
+        { sha: 'c3', authoredAt: daysAgo(3) },
+        { sha: 'b2', authoredAt: daysAgo(4) },
+      ]);
+      mockJira.getResolvedIssueActivity.mockResolvedValue([
+        { key: 'OPS-1', issueType: 'Incident', priority: 'High', created: daysAgo(5), resolvedAt: daysAgo(4.5) },
+      ]);
+
+      const result = await orchestrator.getDoraMetrics({ team_name: 'Backend', time_period: '30d' });
+
+      expect(mockGitHub.getCommitsBetween).toHaveBeenCalledTimes(1);
+      expect(mockGitHub.getCommitsBetween).toHaveBeenCalledWith('acme', 'api', 'a1', 'c3');
+      expect(mockJira.getResolvedIssueActivity).toHaveBeenCalledWith('project = "OPS" AND issuetype = "Incident"', expect.any(String), 500);
+      expect(result).toMatchObject({
+        team: 'Backend',
+        environment: 'production',
+        period: { days: 30 },
+        summary: {
+          successfulDeployments: 1,
+          failedDeployments: 1,
+          changeFailureRate: 50,
+          leadTimeHours: 48,
+          timeToRestoreHours: 12,
+          incidents: 1,
+        },
+      });
+      expect(result.weekly.reduce((sum, week) => sum + week.deployments, 0)).toBe(1);
+    });
+
+    it('should require a repository or a team with repositories', async () => {
+      await expect(orchestrator.getDoraMetrics({ team_name: 'unknown' }))
+        .rejects.toThrow('DORA metrics need a repository or a team with repositories');
+    });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,81 @@
+import { GitHubIntegration } from '../../src/integrations/github.js';
+import { SlackIntegration } from '../../src/integrations/slack.js';
+import { IdentityDirectory } from '../../src/workflows/identity.js';
+import { ReviewerRecommender } from '../../src/workflows/reviewers.js';
+
+describe('ReviewerRecommender', () => {
+  const now = new Date('2024-04-01T00:00:00Z');
+  const pr = {
+    author: 'dave',
+    files: [
+      { filename: 'src/payments/charge.ts', status: 'modified', additions: 40, deletions: 10, changes: 50 },
+      { filename: 'src/payments/refund.ts', status: 'modified', additions: 5, deletions: 5, changes: 10 },
+      { filename: 'docs/payments.md', status: 'modified', additions: 3, deletions: 0, changes: 3 },
+    ],
+  };
+  let github: jest.Mocked<GitHubIntegration>;
+  let slack: jest.Mocked<SlackIntegration>;
+  let identities: jest.Mocked<IdentityDirectory>;
+  let recommender: ReviewerRecommender;
+
+  beforeEach(() => {
+    github = {
+      getCodeOwners: jest.fn().mockResolvedValue('* @acme/docs\nsrc/payments/ @alice @dave\n'),
+      getTeamMembers: jest.fn().mockResolvedValue(['carol']),
+      getCommitsForPath: jest.fn().mockImplementation(async (_owner: string, _repo: string, path: string) => (path === 'src/payments'
+        ? [{ sha: 'c1', author: 'bob' }, { sha: 'c2', author: 'bob' }, { sha: 'c3', author: 'dave' }]
+        : [{ sha: 'c1', author: 'bob' }])),
+      getReviewHistory: jest.fn().mockResolvedValue([
+        { number: 1, author: 'dave', mergedAt: '2024-03-01T00:00:00Z', files: ['src/payments/charge.ts'], reviewers: ['alice', 'bob'] },
+        { number: 2, author: 'erin', mergedAt: '2024-03-02T00:00:00Z', files: ['src/ui/button.tsx'], reviewers: ['frank'] },
+      ]),
+      getOpenReviewRequests: jest.fn().mockResolvedValue({ alice: 2 }),
+    } as any;
+    slack = { getUserInfo: jest.fn() } as any;
+    identities = { fromGitHub: jest.fn().mockImplementation(async (login: string) => ({ github: login })) } as any;
+    recommender = new ReviewerRecommender(github, slack, identities);
+  });
+
+  it('should rank owners, recent authors and reviewers of the changed paths, excluding the author', async () => {
+    const recommendations = await recommender.recommend('acme', 'api', pr, { now });
+
+    expect(recommendations.map(recommendation => recommendation.login)).toEqual(['bob', 'alice', 'carol']);
+    expect(recommendations[0]).toEqual({
+      login: 'bob',
+      score: 3.33,
+      reasons: [
+        'authored 2 of 3 recent commits to the changed paths',
+        'reviewed 1 of 1 recently merged pull requests touching the changed paths',
+      ],
+      openReviews: 0,
+    });
+    expect(recommendations[1]).toMatchObject({
+      login: 'alice',
+      score: 2.67,
+      reasons: expect.arrayContaining(['owns 2 of 3 changed files in CODEOWNERS', '2 open review requests']),
+      openReviews: 2,
+    });
+    expect(github.getTeamMembers).toHaveBeenCalledWith('acme', 'docs');
+    expect(github.getCommitsForPath).toHaveBeenCalledWith('acme', 'api', 'src/payments', '2024-01-02T00:00:00.000Z');
+  });
+
+  it('should skip people whose Slack status says they are away', async () => {
+    identities.fromGitHub.mockImplementation(async (login: string) => ({ github: login, slack: `U-${login}` }));
+    slack.getUserInfo.mockImplementation(async (id: string) => (id === 'U-bob'
+      ? { id, statusText: 'Vacation until Monday', statusEmoji: ':palm_tree:' }
+      : { id, statusText: 'Focusing' }) as any);
+
+    const recommendations = await recommender.recommend('acme', 'api', pr, { now, limit: 2 });
+
+    expect(recommendations.map(recommendation => recommendation.login)).toEqual(['alice', 'carol']);
+  });
+
+  it('should still rank from the sources that respond', async () => {
+    github.getCodeOwners.mockRejectedValue(new Error('rate limited'));
+    github.getReviewHistory.mockRejectedValue(new Error('rate limited'));
+
+    const recommendations = await recommender.recommend('acme', 'api', pr, { now });
+
+    expect(recommendations.map(recommendation => recommendation.login)).toEqual(['bob']);
+  });
+});
@@ -0,0 +1,88 @@
+import { GitHubIntegration } from '../../src/integrations/github.js';
+import { JiraIntegration } from '../../src/integrations/jira.js';
+import { TeamDataCollector, parseTimePeriod } from '../../src/workflows/team-data.js';
+
+describe('parseTimePeriod', () => {
+  it('should convert day, week, month, quarter and year periods', () => {
+    expect(parseTimePeriod('30d')).toBe(30);
+    expect(parseTimePeriod('1w')).toBe(7);
+    expect(parseTimePeriod('2m')).toBe(60);
+    expect(parseTimePeriod('1q')).toBe(91);
+    expect(parseTimePeriod(' 1Y ')).toBe(365);
+  });
+
+  it('should reject malformed periods', () => {
+    expect(() => parseTimePeriod('0d')).toThrow('Invalid time period "0d"');
+    expect(() => parseTimePeriod('month')).toThrow('Invalid time period');
+  });
+});
+
+describe('TeamDataCollector', () => {
+  const now = new Date('2024-04-01T00:00:00Z');
+  let github: jest.Mocked<GitHubIntegration>;
+  let jira: jest.Mocked<JiraIntegration>;
+  let collector: TeamDataCollector;
+
+  beforeEach(() => {
+    github = {
+      getTeamMembers: jest.fn().mockResolvedValue(['alice']),
+      getPullRequestActivity: jest.fn().mockResolvedValue([
+        {
+          repository: 'acme/api',
+          number: 1,
+          author: 'alice',
+          createdAt: '2024-03-20T00:00:00Z',
+          firstReviewAt: '2024-03-20T06:00:00Z',
+          mergedAt: '2024-03-21T00:00:00Z',
+          additions: 120,
+          deletions: 30,
+          changedFiles: 4,
+        },
+        { repository: 'acme/api', number: 2, author: 'alice', createdAt: '2024-03-25T00:00:00Z', additions: 10, deletions: 0, changedFiles: 1 },
+      ]),
+      getDeployments: jest.fn().mockResolvedValue([]),
+    } as any;
+    jira = {
+      getResolvedIssueActivity: jest.fn().mockResolvedValue([
+        {
+          key: 'BE-1',
+          issueType: 'Story',
+          priority: 'High',
+          created: '2024-03-01T00:00:00Z',
+          startedAt: '2024-03-10T00:00:00Z',
+          resolvedAt: '2024-03-12T00:00:00Z',
+        },
+      ]),
+      getSprintVelocity: jest.fn().mockRejectedValue(new Error('board not found')),
+    } as any;
+    collector = new TeamDataCollector(github, jira, { organization: 'acme', deploymentEnvironment: 'production' });
+  });
+
+  it('should derive review times, sizes and resolution times for the period', async () => {
+    const data = await collector.collect(
+      { name: 'Backend', githubTeam: 'backend', repositories: ['acme/api'], jiraProject: 'BE', jiraBoardId: 7 },
+      '30d',
+      now
+    );
+
+    expect(data.since).toBe('2024-03-02T00:00:00.000Z');
+    expect(github.getPullRequestActivity).toHaveBeenCalledWith('acme', 'api', { since: data.since, authors: ['alice'] });
+    expect(data.pullRequests).toEqual([
+      { repository: 'acme/api', number: 1, author: 'alice', size: 150, reviewTime: 6, mergeTime: 24 },
+      { repository: 'acme/api', number: 2, author: 'alice', size: 10, reviewTime: null, mergeTime: null },
+    ]);
+    expect(data.issues).toEqual([
+      expect.objectContaining({ key: 'BE-1', timeToResolve: 264, cycleTime: 48 }),
+    ]);
+    expect(data.deploymentMetrics).toMatchObject({ total: 0, deploymentsPerWeek: 0 });
+  });
+
+  it('should keep the remaining data when one source fails', async () => {
+    const data = await collector.collect({ name: 'Backend', repositories: [], jiraProject: 'BE', jiraBoardId: 7 }, '2w', now);
+
+    expect(data.velocity).toEqual({ current: 0, historical: [] });
+    expect(data.issues).toHaveLength(1);
+    expect(github.getTeamMembers).not.toHaveBeenCalled();
+    expect(data.deploymentMetrics).toBeUndefined();
+  });
+});